@@ -3,8 +3,8 @@ import { UsersModule } from './users/users.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from "@nestjs/config";
 import { AuthModule } from './auth/auth.module';
-import { DiagramGateway } from './diagrams/diagram.gateway';
 import { DiagramsModule } from './diagrams/diagrams.module';
+import { WorkspacesModule } from './workspaces/workspaces.module';
 
 @Module({
   imports: [
@@ -36,8 +36,9 @@ import { DiagramsModule } from './diagrams/diagrams.module';
     }),
     AuthModule,
     DiagramsModule,
+    WorkspacesModule,
   ],
   controllers: [],
-  providers: [DiagramGateway],
+  providers: [],
 })
 export class AppModule {}
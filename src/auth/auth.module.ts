@@ -4,10 +4,12 @@ import { AuthService } from './auth.service';
 import { UsersModule } from 'src/users/users.module';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DiagramsModule } from 'src/diagrams/diagrams.module';
 
 @Module({
   imports: [
     forwardRef(() => UsersModule),
+    forwardRef(() => DiagramsModule),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -1,19 +1,22 @@
 import { BadRequestException, Injectable, UnauthorizedException } from '@nestjs/common';
 import { UsersService } from 'src/users/users.service';
+import { User } from 'src/users/entities/user.entity';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import * as bcryptjs from "bcryptjs";
 import { JwtService } from '@nestjs/jwt';
+import { DiagramInvitationsService } from 'src/diagrams/diagram-invitations.service';
 
 @Injectable()
 export class AuthService {
 
     constructor(
         private readonly usersService: UsersService,
-        private readonly jwtService: JwtService
+        private readonly jwtService: JwtService,
+        private readonly diagramInvitationsService: DiagramInvitationsService,
     ) {}
 
-    async register({ password, email, name }: RegisterDto) {
+    async register({ password, email, name, invitationToken }: RegisterDto) {
       const user = await this.usersService.findOneByEmail(email);
   
       if (user) {
@@ -22,14 +25,18 @@ export class AuthService {
   
       const hashedPassword = await bcryptjs.hash(password, 10);
   
-      await this.usersService.create({
+      const created = await this.usersService.create({
         name,
         email,
         password: hashedPassword,
       });
+
+      // Diagrama de la invitación con la que llegó a registrarse
+      const sharedDiagrams = await this.diagramInvitationsService.acceptPending(created as User, invitationToken);
   
       return {
         message: "User created successfully",
+        sharedDiagrams,
       };
     }
   
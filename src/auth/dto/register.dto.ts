@@ -1,5 +1,5 @@
 import { Transform } from "class-transformer";
-import { IsEmail, IsString, MinLength } from "class-validator";
+import { IsEmail, IsOptional, IsString, MinLength } from "class-validator";
 
 export class RegisterDto {
   @IsString()
@@ -13,4 +13,9 @@ export class RegisterDto {
   @MinLength(6)
   @Transform(({ value }) => value.trim())
   password: string;
+
+  // Token de una invitación a un diagrama (ver DiagramInvitationsService)
+  @IsString()
+  @IsOptional()
+  invitationToken?: string;
 }
\ No newline at end of file
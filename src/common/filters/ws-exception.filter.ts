@@ -0,0 +1,28 @@
+import { ArgumentsHost, Catch, HttpException } from "@nestjs/common";
+import { BaseWsExceptionFilter } from "@nestjs/websockets";
+import { Socket } from "socket.io";
+
+/**
+ * Reenvía al socket las HttpException lanzadas por los servicios
+ * (NotFound, Forbidden, BadRequest con errores por campo...) en el evento
+ * `exception`, en lugar del "Internal server error" genérico de Nest.
+ */
+@Catch()
+export class WsExceptionFilter extends BaseWsExceptionFilter {
+  catch(exception: unknown, host: ArgumentsHost) {
+    if (!(exception instanceof HttpException)) {
+      return super.catch(exception, host);
+    }
+
+    const client = host.switchToWs().getClient<Socket>();
+    const response = exception.getResponse();
+    const pattern = host.switchToWs().getPattern();
+
+    client.emit("exception", {
+      status: "error",
+      event: pattern,
+      statusCode: exception.getStatus(),
+      ...(typeof response === "string" ? { message: response } : response),
+    });
+  }
+}
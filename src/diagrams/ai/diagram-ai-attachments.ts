@@ -0,0 +1,97 @@
+// src/diagrams/ai/diagram-ai-attachments.ts
+import { BadRequestException, PayloadTooLargeException } from '@nestjs/common';
+import { DiagramAiImage } from './diagram-ai-provider';
+
+export const AI_ATTACHMENT_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'application/pdf'] as const;
+
+// Archivo recibido por REST (multipart) o por el socket (base64)
+export interface AiAttachmentInput {
+  data: Buffer;
+  // Tipo declarado por el cliente; manda el detectado en el contenido
+  mimeType?: string;
+  name?: string;
+}
+
+const positiveNumber = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+/**
+ * Límites de los archivos que se envían a la IA: cantidad
+ * (`AI_MAX_ATTACHMENTS`, 10), tamaño total (`AI_MAX_ATTACHMENTS_MB`, 20) y
+ * páginas por PDF (`AI_MAX_PDF_PAGES`, 20).
+ */
+export function aiAttachmentLimits() {
+  return {
+    maxFiles: Math.trunc(positiveNumber(process.env.AI_MAX_ATTACHMENTS, 10)),
+    maxTotalBytes: positiveNumber(process.env.AI_MAX_ATTACHMENTS_MB, 20) * 1024 * 1024,
+    maxPdfPages: Math.trunc(positiveNumber(process.env.AI_MAX_PDF_PAGES, 20)),
+  };
+}
+
+/**
+ * Opciones de Multer con los mismos límites: corta la subida en cuanto hay
+ * demasiados archivos o uno solo supera el tamaño total, sin cargarlo entero.
+ */
+export function aiAttachmentMulterOptions() {
+  const limits = aiAttachmentLimits();
+  return { limits: { files: limits.maxFiles, fileSize: limits.maxTotalBytes } };
+}
+
+// Tipo según los primeros bytes del archivo
+function detectType(data: Buffer): (typeof AI_ATTACHMENT_TYPES)[number] | null {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+  if (data.toString('latin1', 0, 4) === 'GIF8') return 'image/gif';
+  if (data.toString('latin1', 0, 5) === '%PDF-') return 'application/pdf';
+  return null;
+}
+
+/**
+ * Páginas de un PDF contando sus objetos `/Type /Page`. Es aproximado: los
+ * PDF con streams de objetos comprimidos no los muestran y devuelven 0.
+ */
+export function countPdfPages(data: Buffer) {
+  return data.toString('latin1').match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+}
+
+/**
+ * Valida los archivos para generar un diagrama: al menos uno, tipo admitido
+ * (PNG, JPEG, WebP, GIF o PDF, comprobado por contenido) y dentro de los
+ * límites de `aiAttachmentLimits`. Lanza 400 o 413 con el archivo culpable.
+ */
+export function validateAiAttachments(files: AiAttachmentInput[]): DiagramAiImage[] {
+  const limits = aiAttachmentLimits();
+  if (files.length === 0) throw new BadRequestException('At least one image or PDF is required');
+  if (files.length > limits.maxFiles) {
+    throw new BadRequestException(`Too many files: ${files.length} (maximum ${limits.maxFiles})`);
+  }
+
+  const totalBytes = files.reduce((total, file) => total + file.data.length, 0);
+  if (totalBytes > limits.maxTotalBytes) {
+    throw new PayloadTooLargeException(
+      `Files are too large: ${(totalBytes / 1024 / 1024).toFixed(1)} MB (maximum ${limits.maxTotalBytes / 1024 / 1024} MB in total)`,
+    );
+  }
+
+  return files.map((file, index) => {
+    const label = file.name ? `"${file.name}"` : `#${index + 1}`;
+    if (file.data.length === 0) throw new BadRequestException(`File ${label} is empty`);
+
+    const mimeType = detectType(file.data);
+    if (!mimeType) {
+      throw new BadRequestException(
+        `File ${label} is not a supported image or PDF (${file.mimeType ?? 'unknown type'}); allowed: ${AI_ATTACHMENT_TYPES.join(', ')}`,
+      );
+    }
+    if (mimeType === 'application/pdf') {
+      const pages = countPdfPages(file.data);
+      if (pages > limits.maxPdfPages) {
+        throw new PayloadTooLargeException(`PDF ${label} has ${pages} pages (maximum ${limits.maxPdfPages})`);
+      }
+    }
+    return { data: file.data, mimeType };
+  });
+}
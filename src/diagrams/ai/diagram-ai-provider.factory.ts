@@ -0,0 +1,31 @@
+// src/diagrams/ai/diagram-ai-provider.factory.ts
+import { Provider } from '@nestjs/common';
+import { DIAGRAM_AI_PROVIDER, DiagramAiProvider } from './diagram-ai-provider';
+import { GeminiAiProvider } from './gemini-ai.provider';
+import { OpenAiCompatibleAiProvider } from './openai-compatible-ai.provider';
+import { StubAiProvider } from './stub-ai.provider';
+
+/**
+ * Elige el proveedor según `AI_PROVIDER`: gemini (por defecto), openai o stub.
+ */
+export function createDiagramAiProvider(env: NodeJS.ProcessEnv = process.env): DiagramAiProvider {
+  switch (env.AI_PROVIDER ?? 'gemini') {
+    case 'gemini':
+      return new GeminiAiProvider(env.GEMINI_API_KEY ?? '', env.GEMINI_MODEL || 'gemini-2.0-flash');
+    case 'openai':
+      return new OpenAiCompatibleAiProvider(
+        env.AI_BASE_URL || 'https://api.openai.com/v1',
+        env.AI_API_KEY ?? '',
+        env.AI_MODEL || 'gpt-4o-mini',
+      );
+    case 'stub':
+      return new StubAiProvider(env.AI_STUB_FIXTURE || undefined, Number(env.AI_STUB_DELAY_MS) || 0);
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${env.AI_PROVIDER}" (expected gemini, openai or stub)`);
+  }
+}
+
+export const diagramAiProviderFactory: Provider = {
+  provide: DIAGRAM_AI_PROVIDER,
+  useFactory: () => createDiagramAiProvider(),
+};
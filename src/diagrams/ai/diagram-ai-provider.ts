@@ -0,0 +1,36 @@
+// src/diagrams/ai/diagram-ai-provider.ts
+
+// Imagen o PDF (`application/pdf`) adjunto a la petición; ver validateAiAttachments
+export interface DiagramAiImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+// Turno anterior de una conversación (ver DiagramChatService)
+export interface DiagramAiMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface DiagramAiRequest {
+  // Instrucciones completas (ver los build*Prompt de DiagramsService)
+  prompt: string;
+  images?: DiagramAiImage[];
+  // Mensajes previos de la conversación, del más antiguo al más reciente
+  history?: DiagramAiMessage[];
+  // Cancela la petición en curso (ver DiagramAiJobsService)
+  signal?: AbortSignal;
+}
+
+/**
+ * Modelo de lenguaje que genera diagramas. Devuelve el texto de la respuesta
+ * tal cual; extraer y validar el JSON es responsabilidad de quien lo llama.
+ */
+export interface DiagramAiProvider {
+  readonly name: string;
+  generate(request: DiagramAiRequest): Promise<string>;
+  // Igual que generate, pero entrega el texto por fragmentos a medida que llega
+  stream(request: DiagramAiRequest): AsyncIterable<string>;
+}
+
+export const DIAGRAM_AI_PROVIDER = Symbol('DIAGRAM_AI_PROVIDER');
@@ -0,0 +1,226 @@
+// src/diagrams/ai/diagram-ai-response.spec.ts
+import { DiagramContent } from '../schema/diagram-content.schema';
+import { validateDiagramContent } from '../schema/diagram-content.validator';
+import {
+  AiResponseParseError,
+  createExplanationFilter,
+  explanationOf,
+  extractJson,
+  reconcileDuplicateClasses,
+  repairGeneratedContent,
+} from './diagram-ai-response';
+
+const existing = (): DiagramContent => ({
+  version: 2,
+  elements: {
+    user: {
+      name: 'User',
+      position: { x: 0, y: 0 },
+      attributes: [
+        { id: 'a_id', name: 'id', type: 'Long' },
+        { id: 'a_name', name: 'name', type: 'String' },
+      ],
+    },
+  },
+  relations: {},
+});
+
+const empty = (): DiagramContent => ({ version: 2, elements: {}, relations: {} });
+
+const paths = (repairs: { path: string }[]) => repairs.map(repair => repair.path);
+
+describe('extractJson', () => {
+  it('extrae el JSON de un bloque de código rodeado de texto', () => {
+    const text = 'Aquí tienes el diagrama:\n```json\n{ "elements": { "a": { "name": "A" } } }\n```\nSaludos.';
+    expect(extractJson(text)).toEqual({ elements: { a: { name: 'A' } } });
+  });
+
+  it('ignora las llaves dentro de strings y las comas finales', () => {
+    const text = 'Resultado: { "name": "a } b", "list": [1, 2,], } y algo más';
+    expect(extractJson(text)).toEqual({ name: 'a } b', list: [1, 2] });
+  });
+
+  it('rechaza respuestas sin JSON, incompletas o inválidas', () => {
+    expect(() => void extractJson('No puedo generar el diagrama')).toThrow(AiResponseParseError);
+    expect(() => void extractJson('{ "elements": { "a": 1 }')).toThrow('incomplete');
+    expect(() => void extractJson('{ elements: 1 }')).toThrow('not valid JSON');
+  });
+});
+
+describe('repairGeneratedContent', () => {
+  it('normaliza colecciones, tipos y atributos y agrega el id', () => {
+    const raw = {
+      elements: [
+        {
+          id: 'product',
+          name: ' Product ',
+          attributes: [
+            { name: 'price', type: 'decimal' },
+            { name: 'code', type: 'varchar(20)' },
+            { name: 'Code', type: 'String' },
+            { name: 'tags', type: 'List<String>' },
+            { type: 'Integer' },
+          ],
+        },
+      ],
+    };
+
+    const { content, repairs } = repairGeneratedContent(raw, empty(), 'replace');
+
+    expect(Object.keys(content.elements)).toEqual(['product']);
+    const product = content.elements.product;
+    expect(product.name).toBe('Product');
+    expect(product.position).toEqual({ x: 100, y: 100 });
+    expect(product.attributes.map(attr => `${attr.name}:${attr.type}`)).toEqual(['id:Long', 'price:BigDecimal', 'code:String', 'tags:String']);
+    expect(paths(repairs)).toEqual(expect.arrayContaining([
+      'elements',
+      'elements.product.position',
+      'elements.product.attributes.0.type',
+      'elements.product.attributes.2',
+      'elements.product.attributes.3.type',
+      'elements.product.attributes.4',
+      'elements.product.attributes',
+    ]));
+  });
+
+  it('resuelve los extremos por nombre, normaliza el tipo y descarta relaciones inválidas', () => {
+    const raw = {
+      elements: {
+        order: { name: 'Order', position: { x: 0, y: 0 }, attributes: [{ name: 'id', type: 'Long' }] },
+      },
+      relations: {
+        r1: { from: 'Order', to: 'user', type: 'n:1' },
+        r2: { from: 'order', to: 'Invoice', type: 'ManyToOne' },
+        r3: { from: 'order', to: 'user', type: 'depends' },
+      },
+    };
+
+    const { content, repairs } = repairGeneratedContent(raw, existing(), 'merge');
+
+    expect(content.relations).toEqual({ r1: { from: 'order', to: 'user', type: 'ManyToOne' } });
+    expect(paths(repairs)).toEqual(expect.arrayContaining(['relations.r1.from', 'relations.r1.type', 'relations.r2', 'relations.r3']));
+  });
+
+  it('conserva las etiquetas de JointJS y convierte el texto a string', () => {
+    const label = { position: { distance: 0.5, offset: -10 }, attrs: { text: { text: '1..*' } } };
+    const raw = {
+      elements: {
+        a: { name: 'A', position: { x: 0, y: 0 }, attributes: [{ id: 'a_id', name: 'id', type: 'Long' }] },
+        b: { name: 'B', position: { x: 300, y: 0 }, attributes: [{ id: 'b_id', name: 'id', type: 'Long' }] },
+      },
+      relations: {
+        r1: { from: 'a', to: 'b', type: 'OneToMany', labels: [label, { position: 0.2, text: 1 }, 'x'] },
+      },
+    };
+
+    const { content, repairs } = repairGeneratedContent(raw, empty(), 'replace');
+
+    expect(content.relations.r1.labels).toEqual([label, { position: 0.2, text: '1' }]);
+    expect(paths(repairs)).toEqual(['relations.r1.labels']);
+    expect(validateDiagramContent({ version: 2, ...content })).toEqual([]);
+  });
+
+  it('en modo merge completa la clase existente y conserva los IDs de sus atributos', () => {
+    const raw = { elements: { user: { name: 'Client', attributes: [{ name: 'name', type: 'String' }, { name: 'email', type: 'String' }] } } };
+
+    const { content } = repairGeneratedContent(raw, existing(), 'merge');
+
+    expect(content.elements.user.position).toEqual({ x: 0, y: 0 });
+    expect(content.elements.user.attributes[1]).toEqual({ id: 'a_name', name: 'name', type: 'String' });
+  });
+
+  it('asigna un ID nuevo a una clase distinta que reutiliza el de una existente', () => {
+    const raw = {
+      elements: { user: { name: 'Product', attributes: [{ name: 'price', type: 'Double' }] } },
+      relations: { r1: { from: 'user', to: 'user', type: 'ManyToOne' } },
+    };
+
+    const { content, repairs } = repairGeneratedContent(raw, existing(), 'merge');
+
+    const [classId] = Object.keys(content.elements);
+    expect(classId).not.toBe('user');
+    expect(content.elements[classId].name).toBe('Product');
+    expect(content.relations.r1).toMatchObject({ from: classId, to: classId });
+    expect(paths(repairs)).toContain('elements.user');
+  });
+
+  it('no agrega id a las subclases', () => {
+    const raw = {
+      elements: {
+        person: { name: 'Person', position: { x: 0, y: 0 }, attributes: [{ name: 'name', type: 'String' }] },
+        student: { name: 'Student', position: { x: 0, y: 300 }, attributes: [{ name: 'code', type: 'String' }] },
+      },
+      relations: { r1: { from: 'student', to: 'person', type: 'extends' } },
+    };
+
+    const { content } = repairGeneratedContent(raw, empty(), 'replace');
+
+    expect(content.elements.person.attributes.map(attr => attr.name)).toEqual(['id', 'name']);
+    expect(content.elements.student.attributes.map(attr => attr.name)).toEqual(['code']);
+  });
+
+  it('responde con un objeto vacío si la respuesta no es un objeto', () => {
+    const { content, repairs } = repairGeneratedContent([1, 2], empty(), 'replace');
+    expect(content).toEqual({ elements: {}, relations: {} });
+    expect(paths(repairs)).toEqual(['']);
+  });
+});
+
+describe('reconcileDuplicateClasses', () => {
+  it('une las clases con el mismo nombre y redirige sus relaciones', () => {
+    const raw = {
+      elements: {
+        a: { name: 'OrderItem', position: { x: 0, y: 0 }, attributes: [{ name: 'id', type: 'Long' }, { name: 'quantity', type: 'Integer' }] },
+        b: { name: 'order_item', position: { x: 0, y: 0 }, attributes: [{ name: 'id', type: 'Long' }, { name: 'price', type: 'Double' }] },
+        order: { name: 'Order', position: { x: 300, y: 0 }, attributes: [{ name: 'id', type: 'Long' }] },
+      },
+      relations: {
+        r1: { from: 'a', to: 'order', type: 'ManyToOne' },
+        r2: { from: 'b', to: 'order', type: 'ManyToOne' },
+        r3: { from: 'a', to: 'b', type: 'ManyToOne' },
+      },
+    };
+
+    const { content, repairs } = reconcileDuplicateClasses(repairGeneratedContent(raw, empty(), 'replace'), empty(), 'replace');
+
+    expect(Object.keys(content.elements)).toEqual(['a', 'order']);
+    expect(content.elements.a.attributes.map(attr => attr.name)).toEqual(['id', 'quantity', 'price']);
+    expect(content.relations).toEqual({ r1: { from: 'a', to: 'order', type: 'ManyToOne' } });
+    expect(paths(repairs)).toEqual(expect.arrayContaining(['elements.b', 'relations.r2', 'relations.r3']));
+  });
+
+  it('en modo merge conserva el ID de la clase existente', () => {
+    const raw = {
+      elements: { u2: { name: 'user', position: { x: 0, y: 0 }, attributes: [{ name: 'id', type: 'Long' }, { name: 'email', type: 'String' }] } },
+    };
+
+    const { content } = reconcileDuplicateClasses(repairGeneratedContent(raw, existing(), 'merge'), existing(), 'merge');
+
+    expect(Object.keys(content.elements)).toEqual(['user']);
+    expect(content.elements.user.attributes.map(attr => attr.name)).toEqual(['id', 'name', 'email']);
+  });
+
+  it('sin duplicados devuelve el mismo resultado', () => {
+    const repaired = repairGeneratedContent({ elements: { a: { name: 'A', position: { x: 0, y: 0 } } } }, empty(), 'replace');
+    expect(reconcileDuplicateClasses(repaired, empty(), 'replace')).toBe(repaired);
+  });
+});
+
+describe('explicación de la respuesta', () => {
+  const response = 'Agregué la clase Pedido.\n```json\n{ "elements": {} }\n```';
+
+  it('explanationOf quita el JSON', () => {
+    expect(explanationOf(response)).toBe('Agregué la clase Pedido.');
+    expect(explanationOf('Sin cambios')).toBe('Sin cambios');
+  });
+
+  it('el filtro reenvía solo el texto previo al JSON aunque llegue por fragmentos', () => {
+    const sent: string[] = [];
+    const filter = createExplanationFilter(text => sent.push(text));
+
+    for (let i = 0; i < response.length; i += 7) filter.push(response.slice(i, i + 7));
+
+    expect(filter.end()).toBe(response);
+    expect(sent.join('')).toBe('Agregué la clase Pedido.');
+  });
+});
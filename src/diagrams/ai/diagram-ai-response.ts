@@ -0,0 +1,469 @@
+// src/diagrams/ai/diagram-ai-response.ts
+import { randomUUID } from 'crypto';
+import {
+  ATTRIBUTE_TYPES,
+  Attribute,
+  AttributeType,
+  ClassElement,
+  DiagramContent,
+  DiagramContentError,
+  RELATION_TYPES,
+  Relation,
+  RelationType,
+} from '../schema/diagram-content.schema';
+import { createClassId } from '../utils/diagram-copy';
+
+/**
+ * Corrección aplicada automáticamente a la respuesta de la IA; se informa al
+ * cliente junto con el diagrama generado.
+ */
+export interface DiagramRepair {
+  path: string;
+  message: string;
+}
+
+export interface RepairedContent {
+  content: Pick<DiagramContent, 'elements' | 'relations'>;
+  repairs: DiagramRepair[];
+}
+
+/**
+ * La respuesta no contiene un objeto JSON utilizable.
+ */
+export class AiResponseParseError extends Error { }
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPoint = (value: any) =>
+  isObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+// Nombres que suelen devolver los modelos (SQL, Java, TypeScript...) -> tipo del esquema
+const ATTRIBUTE_TYPE_ALIASES: Record<string, AttributeType> = {
+  str: 'String', string: 'String', text: 'String', varchar: 'String', char: 'String', uuid: 'String',
+  int: 'Integer', integer: 'Integer', smallint: 'Integer', short: 'Integer',
+  long: 'Long', bigint: 'Long', serial: 'Long', bigserial: 'Long', id: 'Long',
+  double: 'Double', number: 'Double', real: 'Double',
+  float: 'Float',
+  bool: 'Boolean', boolean: 'Boolean',
+  date: 'LocalDate', localdate: 'LocalDate',
+  datetime: 'LocalDateTime', timestamp: 'LocalDateTime', localdatetime: 'LocalDateTime', instant: 'LocalDateTime',
+  decimal: 'BigDecimal', bigdecimal: 'BigDecimal', numeric: 'BigDecimal', money: 'BigDecimal',
+};
+
+const RELATION_TYPE_ALIASES: Record<string, RelationType> = {
+  '1:n': 'OneToMany', '1-n': 'OneToMany', '1..*': 'OneToMany',
+  'n:1': 'ManyToOne', 'n-1': 'ManyToOne', '*..1': 'ManyToOne',
+  'n:n': 'ManyToMany', 'n:m': 'ManyToMany', 'n-n': 'ManyToMany', '*..*': 'ManyToMany',
+  '1:1': 'OneToOne', '1-1': 'OneToOne',
+  extends: 'Inheritance', generalization: 'Inheritance', inherits: 'Inheritance', herencia: 'Inheritance',
+  agregacion: 'Aggregation', composicion: 'Composition',
+};
+
+function normalizeAttributeType(type: unknown): AttributeType | null {
+  if (typeof type !== 'string') return null;
+  const trimmed = type.trim();
+  const exact = ATTRIBUTE_TYPES.find(t => t.toLowerCase() === trimmed.toLowerCase());
+  return exact ?? ATTRIBUTE_TYPE_ALIASES[trimmed.toLowerCase().replace(/\(.*\)$/, '')] ?? null;
+}
+
+function normalizeRelationType(type: unknown): RelationType | null {
+  if (typeof type !== 'string') return null;
+  const key = type.trim().toLowerCase().replace(/[\s_]/g, '');
+  return RELATION_TYPES.find(t => t.toLowerCase() === key) ?? RELATION_TYPE_ALIASES[key] ?? null;
+}
+
+/**
+ * Busca el primer objeto JSON del texto: admite bloques de código, texto antes
+ * y después del JSON y comas finales sobrantes.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const source = fenced && fenced[1].includes('{') ? fenced[1] : text;
+  const start = source.indexOf('{');
+  if (start < 0) throw new AiResponseParseError('The response does not contain a JSON object');
+
+  // Recorre hasta la llave que cierra el objeto, ignorando las que van dentro de strings
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let end = -1;
+  for (let i = start; i < source.length && end < 0; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      end = i;
+    }
+  }
+  if (end < 0) throw new AiResponseParseError('The JSON object in the response is incomplete');
+
+  const candidate = source.slice(start, end + 1);
+  try {
+    return JSON.parse(candidate) as unknown;
+  } catch {
+    try {
+      return JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1')) as unknown;
+    } catch (error) {
+      throw new AiResponseParseError(`The response is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Colecciones devueltas como arreglo (`[{ id, ... }]`) se pasan a objeto por ID
+function toCollection(value: unknown, name: 'elements' | 'relations', prefix: string, fix: (path: string, message: string) => void) {
+  if (isObject(value)) return value;
+  if (Array.isArray(value)) {
+    fix(name, `${name} was an array; converted to an object keyed by id`);
+    return Object.fromEntries(
+      value.map((item, index) => [isObject(item) && isNonEmptyString(item.id) ? item.id : `${prefix}_${index}`, item]),
+    );
+  }
+  if (value !== undefined) fix(name, `${name} was not an object; ignored`);
+  return {};
+}
+
+/**
+ * Una clase "nueva" de la IA que reutiliza el ID de una clase existente: el
+ * nombre es distinto y no comparte ningún atributo (aparte de `id`). Un simple
+ * renombrado conserva los atributos, así que no se considera colisión.
+ */
+function collides(current: ClassElement, incoming: Record<string, any>) {
+  if (!isNonEmptyString(incoming.name) || incoming.name.trim().toLowerCase() === current.name.toLowerCase()) return false;
+  if (!Array.isArray(incoming.attributes)) return false;
+  const names = new Set(current.attributes.map(attr => attr.name.toLowerCase()).filter(name => name !== 'id'));
+  return !incoming.attributes.some((attr: any) => isObject(attr) && typeof attr.name === 'string' && names.has(attr.name.toLowerCase()));
+}
+
+/**
+ * Corrige los errores habituales de la IA antes de validar: tipos desconocidos,
+ * atributos inválidos o repetidos, falta del atributo `id`, clases nuevas que
+ * chocan con IDs existentes y relaciones hacia clases inexistentes (se intenta
+ * resolverlas por nombre). En modo `merge` las clases devueltas se completan
+ * con los campos de la clase existente del mismo ID.
+ */
+export function repairGeneratedContent(raw: unknown, existing: DiagramContent, mode: 'replace' | 'merge'): RepairedContent {
+  const repairs: DiagramRepair[] = [];
+  const fix = (path: string, message: string) => repairs.push({ path, message });
+  const input = isObject(raw) ? raw : {};
+  if (!isObject(raw)) fix('', 'response was not an object');
+
+  const knownClasses = mode === 'merge' ? existing.elements : {};
+  const knownRelations = mode === 'merge' ? existing.relations : {};
+  const renamed = new Map<string, string>();
+  const elements: Record<string, ClassElement> = {};
+
+  // ---------- Clases ----------
+  const rawElements = toCollection(input.elements, 'elements', 'class_ai', fix);
+  Object.entries(rawElements).forEach(([id, element], index) => {
+    const path = `elements.${id}`;
+    if (!isObject(element)) {
+      fix(path, 'class is not an object; dropped');
+      return;
+    }
+
+    let classId = id;
+    let current: ClassElement | undefined = knownClasses[id];
+    if (current && collides(current, element)) {
+      classId = createClassId();
+      renamed.set(id, classId);
+      fix(path, `id collides with existing class "${current.name}"; assigned new id ${classId}`);
+      current = undefined;
+    }
+    const merged: Record<string, any> = { ...current, ...element };
+    delete merged.id;
+
+    if (!isNonEmptyString(merged.name)) {
+      merged.name = `Clase${index + 1}`;
+      fix(`${path}.name`, `missing name; set to "${merged.name}"`);
+    } else {
+      merged.name = merged.name.trim();
+    }
+
+    if (!isPoint(merged.position)) {
+      merged.position = { x: 100 + (index % 3) * 300, y: 100 + Math.floor(index / 3) * 250 };
+      fix(`${path}.position`, 'missing or invalid position; placed automatically');
+    }
+    if (merged.size !== undefined && !(isObject(merged.size) && merged.size.width > 0 && merged.size.height > 0)) {
+      delete merged.size;
+      fix(`${path}.size`, 'invalid size; removed');
+    }
+    if (merged.style !== undefined && !isObject(merged.style)) {
+      delete merged.style;
+      fix(`${path}.style`, 'invalid style; removed');
+    }
+
+    const rawAttributes: unknown[] = Array.isArray(merged.attributes) ? merged.attributes : [];
+    if (!Array.isArray(merged.attributes) && merged.attributes !== undefined) {
+      fix(`${path}.attributes`, 'attributes was not an array; reset');
+    }
+    const seenNames = new Set<string>();
+    const seenIds = new Set<string>();
+    merged.attributes = rawAttributes.flatMap((attr, attrIndex) => {
+      const attrPath = `${path}.attributes.${attrIndex}`;
+      if (!isObject(attr) || !isNonEmptyString(attr.name)) {
+        fix(attrPath, 'attribute without name; dropped');
+        return [];
+      }
+      const name = attr.name.trim();
+      if (seenNames.has(name.toLowerCase())) {
+        fix(attrPath, `duplicate attribute "${name}"; dropped`);
+        return [];
+      }
+      seenNames.add(name.toLowerCase());
+
+      let type = normalizeAttributeType(attr.type);
+      if (!type) {
+        type = 'String';
+        fix(`${attrPath}.type`, `unknown type ${JSON.stringify(attr.type)}; changed to String`);
+      } else if (type !== attr.type) {
+        fix(`${attrPath}.type`, `type "${attr.type}" changed to ${type}`);
+      }
+
+      // Conserva el ID del atributo existente con el mismo nombre
+      let attrId: string | undefined = isNonEmptyString(attr.id) ? attr.id : current?.attributes.find(a => a.name.toLowerCase() === name.toLowerCase())?.id;
+      if (attrId && seenIds.has(attrId)) attrId = undefined;
+      if (attrId) seenIds.add(attrId);
+
+      return [{ ...(attrId ? { id: attrId } : {}), name, type }];
+    });
+
+    elements[classId] = merged as ClassElement;
+  });
+
+  // ---------- Relaciones ----------
+  const allClasses: Record<string, ClassElement> = { ...knownClasses, ...elements };
+  const resolveEnd = (value: unknown): string | null => {
+    if (typeof value !== 'string') return null;
+    if (renamed.has(value)) return renamed.get(value)!;
+    if (allClasses[value]) return value;
+    // Por nombre, prefiriendo las clases de la respuesta sobre las existentes
+    const byName = [...Object.entries(elements), ...Object.entries(knownClasses)]
+      .find(([, element]) => element.name.toLowerCase() === value.trim().toLowerCase());
+    return byName ? byName[0] : null;
+  };
+
+  const relations: Record<string, Relation> = {};
+  const rawRelations = toCollection(input.relations, 'relations', 'rel_ai', fix);
+  for (const [id, relation] of Object.entries(rawRelations)) {
+    const path = `relations.${id}`;
+    if (!isObject(relation)) {
+      fix(path, 'relation is not an object; dropped');
+      continue;
+    }
+    const merged: Record<string, any> = { ...knownRelations[id], ...relation };
+    delete merged.id;
+
+    const from = resolveEnd(merged.from);
+    const to = resolveEnd(merged.to);
+    if (!from || !to) {
+      fix(path, `relation points to a non-existent class "${!from ? merged.from : merged.to}"; dropped`);
+      continue;
+    }
+    if (from !== merged.from) fix(`${path}.from`, `"${merged.from}" resolved to class ${from}`);
+    if (to !== merged.to) fix(`${path}.to`, `"${merged.to}" resolved to class ${to}`);
+
+    const type = normalizeRelationType(merged.type);
+    if (!type) {
+      fix(path, `unknown relation type ${JSON.stringify(merged.type)}; dropped`);
+      continue;
+    }
+    if (type !== merged.type) fix(`${path}.type`, `type "${merged.type}" changed to ${type}`);
+
+    if (merged.vertices !== undefined && !(Array.isArray(merged.vertices) && merged.vertices.every(isPoint))) {
+      delete merged.vertices;
+      fix(`${path}.vertices`, 'invalid vertices; removed');
+    }
+    if (merged.labels !== undefined) {
+      const rawLabels: unknown[] = Array.isArray(merged.labels) ? merged.labels : [];
+      const labels = rawLabels
+        .filter(isObject)
+        .filter(label => label.position === undefined || Number.isFinite(label.position) || isObject(label.position))
+        .map(label => (label.text === undefined || typeof label.text === 'string' ? label : { ...label, text: String(label.text) }));
+      if (!Array.isArray(merged.labels) || labels.length !== rawLabels.length || labels.some((label, i) => label !== rawLabels[i])) {
+        fix(`${path}.labels`, 'invalid labels fixed');
+      }
+      merged.labels = labels;
+    }
+    for (const field of ['attrs', 'router', 'connector']) {
+      if (merged[field] !== undefined && !isObject(merged[field])) {
+        delete merged[field];
+        fix(`${path}.${field}`, `invalid ${field}; removed`);
+      }
+    }
+
+    // Relación nueva que reutiliza el ID de otra existente entre clases distintas
+    let relationId = id;
+    const current = knownRelations[id];
+    if (current && isNonEmptyString(relation.from) && isNonEmptyString(relation.to) && (current.from !== from || current.to !== to)) {
+      relationId = randomUUID();
+      fix(path, `id collides with an existing relation; assigned new id ${relationId}`);
+    }
+    relations[relationId] = { ...merged, from, to, type } as Relation;
+  }
+
+  // ---------- Atributo id ----------
+  // Las subclases heredan la clave de su superclase
+  const subclasses = new Set(
+    [...Object.values(knownRelations), ...Object.values(relations)]
+      .filter(relation => relation.type === 'Inheritance')
+      .map(relation => relation.from),
+  );
+  for (const [classId, element] of Object.entries(elements)) {
+    if (subclasses.has(classId) || element.attributes.some(attr => attr.name.toLowerCase() === 'id')) continue;
+    element.attributes.unshift({ name: 'id', type: 'Long' } as Attribute);
+    fix(`elements.${classId}.attributes`, 'missing "id" attribute; added as Long');
+  }
+
+  return { content: { elements, relations }, repairs };
+}
+
+// "Order_Item", "order item" y "OrderItem" son la misma clase
+const classKey = (name: string) => name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Une las clases de la respuesta con el mismo nombre (p. ej. la misma tabla
+ * vista en varias páginas o imágenes) y, en modo `merge`, las que repiten una
+ * clase existente con otro ID: se conserva el ID existente o el primero, se
+ * juntan los atributos y se redirigen las relaciones, descartando las que
+ * quedan repetidas o unen la clase consigo misma por la fusión.
+ */
+export function reconcileDuplicateClasses(repaired: RepairedContent, existing: DiagramContent, mode: 'replace' | 'merge'): RepairedContent {
+  const repairs = [...repaired.repairs];
+  const elements = { ...repaired.content.elements };
+  const knownClasses = mode === 'merge' ? existing.elements : {};
+
+  // ID que se conserva por nombre: el de la clase existente, si la hay, o el primero de la respuesta
+  const keepers = new Map<string, string>();
+  for (const [classId, element] of Object.entries(knownClasses)) {
+    if (!keepers.has(classKey(element.name))) keepers.set(classKey(element.name), classId);
+  }
+  const replaced = new Map<string, string>();
+  for (const [classId, element] of Object.entries(elements)) {
+    const key = classKey(element.name);
+    const keeperId = keepers.get(key);
+    if (!keeperId) {
+      keepers.set(key, classId);
+    } else if (keeperId !== classId) {
+      replaced.set(classId, keeperId);
+    }
+  }
+  if (replaced.size === 0) return repaired;
+
+  for (const [classId, keeperId] of replaced) {
+    const duplicate = elements[classId];
+    const keeper = elements[keeperId] ?? knownClasses[keeperId];
+    const names = new Set(keeper.attributes.map(attr => attr.name.toLowerCase()));
+    const attrIds = new Set(keeper.attributes.map(attr => attr.id));
+    const added = duplicate.attributes
+      .filter(attr => !names.has(attr.name.toLowerCase()))
+      // Sin ID si choca con uno de la clase conservada; se asigna al normalizar
+      .map(({ id, ...attr }) => (attrIds.has(id) ? attr : { id, ...attr }) as Attribute);
+    elements[keeperId] = { ...keeper, attributes: [...keeper.attributes, ...added] };
+    delete elements[classId];
+    repairs.push({
+      path: `elements.${classId}`,
+      message: `duplicate of class "${keeper.name}" (${keeperId}); merged${added.length ? ` adding ${added.map(attr => attr.name).join(', ')}` : ''}`,
+    });
+  }
+
+  const knownRelations = mode === 'merge' ? Object.entries(existing.relations) : [];
+  const relations: Record<string, Relation> = {};
+  for (const [relationId, relation] of Object.entries(repaired.content.relations)) {
+    const from = replaced.get(relation.from) ?? relation.from;
+    const to = replaced.get(relation.to) ?? relation.to;
+    if (from === relation.from && to === relation.to) {
+      relations[relationId] = relation;
+      continue;
+    }
+
+    const path = `relations.${relationId}`;
+    if (from === to && relation.from !== relation.to) {
+      repairs.push({ path, message: 'relation between merged duplicates of the same class; dropped' });
+      continue;
+    }
+    const same = ([otherId, other]: [string, Relation]) =>
+      otherId !== relationId && other.from === from && other.to === to && other.type === relation.type;
+    if ([...Object.entries(repaired.content.relations), ...Object.entries(relations), ...knownRelations].some(same)) {
+      repairs.push({ path, message: 'duplicate relation after merging classes; dropped' });
+      continue;
+    }
+    relations[relationId] = { ...relation, from, to };
+  }
+
+  return { content: { elements, relations }, repairs };
+}
+
+/**
+ * Prompt para reintentar cuando la respuesta no se pudo reparar: repite la
+ * petición original con la respuesta anterior y los errores encontrados.
+ */
+export function buildRetryPrompt(originalPrompt: string, previousResponse: string, errors: DiagramContentError[]) {
+  return `${originalPrompt}
+
+  Tu respuesta anterior no es válida:
+  ${previousResponse.slice(0, 8000)}
+
+  Errores encontrados:
+  ${errors.slice(0, 50).map(error => `- ${error.path || '(raíz)'}: ${error.message}`).join('\n  ')}
+
+  Corrige los errores y responde SOLO con el JSON completo y válido.
+  `;
+}
+
+// Inicio del JSON en la respuesta: bloque de código o llave suelta al comienzo de una línea
+const JSON_START = /```|^\s*\{/m;
+
+/**
+ * Texto de la respuesta sin el JSON: la explicación que el asistente da en
+ * el chat. Si la respuesta no tiene JSON se devuelve completa.
+ */
+export function explanationOf(text: string) {
+  return text
+    .replace(/```[\s\S]*?(```|$)/g, '')
+    .replace(/^\s*\{[\s\S]*\}\s*$/m, '')
+    .trim();
+}
+
+/**
+ * Filtro para respuestas que llegan por fragmentos: reenvía a `onText` solo
+ * la explicación previa al JSON. Retiene los últimos caracteres por si un
+ * fragmento termina a mitad de un "```".
+ */
+export function createExplanationFilter(onText: (text: string) => void) {
+  let received = '';
+  let sent = 0;
+  let closed = false;
+
+  const flush = (visible: string) => {
+    if (visible.length > sent) onText(visible.slice(sent));
+    sent = Math.max(sent, visible.length);
+  };
+
+  return {
+    push(chunk: string) {
+      received += chunk;
+      if (closed) return;
+      const start = received.search(JSON_START);
+      if (start >= 0) {
+        closed = true;
+        flush(received.slice(0, start).trimEnd());
+      } else {
+        flush(received.slice(0, Math.max(0, received.length - 2)));
+      }
+    },
+    end() {
+      if (!closed) flush(received);
+      return received;
+    },
+  };
+}
@@ -0,0 +1,73 @@
+// src/diagrams/ai/diagram-ai-review.ts
+import { DIAGRAM_CONTENT_VERSION, DiagramContent } from '../schema/diagram-content.schema';
+import { normalizeDiagramContent, validateDiagramContent } from '../schema/diagram-content.validator';
+import { applyOperation } from '../utils/diagram-operations';
+import { DiagramFinding, DiagramPatch, FINDING_CATEGORIES, FINDING_SEVERITIES, FindingCategory, FindingSeverity } from '../utils/diagram-lint';
+import { AiResponseParseError, extractJson, repairGeneratedContent } from './diagram-ai-response';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+const stringList = (value: unknown) => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+
+/**
+ * Corrección propuesta por la IA, reparada como una respuesta en modo merge.
+ * Se descarta (undefined) si al aplicarla el diagrama no es válido.
+ */
+function parseFix(raw: unknown, content: DiagramContent): DiagramPatch | undefined {
+  if (!isObject(raw)) return undefined;
+  const elements = isObject(raw.elements) ? raw.elements : {};
+  const relations = isObject(raw.relations) ? raw.relations : {};
+
+  const present = (entries: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(entries).filter(([, value]) => value !== null));
+  const { content: repaired } = repairGeneratedContent(
+    { elements: present(elements), relations: present(relations) },
+    content,
+    'merge',
+  );
+
+  // Asigna ID a los atributos nuevos
+  const normalized = normalizeDiagramContent({ version: DIAGRAM_CONTENT_VERSION, ...repaired });
+  const fix: DiagramPatch = { elements: { ...normalized.elements }, relations: { ...normalized.relations } };
+  for (const [id, value] of Object.entries(elements)) if (value === null && content.elements[id]) fix.elements[id] = null;
+  for (const [id, value] of Object.entries(relations)) if (value === null && content.relations[id]) fix.relations[id] = null;
+  if (Object.keys(fix.elements).length + Object.keys(fix.relations).length === 0) return undefined;
+
+  try {
+    const result = applyOperation(content, { type: 'diagram:patch', ...fix });
+    return validateDiagramContent(result).length === 0 ? fix : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hallazgos de la respuesta de la IA (`{ "findings": [...] }`). Descarta los
+ * IDs de clases y relaciones que no existen y las correcciones inválidas;
+ * lanza `AiResponseParseError` si la respuesta no tiene el formato esperado.
+ */
+export function parseReviewFindings(text: string, content: DiagramContent): DiagramFinding[] {
+  const raw: unknown = extractJson(text);
+  const items: unknown = Array.isArray(raw) ? raw : isObject(raw) ? raw.findings : undefined;
+  if (!Array.isArray(items)) throw new AiResponseParseError('The response does not contain a "findings" array');
+
+  return items.filter(isObject).flatMap((item, index) => {
+    if (typeof item.message !== 'string' || !item.message.trim()) return [];
+    const category: FindingCategory = isOneOf(FINDING_CATEGORIES, item.category) ? item.category : 'other';
+    const severity: FindingSeverity = isOneOf(FINDING_SEVERITIES, item.severity) ? item.severity : 'warning';
+    return [{
+      id: `ai_${index + 1}`,
+      source: 'ai' as const,
+      category,
+      severity,
+      message: item.message.trim(),
+      classIds: stringList(item.classIds).filter(id => content.elements[id]),
+      relationIds: stringList(item.relationIds).filter(id => content.relations[id]),
+      fix: parseFix(item.fix, content),
+    }];
+  });
+}
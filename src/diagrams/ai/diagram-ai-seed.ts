@@ -0,0 +1,26 @@
+// src/diagrams/ai/diagram-ai-seed.ts
+import { SeedSuggestion } from '../utils/diagram-seed-data';
+import { AiResponseParseError, extractJson } from './diagram-ai-response';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// { "clave": [...] } conservando solo las entradas que son arreglos
+const arraysOf = (value: unknown): Record<string, unknown[]> =>
+  isObject(value) ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))) : {};
+
+/**
+ * Datos de ejemplo de la respuesta de la IA (`{ "records", "references",
+ * "links" }`). Solo comprueba la forma; los valores se validan contra el
+ * modelo en `buildSeedData`. Lanza `AiResponseParseError` si falta "records".
+ */
+export function parseSeedSuggestion(text: string): SeedSuggestion {
+  const raw: unknown = extractJson(text);
+  if (!isObject(raw) || !isObject(raw.records)) {
+    throw new AiResponseParseError('The response does not contain a "records" object');
+  }
+
+  const records: Record<string, Record<string, unknown>[]> = {};
+  for (const [classId, rows] of Object.entries(arraysOf(raw.records))) records[classId] = rows.map(row => (isObject(row) ? row : {}));
+  return { records, references: arraysOf(raw.references), links: arraysOf(raw.links) };
+}
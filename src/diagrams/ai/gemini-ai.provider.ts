@@ -0,0 +1,43 @@
+// src/diagrams/ai/gemini-ai.provider.ts
+import { Content, GoogleGenerativeAI } from '@google/generative-ai';
+import { DiagramAiProvider, DiagramAiRequest } from './diagram-ai-provider';
+
+export class GeminiAiProvider implements DiagramAiProvider {
+  readonly name = 'gemini';
+  private readonly client: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string,
+    private readonly model: string,
+  ) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(request: DiagramAiRequest) {
+    const model = this.client.getGenerativeModel({ model: this.model });
+    const result = await model.generateContent({ contents: this.toContents(request) }, { signal: request.signal });
+    return result.response.text();
+  }
+
+  async *stream(request: DiagramAiRequest) {
+    const model = this.client.getGenerativeModel({ model: this.model });
+    const result = await model.generateContentStream({ contents: this.toContents(request) }, { signal: request.signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
+    }
+  }
+
+  private toContents({ prompt, images = [], history = [] }: DiagramAiRequest): Content[] {
+    const imageParts = images.map(image => ({
+      inlineData: { data: image.data.toString('base64'), mimeType: image.mimeType },
+    }));
+    return [
+      ...history.map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+      { role: 'user', parts: [{ text: prompt }, ...imageParts] },
+    ];
+  }
+}
@@ -0,0 +1,97 @@
+// src/diagrams/ai/openai-compatible-ai.provider.ts
+import { BadGatewayException } from '@nestjs/common';
+import { DiagramAiProvider, DiagramAiRequest } from './diagram-ai-provider';
+
+// Campos que se leen de la respuesta completa y de cada fragmento del stream
+interface ChatCompletion {
+  choices?: { message?: { content?: unknown } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: unknown } }[];
+}
+
+/**
+ * Cualquier API compatible con `POST /chat/completions` de OpenAI
+ * (OpenAI, Azure, OpenRouter, Ollama, LM Studio, vLLM...).
+ */
+export class OpenAiCompatibleAiProvider implements DiagramAiProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    private readonly model: string,
+  ) { }
+
+  async generate(request: DiagramAiRequest) {
+    const response = await this.complete(request, false);
+    const data = (await response.json()) as ChatCompletion | null;
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') throw new BadGatewayException('AI provider returned an empty response');
+    return text;
+  }
+
+  /**
+   * Lee la respuesta en modo `stream` (server-sent events, una línea
+   * `data: {...}` por fragmento y `data: [DONE]` al final).
+   */
+  async *stream(request: DiagramAiRequest) {
+    const response = await this.complete(request, true);
+    if (!response.body) throw new BadGatewayException('AI provider returned an empty response');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const chunk = JSON.parse(payload) as ChatCompletionChunk | null;
+        const text = chunk?.choices?.[0]?.delta?.content;
+        if (typeof text === 'string' && text) yield text;
+      }
+    }
+  }
+
+  private async complete({ prompt, images = [], history = [], signal }: DiagramAiRequest, stream: boolean) {
+    const content = images.length === 0
+      ? prompt
+      : [
+          { type: 'text', text: prompt },
+          ...images.map((image, index) => {
+            const url = `data:${image.mimeType};base64,${image.data.toString('base64')}`;
+            // Los PDF van como archivo (no todos los servidores compatibles los admiten)
+            return image.mimeType === 'application/pdf'
+              ? { type: 'file', file: { filename: `document-${index + 1}.pdf`, file_data: url } }
+              : { type: 'image_url', image_url: { url } };
+          }),
+        ];
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [...history, { role: 'user', content }],
+        stream,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new BadGatewayException(`AI provider responded ${response.status}: ${(await response.text()).slice(0, 500)}`);
+    }
+    return response;
+  }
+}
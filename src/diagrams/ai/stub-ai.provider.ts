@@ -0,0 +1,111 @@
+// src/diagrams/ai/stub-ai.provider.ts
+import { readFileSync } from 'fs';
+import { setTimeout as sleep } from 'timers/promises';
+import { AttributeType, ClassElement, Relation } from '../schema/diagram-content.schema';
+import { DiagramAiProvider, DiagramAiRequest } from './diagram-ai-provider';
+
+// Clase tal como la describe el prompt de datos de ejemplo (ver buildSeedPrompt)
+interface SeedPromptClass {
+  classId: string;
+  attributes: { name: string; type: AttributeType }[];
+}
+
+const SEED_CLASSES = /Clases \(atributos sin el id[^\n]*\n([\s\S]*?)\n\s*\n\s*Claves foráneas/;
+
+// Valor fijo y reconocible para la fila `row` (1..n) según el tipo del atributo
+function stubValue(name: string, type: AttributeType, row: number) {
+  const day = String(((row - 1) % 28) + 1).padStart(2, '0');
+  switch (type) {
+    case 'Integer':
+    case 'Long':
+      return row;
+    case 'Double':
+    case 'Float':
+    case 'BigDecimal':
+      return row * 10.5;
+    case 'Boolean':
+      return row % 2 === 1;
+    case 'Date':
+    case 'LocalDate':
+      return `2024-01-${day}`;
+    case 'LocalDateTime':
+      return `2024-01-${day}T10:00:00`;
+    default:
+      return `${name} ${row}`;
+  }
+}
+
+/**
+ * Proveedor sin red para pruebas y desarrollo offline. Reconoce los prompts
+ * de revisión del modelo (responde sin hallazgos) y de datos de ejemplo
+ * (valores fijos por tipo para cada clase del prompt). Para el resto, si se
+ * indica un archivo de fixture devuelve siempre su contenido; si no, arma un
+ * diagrama determinista con una clase por cada palabra en mayúscula de la
+ * petición del usuario (la que va entre comillas en el prompt), encadenadas
+ * con OneToMany.
+ * `stream` entrega la misma respuesta en fragmentos de 40 caracteres, con
+ * `chunkDelayMs` de espera entre uno y otro para simular un modelo lento.
+ */
+export class StubAiProvider implements DiagramAiProvider {
+  readonly name = 'stub';
+
+  constructor(
+    private readonly fixturePath?: string,
+    private readonly chunkDelayMs = 0,
+  ) { }
+
+  generate({ prompt }: DiagramAiRequest) {
+    if (prompt.includes('"findings": [')) return Promise.resolve('```json\n{ "findings": [] }\n```');
+    const seedClasses = prompt.match(SEED_CLASSES)?.[1];
+    if (seedClasses) return Promise.resolve(this.seedResponse(prompt, seedClasses));
+    if (this.fixturePath) return Promise.resolve(readFileSync(this.fixturePath, 'utf8'));
+    return Promise.resolve(this.diagramResponse(prompt));
+  }
+
+  async *stream(request: DiagramAiRequest) {
+    const text = await this.generate(request);
+    for (let i = 0; i < text.length; i += 40) {
+      if (this.chunkDelayMs > 0) await sleep(this.chunkDelayMs, undefined, { signal: request.signal });
+      request.signal?.throwIfAborted();
+      yield text.slice(i, i + 40);
+    }
+  }
+
+  private diagramResponse(prompt: string) {
+    const request = prompt.match(/(?:basado en|Petición del usuario): "([\s\S]*?)"/)?.[1] ?? prompt;
+    const names = [...new Set(request.match(/\b[A-ZÁÉÍÓÚÑ][\wáéíóúñ]*/g) ?? [])].slice(0, 10);
+    if (names.length === 0) names.push('Entidad');
+
+    const elements: Record<string, ClassElement> = {};
+    const relations: Record<string, Relation> = {};
+    names.forEach((name, index) => {
+      elements[`class_stub_${index}`] = {
+        name,
+        position: { x: 100 + (index % 3) * 300, y: 100 + Math.floor(index / 3) * 250 },
+        attributes: [
+          { id: `attr_stub_${index}_0`, name: 'id', type: 'Long' },
+          { id: `attr_stub_${index}_1`, name: 'nombre', type: 'String' },
+        ],
+      };
+      if (index > 0) {
+        relations[`rel_stub_${index}`] = { from: `class_stub_${index - 1}`, to: `class_stub_${index}`, type: 'OneToMany' };
+      }
+    });
+
+    // Igual que los modelos reales: explicación breve y JSON dentro de un bloque de código
+    return `Diagrama con las clases ${names.join(', ')}.\n\n` +
+      '```json\n' + JSON.stringify({ elements, relations }, null, 2) + '\n```';
+  }
+
+  // Sin referencias ni enlaces: las claves foráneas las completa buildSeedData
+  private seedResponse(prompt: string, classesJson: string) {
+    const rows = Number(prompt.match(/Genera (\d+) registros/)?.[1]) || 1;
+    const classes = JSON.parse(classesJson) as SeedPromptClass[];
+    const records = Object.fromEntries(classes.map(({ classId, attributes }) => [
+      classId,
+      Array.from({ length: rows }, (_, index) =>
+        Object.fromEntries(attributes.map(attr => [attr.name, stubValue(attr.name, attr.type, index + 1)]))),
+    ]));
+    return '```json\n' + JSON.stringify({ records }, null, 2) + '\n```';
+  }
+}
@@ -1,36 +1,11 @@
 // src/diagrams/code-generation-flutter.service.ts
 import { Injectable } from '@nestjs/common';
 import * as JSZip from 'jszip';
-
-interface Attribute {
-  name: string;
-  type: string;
-}
-
-interface ClassElement {
-  name: string;
-  position: { x: number; y: number };
-  attributes: Attribute[];
-}
-
-interface Relation {
-  from: string;
-  to: string;
-  type: 'OneToMany' | 'ManyToOne' | 'ManyToMany' | 'OneToOne' | 'Inheritance' | 'Aggregation' | 'Composition';
-  vertices?: { x: number; y: number }[];
-  labels?: { position: number; text: string }[];
-  attrs?: Record<string, any>;
-  router?: Record<string, any>;
-  connector?: Record<string, any>;
-}
-
-interface DiagramContent {
-  elements: Record<string, ClassElement>;
-  relations: Record<string, Relation>;
-}
+import { Attribute, ClassElement, DiagramContent, RelationType } from './schema/diagram-content.schema';
+import { DiagramSeedData, foreignKeysOf, idAttributeOf, lineageOf, seedAttributesOf } from './utils/diagram-seed-data';
 
 interface RelationshipInfo {
-  type: 'OneToMany' | 'ManyToOne' | 'ManyToMany' | 'OneToOne' | 'Inheritance' | 'Aggregation' | 'Composition';
+  type: RelationType;
   targetClass: string;
   targetClassId: string;
   isOwner: boolean;
@@ -39,10 +14,15 @@ interface RelationshipInfo {
 @Injectable()
 export class CodeGenerationFlutterService {
   
+  /**
+   * Genera el proyecto Flutter en formato ZIP. Con `seed` incluye los datos de
+   * ejemplo como fixtures JSON en `assets/fixtures`.
+   */
   async generateFlutterProject(
     diagramContent: DiagramContent,
     projectName: string,
-    basePackage: string
+    basePackage: string,
+    seed?: DiagramSeedData
   ): Promise<Buffer> {
     const zip = new JSZip();
     
@@ -62,7 +42,7 @@ export class CodeGenerationFlutterService {
     
     // Archivos base
     projectFolder.file('.env', this.generateEnvFile());
-    projectFolder.file('pubspec.yaml', this.generatePubspecYaml(projectName));
+    projectFolder.file('pubspec.yaml', this.generatePubspecYaml(projectName, !!seed));
     projectFolder.file('.gitignore', this.generateGitignore());
     projectFolder.file('.metadata', this.generateMetadata());
     projectFolder.file('analysis_options.yaml', this.generateAnalysisOptions());
@@ -117,6 +97,15 @@ export class CodeGenerationFlutterService {
     
     // Generar pantalla principal
     screensFolder.file('home_screen.dart', this.generateHomeScreen(diagramContent));
+
+    // Datos de ejemplo: un JSON por clase con la forma de `toJson()` del modelo
+    if (seed) {
+      const fixturesFolder = projectFolder.folder('assets')!.folder('fixtures')!;
+      for (const [classId, classElement] of Object.entries(diagramContent.elements)) {
+        const fixture = this.generateFixture(classId, diagramContent, seed);
+        if (fixture) fixturesFolder.file(`${this.toSnakeCase(classElement.name)}.json`, fixture);
+      }
+    }
     
     const buffer = await zip.generateAsync({ 
       type: 'nodebuffer',
@@ -247,7 +236,7 @@ API_TIMEOUT=30000
 `;
   }
 
-  private generatePubspecYaml(projectName: string): string {
+  private generatePubspecYaml(projectName: string, withFixtures = false): string {
     return `name: ${this.toSnakeCase(projectName)}
 description: Flutter app generated from UML diagram
 publish_to: 'none'
@@ -280,7 +269,50 @@ flutter:
   uses-material-design: true
   assets:
     - .env
-`;
+${withFixtures ? '    - assets/fixtures/\n' : ''}`;
+  }
+
+  /**
+   * Fixture JSON de una clase: sus registros y los de sus subclases, con los
+   * mismos campos que el modelo (atributos, `<clase>Id` de las claves
+   * foráneas propias y `<clase>Ids` de las ManyToMany). Null si la clase no
+   * tiene datos.
+   */
+  private generateFixture(classId: string, diagramContent: DiagramContent, seed: DiagramSeedData): string | null {
+    const idAttr = idAttributeOf(diagramContent, classId);
+    if (!seed.records[classId]) return null;
+
+    const attributes = seedAttributesOf(diagramContent, classId);
+    const foreignKeys = foreignKeysOf(diagramContent).filter(fk => fk.holderId === classId);
+    const manyToMany = Object.entries(seed.links).filter(([relationId]) => {
+      const relation = diagramContent.relations[relationId];
+      return relation.from === classId || relation.to === classId;
+    });
+
+    // Una consulta sobre la clase también devuelve los registros de sus subclases
+    const records = Object.entries(seed.records)
+      .filter(([id]) => lineageOf(diagramContent, id).includes(classId))
+      .flatMap(([, classRecords]) => classRecords)
+      .sort((a, b) => a.id - b.id);
+
+    const items = records.map(record => {
+      const item: Record<string, unknown> = { [this.toCamelCase(idAttr.name)]: record.id };
+      for (const attr of attributes) item[this.toCamelCase(attr.name)] = record.values[attr.name] ?? null;
+      for (const fk of foreignKeys) {
+        item[`${this.toCamelCase(diagramContent.elements[fk.targetId].name)}Id`] = record.references[fk.relationId] ?? null;
+      }
+      for (const [relationId, pairs] of manyToMany) {
+        const relation = diagramContent.relations[relationId];
+        const isFrom = relation.from === classId;
+        const other = diagramContent.elements[isFrom ? relation.to : relation.from].name;
+        item[`${this.toCamelCase(other)}Ids`] = pairs
+          .filter(([from, to]) => (isFrom ? from : to) === record.id)
+          .map(([from, to]) => (isFrom ? to : from));
+      }
+      return item;
+    });
+
+    return JSON.stringify(items, null, 2) + '\n';
   }
 
   private generateGitignore(): string {
@@ -750,9 +782,9 @@ ${menuItems}
     const className = classElement.name;
     const inheritanceRel = relationships.find(r => r.type === 'Inheritance');
     const parentAttrs: Attribute[] = inheritanceRel
-      ? (diagramContent.elements[inheritanceRel.targetClassId]?.attributes || [])
+      ? diagramContent.elements[inheritanceRel.targetClassId].attributes
       : [];
-    const ownAttrs: Attribute[] = classElement.attributes || [];
+    const ownAttrs: Attribute[] = classElement.attributes;
     // Merge parent + own attributes (parent first), unique by name
     const seen = new Set<string>();
     const attributes: Attribute[] = [];
@@ -1,18 +1,20 @@
 import { Injectable } from '@nestjs/common';
 import * as JSZip from 'jszip';
-
-
+import { ClassElement, DiagramContent, Relation } from './schema/diagram-content.schema';
+import { DiagramSeedData, SeedValue, foreignKeysOf, idAttributeOf, lineageOf } from './utils/diagram-seed-data';
 
 @Injectable()
 export class CodeGenerationService {
   
   /**
-   * Genera un proyecto Spring Boot completo en formato ZIP
+   * Genera un proyecto Spring Boot completo en formato ZIP. Con `seed` incluye
+   * los datos de ejemplo en `data.sql`, que Spring ejecuta al arrancar.
    */
   async generateSpringBootProject(
     content: DiagramContent,
     projectName: string = 'generated-project',
-    basePackage: string = 'com.example.demo'
+    basePackage: string = 'com.example.demo',
+    seed?: DiagramSeedData
   ): Promise<Buffer> {
     const zip = new JSZip();
     
@@ -81,8 +83,12 @@ export class CodeGenerationService {
     // Generar application.properties
     srcMainResources.file(
       'application.properties',
-      this.generateApplicationProperties(projectName)
+      this.generateApplicationProperties(projectName, !!seed)
     );
+
+    if (seed) {
+      srcMainResources.file('data.sql', this.generateDataSql(content, seed));
+    }
     
     // Generar pom.xml
     zip.file(
@@ -146,7 +152,7 @@ export class CodeGenerationService {
 
     zip.file(
       `${projectName}/postman_collection.json`,
-      this.generatePostmanCollection(projectName, content.elements, content.relations)
+      this.generatePostmanCollection(projectName, content.elements, content.relations, seed)
     );
     
     return await zip.generateAsync({ type: 'nodebuffer' });
@@ -215,6 +221,15 @@ export class CodeGenerationService {
 
         attributes.push(`    private ${javaType} ${attr.name};`);
         }
+        // Sin atributo id se agrega uno: el resto del código usa getId()
+        if (!idAttr) {
+            attributes.unshift(
+              `    @Id`,
+              `    @GeneratedValue(strategy = GenerationType.IDENTITY)`,
+              `    @EqualsAndHashCode.Include`,
+              `    private Long id;`,
+            );
+        }
     } else {
         // Si es hija, solo copia atributos distintos de ID
         for (const attr of classData.attributes) {
@@ -425,7 +440,7 @@ ${relationFields.join('\n\n')}
     basePackage: string
   ): string {
     // Detectar herencia: si esta clase es el hijo, obtener el padre
-    const relations = this.currentContent?.relations || {};
+    const relations = this.currentContent.relations;
     let parentClass: string | undefined;
     for (const relation of Object.values(relations)) {
       if (relation.type === 'Inheritance') {
@@ -597,8 +612,8 @@ public interface ${className}Repository extends JpaRepository<${className}, Long
       el => el.name === className
     );
     
-    const attributes = classData?.attributes || [];
-    const relations = this.currentContent?.relations || {};
+    const attributes = classData?.attributes ?? [];
+    const relations = this.currentContent.relations;
 
     // Detectar herencia: si esta clase es el hijo (from), obtener el padre (to)
     let parentClass: string | undefined;
@@ -615,10 +630,10 @@ public interface ${className}Repository extends JpaRepository<${className}, Long
     const parentData = parentClass
       ? Object.values(this.currentContent.elements).find(el => el.name === parentClass)
       : undefined;
-    const parentAttributes = parentData?.attributes || [];
+    const parentAttributes = parentData?.attributes ?? [];
     // Evitar duplicados si el hijo redefine algún atributo del padre
-    const childAttrsNoId = (attributes || []).filter(attr => attr.name.toLowerCase() !== 'id');
-    const parentAttrsNoId = (parentAttributes || []).filter(attr => attr.name.toLowerCase() !== 'id');
+    const childAttrsNoId = attributes.filter(attr => attr.name.toLowerCase() !== 'id');
+    const parentAttrsNoId = parentAttributes.filter(attr => attr.name.toLowerCase() !== 'id');
     const combinedEntityAttrs = [
       ...childAttrsNoId,
       ...parentAttrsNoId.filter(pa => !childAttrsNoId.some(ca => ca.name === pa.name))
@@ -976,8 +991,14 @@ public class Application {
   /**
    * Genera application.properties
    */
-  private generateApplicationProperties(projectName: string): string {
+  private generateApplicationProperties(projectName: string, withSampleData = false): string {
     const dbName = projectName.replace(/-/g, '_');
+    // data.sql se ejecuta después de que Hibernate cree las tablas
+    const sampleData = withSampleData ? `
+# Sample data (data.sql)
+spring.sql.init.mode=always
+spring.jpa.defer-datasource-initialization=true
+` : '';
     
     return `# Server Configuration
 server.port=8080
@@ -997,9 +1018,91 @@ spring.jpa.properties.hibernate.dialect=org.hibernate.dialect.PostgreSQLDialect
 # Logging
 logging.level.org.hibernate.SQL=DEBUG
 logging.level.org.hibernate.type.descriptor.sql.BasicBinder=TRACE
-`;
+${sampleData}`;
   }
   
+  /**
+   * Genera data.sql con los datos de ejemplo: las filas de cada tabla (con
+   * ON CONFLICT para poder ejecutarlo en cada arranque), luego las claves
+   * foráneas y las tablas intermedias ManyToMany, y por último ajusta las
+   * secuencias de los IDs.
+   */
+  private generateDataSql(content: DiagramContent, seed: DiagramSeedData): string {
+    const tableOf = (classId: string) => `"${this.toSnakeCase(content.elements[classId].name)}"`;
+    // Clases sin `id`: la columna `id` que agrega generateEntity
+    const idColumnOf = (classId: string) => `"${this.toSnakeCase(idAttributeOf(content, classId).name)}"`;
+
+    // Un registro de una subclase tiene fila en la tabla de cada ancestro (herencia JOINED)
+    const rowsByClass = new Map<string, string[]>();
+    for (const [classId, records] of Object.entries(seed.records)) {
+      for (const record of records) {
+        for (const levelId of lineageOf(content, classId)) {
+          const values = content.elements[levelId].attributes
+            .filter(attr => attr.name.toLowerCase() !== 'id')
+            .map(attr => this.toSqlValue(record.values[attr.name] ?? null));
+          rowsByClass.set(levelId, [...(rowsByClass.get(levelId) ?? []), `(${[record.id, ...values].join(', ')})`]);
+        }
+      }
+    }
+
+    const tables = [...rowsByClass.entries()].sort(([a], [b]) => lineageOf(content, a).length - lineageOf(content, b).length);
+    const inserts = tables.map(([classId, rows]) => {
+      const columns = [
+        idColumnOf(classId),
+        ...content.elements[classId].attributes
+          .filter(attr => attr.name.toLowerCase() !== 'id')
+          .map(attr => `"${this.toSnakeCase(attr.name)}"`),
+      ];
+      return `INSERT INTO ${tableOf(classId)} (${columns.join(', ')}) VALUES
+  ${rows.join(',\n  ')}
+ON CONFLICT DO NOTHING;`;
+    });
+
+    // Solo se completan las claves vacías para no pisar cambios hechos desde la API
+    const records = Object.values(seed.records).flat();
+    const updates = foreignKeysOf(content).flatMap(fk => {
+      const column = `"${this.toSnakeCase(this.toLowerCamelCase(content.elements[fk.targetId].name))}_id"`;
+      return records
+        .filter(record => record.references[fk.relationId] != null)
+        .map(record => `UPDATE ${tableOf(fk.holderId)} SET ${column} = ${record.references[fk.relationId]} WHERE ${idColumnOf(fk.holderId)} = ${record.id} AND ${column} IS NULL;`);
+    });
+
+    // Misma tabla intermedia que genera el lado dueño (from) de la ManyToMany
+    const joinInserts = Object.entries(seed.links).filter(([, pairs]) => pairs.length > 0).map(([relationId, pairs]) => {
+      const relation = content.relations[relationId];
+      const sourceTable = this.toSnakeCase(this.toLowerCamelCase(content.elements[relation.from].name));
+      const targetTable = this.toSnakeCase(this.toLowerCamelCase(content.elements[relation.to].name));
+      const joinTableName = sourceTable < targetTable ? `${sourceTable}_${targetTable}` : `${targetTable}_${sourceTable}`;
+      return `INSERT INTO "${joinTableName}" ("${sourceTable}_id", "${targetTable}_id") VALUES
+  ${pairs.map(([from, to]) => `(${from}, ${to})`).join(',\n  ')}
+ON CONFLICT DO NOTHING;`;
+    });
+
+    // Los IDs se insertan explícitos: la identidad debe continuar desde el mayor
+    const sequences = tables
+      .filter(([classId]) => lineageOf(content, classId).length === 1)
+      .map(([classId]) => {
+        const idColumn = this.toSnakeCase(idAttributeOf(content, classId).name);
+        return `SELECT setval(pg_get_serial_sequence('${tableOf(classId)}', '${idColumn}'), (SELECT MAX("${idColumn}") FROM ${tableOf(classId)}));`;
+      });
+
+    return [
+      '-- Sample data generated from the UML diagram\n-- Runs on every startup (spring.sql.init.mode=always); existing rows are kept',
+      ...inserts,
+      ...(updates.length ? ['-- Foreign keys', updates.join('\n')] : []),
+      ...(joinInserts.length ? ['-- Many-to-many links', ...joinInserts] : []),
+      '-- Identity sequences',
+      sequences.join('\n'),
+    ].join('\n\n') + '\n';
+  }
+
+  private toSqlValue(value: SeedValue): string {
+    if (value === null) return 'NULL';
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
   /**
    * Genera pom.xml
    */
@@ -2155,7 +2258,12 @@ distributionUrl=https://repo.maven.apache.org/maven2/org/apache/maven/apache-mav
   /**
    * Genera colección de Postman con todos los endpoints
    */
-  private generatePostmanCollection(projectName: string, elements: Record<string, ClassElement>, relations: Record<string, Relation>): string {
+  private generatePostmanCollection(
+    projectName: string,
+    elements: Record<string, ClassElement>,
+    relations: Record<string, Relation>,
+    seed?: DiagramSeedData
+  ): string {
     const collectionName = `${projectName} API`;
     const baseUrl = 'http://localhost:8080/api';
     
@@ -2167,11 +2275,14 @@ distributionUrl=https://repo.maven.apache.org/maven2/org/apache/maven/apache-mav
       const endpoint = this.toKebabCase(className);
       const varName = this.toLowerCamelCase(className);
       
-      // Crear body de ejemplo basado en atributos
+      // Crear body de ejemplo basado en atributos (con datos de ejemplo, los del primer registro)
+      const sample = seed?.records[classId]?.[0];
+      const exampleOf = (type: string, name: string) =>
+        sample && name in sample.values ? sample.values[name] : this.getExampleValue(type, name);
       const exampleBody: any = {};
       for (const attr of classData.attributes) {
         if (attr.name.toLowerCase() !== 'id') {
-          exampleBody[attr.name] = this.getExampleValue(attr.type, attr.name);
+          exampleBody[attr.name] = exampleOf(attr.type, attr.name);
         }
       }
 
@@ -2192,7 +2303,7 @@ distributionUrl=https://repo.maven.apache.org/maven2/org/apache/maven/apache-mav
         if (parentElement) {
           for (const pAttr of parentElement.attributes) {
             if (pAttr.name.toLowerCase() !== 'id' && exampleBody[pAttr.name] === undefined) {
-              exampleBody[pAttr.name] = this.getExampleValue(pAttr.type, pAttr.name);
+              exampleBody[pAttr.name] = exampleOf(pAttr.type, pAttr.name);
             }
           }
         }
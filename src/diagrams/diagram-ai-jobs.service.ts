@@ -0,0 +1,169 @@
+// src/diagrams/diagram-ai-jobs.service.ts
+import { HttpException, HttpStatus, Injectable, NotFoundException, OnModuleDestroy, RequestTimeoutException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+
+// Tiempo que se conserva un trabajo terminado para consultar su estado
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+// Máximo de texto parcial que se guarda por trabajo
+const MAX_OUTPUT_LENGTH = 20_000;
+
+export type AiJobKind = 'prompt' | 'image' | 'chat' | 'review' | 'seed';
+export type AiJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed_out';
+
+export interface AiJob {
+  id: string;
+  kind: AiJobKind;
+  diagramId: number;
+  userId: number;
+  status: AiJobStatus;
+  // Texto recibido del modelo hasta el momento (truncado a MAX_OUTPUT_LENGTH)
+  output: string;
+  proposalId: number | null;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export class AiJobCancelledError extends Error {
+  constructor() {
+    super('AI generation was cancelled');
+  }
+}
+
+// Motivo de la cancelación: siempre un Error (AiJobCancelledError o RequestTimeoutException)
+const abortError = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new AiJobCancelledError();
+
+/**
+ * Generaciones de IA en curso. Viven en memoria: cada una tiene un ID para
+ * seguirla y cancelarla, un límite de tiempo (`AI_JOB_TIMEOUT_MS`, 2 minutos
+ * por defecto) y cada usuario puede tener a lo sumo `AI_MAX_CONCURRENT_JOBS`
+ * (2 por defecto) a la vez. Los trabajos terminados se olvidan a los 10 minutos.
+ */
+@Injectable()
+export class DiagramAiJobsService implements OnModuleDestroy {
+  private readonly jobs = new Map<string, AiJob>();
+  private readonly controllers = new Map<string, AbortController>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  get maxConcurrentJobs() {
+    const max = Number(process.env.AI_MAX_CONCURRENT_JOBS);
+    return Number.isInteger(max) && max > 0 ? max : 2;
+  }
+
+  get timeoutMs() {
+    const ms = Number(process.env.AI_JOB_TIMEOUT_MS);
+    return Number.isFinite(ms) && ms > 0 ? ms : 120_000;
+  }
+
+  onModuleDestroy() {
+    for (const controller of this.controllers.values()) controller.abort(new AiJobCancelledError());
+    for (const timer of this.timers.values()) clearTimeout(timer);
+  }
+
+  /**
+   * Registra un trabajo nuevo. Lanza 429 si el usuario ya alcanzó el límite
+   * de generaciones simultáneas.
+   */
+  start(kind: AiJobKind, diagramId: number, userId: number): AiJob {
+    const running = this.findAll(userId).filter(job => job.status === 'running');
+    if (running.length >= this.maxConcurrentJobs) {
+      throw new HttpException({
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: `You already have ${running.length} AI generations in progress; wait for one to finish or cancel it`,
+        jobs: running.map(job => job.id),
+      }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    const job: AiJob = {
+      id: randomUUID(),
+      kind,
+      diagramId,
+      userId,
+      status: 'running',
+      output: '',
+      proposalId: null,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, new AbortController());
+    return job;
+  }
+
+  /**
+   * Ejecuta la tarea del trabajo con su señal de cancelación. Si se cancela
+   * o vence el plazo rechaza de inmediato con `AiJobCancelledError` o
+   * `RequestTimeoutException`, aunque la tarea no haya atendido la señal.
+   */
+  async run<T>(job: AiJob, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = this.controllers.get(job.id)!;
+    const { signal } = controller;
+    const timeout = setTimeout(
+      () => controller.abort(new RequestTimeoutException(`AI generation timed out after ${this.timeoutMs / 1000}s`)),
+      this.timeoutMs,
+    );
+    const aborted = new Promise<never>((_, reject) => {
+      if (signal.aborted) reject(abortError(signal));
+      signal.addEventListener('abort', () => reject(abortError(signal)), { once: true });
+    });
+
+    try {
+      const result = await Promise.race([task(signal), aborted]);
+      this.finish(job, 'succeeded');
+      return result;
+    } catch (error) {
+      const reason: unknown = signal.aborted ? abortError(signal) : error;
+      this.finish(
+        job,
+        reason instanceof AiJobCancelledError ? 'cancelled' : reason instanceof RequestTimeoutException ? 'timed_out' : 'failed',
+        (reason as Error)?.message ?? String(reason),
+      );
+      throw reason;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Acumula el texto recibido del modelo
+  append(job: AiJob, text: string) {
+    if (job.output.length < MAX_OUTPUT_LENGTH) job.output = (job.output + text).slice(0, MAX_OUTPUT_LENGTH);
+  }
+
+  /**
+   * Cancela un trabajo propio en curso. Devuelve el trabajo (sin cambios si
+   * ya había terminado).
+   */
+  cancel(jobId: string, userId: number) {
+    const job = this.findOne(jobId, userId);
+    if (job.status === 'running') this.controllers.get(job.id)?.abort(new AiJobCancelledError());
+    return job;
+  }
+
+  findAll(userId: number, diagramId?: number) {
+    return [...this.jobs.values()]
+      .filter(job => job.userId === userId && (diagramId === undefined || job.diagramId === diagramId))
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  findOne(jobId: string, userId: number) {
+    const job = this.jobs.get(jobId);
+    if (!job || job.userId !== userId) throw new NotFoundException('AI job not found');
+    return job;
+  }
+
+  private finish(job: AiJob, status: AiJobStatus, error: string | null = null) {
+    job.status = status;
+    job.error = error;
+    job.finishedAt = new Date();
+    this.controllers.delete(job.id);
+
+    const timer = setTimeout(() => {
+      this.jobs.delete(job.id);
+      this.timers.delete(job.id);
+    }, FINISHED_JOB_TTL_MS);
+    timer.unref();
+    this.timers.set(job.id, timer);
+  }
+}
@@ -0,0 +1,64 @@
+// src/diagrams/diagram-chat.controller.ts
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post } from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { Auth } from 'src/auth/decorator/auth.decorators';
+import { Role } from 'src/common/enums/role.enum';
+import { ActiveUser } from 'src/common/decorator/active-user.decorator';
+import { ActiveUserInterface } from 'src/common/interfaces/active-user.interface';
+import { DiagramChatService } from './diagram-chat.service';
+import { CreateChatSessionDto } from './dto/create-chat-session.dto';
+import { SendChatMessageDto } from './dto/send-chat-message.dto';
+
+/**
+ * Sesiones del asistente de modelado. Para recibir la explicación a medida
+ * que se genera, enviar los mensajes por el socket (`chat:message`).
+ */
+@ApiBearerAuth()
+@Controller('diagrams/:id/chat')
+@Auth(Role.USER)
+export class DiagramChatController {
+  constructor(private readonly chatService: DiagramChatService) { }
+
+  @Get()
+  findSessions(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.chatService.findSessions(id, { id: user.sub } as any);
+  }
+
+  @Post()
+  createSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createChatSessionDto: CreateChatSessionDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.chatService.createSession(id, createChatSessionDto, { id: user.sub } as any);
+  }
+
+  @Get(':sessionId')
+  findSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.chatService.findSession(id, sessionId, { id: user.sub } as any);
+  }
+
+  @Post(':sessionId/messages')
+  sendMessage(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @Body() sendChatMessageDto: SendChatMessageDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.chatService.sendMessage(id, sessionId, sendChatMessageDto, { id: user.sub } as any);
+  }
+
+  @Delete(':sessionId')
+  async removeSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    await this.chatService.removeSession(id, sessionId, { id: user.sub } as any);
+    return { deleted: true };
+  }
+}
@@ -0,0 +1,126 @@
+// src/diagrams/diagram-chat.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { AiGenerationOptions, DiagramsService } from './diagrams.service';
+import { DiagramChatSession } from './entities/diagram-chat-session.entity';
+import { DiagramChatMessage } from './entities/diagram-chat-message.entity';
+import { CreateChatSessionDto } from './dto/create-chat-session.dto';
+import { SendChatMessageDto } from './dto/send-chat-message.dto';
+
+// Mensajes previos que se envían al modelo en cada turno
+const CHAT_HISTORY_LIMIT = 20;
+
+/**
+ * Conversaciones con el asistente de modelado. Guarda los mensajes de cada
+ * sesión y los envía como contexto en los turnos siguientes; los cambios que
+ * propone el asistente quedan como propuestas (ver DiagramsService).
+ */
+@Injectable()
+export class DiagramChatService {
+  constructor(
+    @InjectRepository(DiagramChatSession)
+    private readonly sessionsRepository: Repository<DiagramChatSession>,
+    @InjectRepository(DiagramChatMessage)
+    private readonly messagesRepository: Repository<DiagramChatMessage>,
+    private readonly diagramsService: DiagramsService,
+  ) { }
+
+  async findSessions(diagramId: number, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'editor');
+    return this.sessionsRepository.find({
+      where: { diagram: { id: diagramId }, user: { id: user.id } },
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  async createSession(diagramId: number, dto: CreateChatSessionDto, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'editor');
+    return this.sessionsRepository.save(
+      this.sessionsRepository.create({
+        diagram: { id: diagramId },
+        user: { id: user.id },
+        title: dto.title ?? 'Nueva conversación',
+      }),
+    );
+  }
+
+  /**
+   * Sesión con sus mensajes en orden cronológico.
+   */
+  async findSession(diagramId: number, sessionId: number, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'editor');
+    const session = await this.findOwn(diagramId, sessionId, user);
+    session.messages = await this.messagesRepository.find({
+      where: { session: { id: sessionId } },
+      relations: ['proposal'],
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    return session;
+  }
+
+  async removeSession(diagramId: number, sessionId: number, user: User) {
+    const session = await this.findOwn(diagramId, sessionId, user);
+    await this.sessionsRepository.delete(session.id);
+    return session;
+  }
+
+  /**
+   * Envía un mensaje al asistente. La explicación se entrega a `options.onText`
+   * por fragmentos mientras se genera; el mensaje del usuario se guarda aunque
+   * la generación falle o se cancele.
+   */
+  async sendMessage(
+    diagramId: number,
+    sessionId: number,
+    dto: SendChatMessageDto,
+    user: User,
+    options: AiGenerationOptions = {},
+  ) {
+    await this.diagramsService.findOne(diagramId, user, 'editor');
+    const session = await this.findOwn(diagramId, sessionId, user);
+
+    const previous = await this.messagesRepository.find({
+      where: { session: { id: session.id } },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: CHAT_HISTORY_LIMIT,
+    });
+    const history = previous.reverse().map(({ role, content }) => ({ role, content }));
+
+    await this.messagesRepository.save(
+      this.messagesRepository.create({ session: { id: session.id }, role: 'user', content: dto.message }),
+    );
+
+    const result = await this.diagramsService.generateDiagramFromChat(
+      diagramId,
+      dto.message,
+      history,
+      user,
+      dto.mode,
+      options,
+    );
+
+    const reply = await this.messagesRepository.save(
+      this.messagesRepository.create({
+        session: { id: session.id },
+        role: 'assistant',
+        content: result.explanation,
+        proposal: result.proposal ? { id: result.proposal.id } : null,
+      }),
+    );
+    await this.sessionsRepository.update(session.id, { updatedAt: new Date() });
+
+    return { session, message: reply, ...result };
+  }
+
+  private async findOwn(diagramId: number, sessionId: number, user: User) {
+    const session = await this.sessionsRepository.findOneBy({
+      id: sessionId,
+      diagram: { id: diagramId },
+      user: { id: user.id },
+    });
+    if (!session) throw new NotFoundException('Chat session not found');
+    return session;
+  }
+}
@@ -0,0 +1,108 @@
+// src/diagrams/diagram-comments.controller.ts
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Patch, Post, Query } from '@nestjs/common';
+import { ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Auth } from 'src/auth/decorator/auth.decorators';
+import { Role } from 'src/common/enums/role.enum';
+import { ActiveUser } from 'src/common/decorator/active-user.decorator';
+import { ActiveUserInterface } from 'src/common/interfaces/active-user.interface';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramCommentsService } from './diagram-comments.service';
+import { DiagramGateway } from './diagram.gateway';
+import { DiagramComment } from './entities/diagram-comment.entity';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+
+@ApiBearerAuth()
+@Controller('diagrams/:id/comments')
+@Auth(Role.USER)
+export class DiagramCommentsController {
+  constructor(
+    private readonly commentsService: DiagramCommentsService,
+    private readonly diagramGateway: DiagramGateway,
+  ) { }
+
+  @Get()
+  @ApiQuery({ name: 'anchorId', required: false })
+  @ApiQuery({ name: 'resolved', required: false, type: Boolean })
+  findAll(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser() user: ActiveUserInterface,
+    @Query('anchorId') anchorId?: string,
+    @Query('resolved') resolved?: string,
+  ) {
+    return this.commentsService.findAll(id, { id: user.sub } as any, {
+      anchorId,
+      resolved: resolved === undefined ? undefined : resolved === 'true',
+    });
+  }
+
+  @Post()
+  async create(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createCommentDto: CreateCommentDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const { comment, mentioned } = await this.commentsService.create(id, createCommentDto, { id: user.sub } as any);
+    this.diagramGateway.emitToDiagram(id, 'comment:created', { diagramId: id, comment });
+    this.notifyMentions(id, comment, mentioned, user.sub);
+    return comment;
+  }
+
+  @Patch(':commentId')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Body() updateCommentDto: UpdateCommentDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const { comment, mentioned } = await this.commentsService.update(id, commentId, updateCommentDto, { id: user.sub } as any);
+    this.diagramGateway.emitToDiagram(id, 'comment:updated', { diagramId: id, comment });
+    this.notifyMentions(id, comment, mentioned, user.sub);
+    return comment;
+  }
+
+  @Post(':commentId/resolve')
+  async resolve(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const comment = await this.commentsService.setResolved(id, commentId, true, { id: user.sub } as any);
+    this.diagramGateway.emitToDiagram(id, 'comment:resolved', { diagramId: id, comment });
+    return comment;
+  }
+
+  @Post(':commentId/reopen')
+  async reopen(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const comment = await this.commentsService.setResolved(id, commentId, false, { id: user.sub } as any);
+    this.diagramGateway.emitToDiagram(id, 'comment:reopened', { diagramId: id, comment });
+    return comment;
+  }
+
+  @Delete(':commentId')
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const comment = await this.commentsService.remove(id, commentId, { id: user.sub } as any);
+    this.diagramGateway.emitToDiagram(id, 'comment:deleted', {
+      diagramId: id,
+      commentId,
+      parentId: comment.parent?.id ?? null,
+    });
+    return { deleted: true };
+  }
+
+  // Aviso personal a cada mencionado (aunque no tenga el diagrama abierto)
+  private notifyMentions(diagramId: number, comment: DiagramComment, mentioned: User[], authorId: number) {
+    for (const mentionedUser of mentioned) {
+      if (mentionedUser.id === authorId) continue;
+      this.diagramGateway.emitToUser(mentionedUser.id, 'comment:mention', { diagramId, comment });
+    }
+  }
+}
@@ -0,0 +1,176 @@
+// src/diagrams/diagram-comments.service.ts
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './entities/diagram.entity';
+import { DiagramComment } from './entities/diagram-comment.entity';
+import { DiagramsService } from './diagrams.service';
+import { CreateCommentDto } from './dto/create-comment.dto';
+import { UpdateCommentDto } from './dto/update-comment.dto';
+import { hasRole } from './utils/diagram-permissions';
+
+// Menciones escritas como `@correo@dominio.com`
+const MENTION_PATTERN = /@([^\s@]+@[^\s@]+\.[^\s@,;:!?()]+)/g;
+
+const COMMENT_RELATIONS = ['author', 'mentions', 'resolvedBy', 'parent'];
+
+@Injectable()
+export class DiagramCommentsService {
+  constructor(
+    @InjectRepository(DiagramComment)
+    private readonly commentsRepository: Repository<DiagramComment>,
+    private readonly diagramsService: DiagramsService,
+  ) { }
+
+  /**
+   * Hilos del diagrama (comentarios raíz con sus respuestas en orden cronológico).
+   */
+  async findAll(diagramId: number, user: User, filters: { anchorId?: string; resolved?: boolean } = {}) {
+    await this.diagramsService.findOne(diagramId, user);
+
+    const comments = await this.commentsRepository.find({
+      where: { diagram: { id: diagramId } },
+      relations: COMMENT_RELATIONS,
+      order: { createdAt: 'ASC' },
+    });
+
+    const threads = comments
+      .filter(comment => !comment.parent)
+      .filter(comment => filters.anchorId === undefined || comment.anchorId === filters.anchorId)
+      .filter(comment => filters.resolved === undefined || comment.resolved === filters.resolved);
+
+    return threads.map(thread => ({
+      ...thread,
+      replies: comments.filter(comment => comment.parent?.id === thread.id),
+    }));
+  }
+
+  /**
+   * Crea un comentario o una respuesta. Devuelve también los usuarios
+   * mencionados para que se les notifique.
+   */
+  async create(diagramId: number, dto: CreateCommentDto, user: User) {
+    const diagram = await this.diagramsService.findOne(diagramId, user, 'commenter');
+    const comment = this.commentsRepository.create({
+      diagram: { id: diagramId },
+      author: { id: user.id },
+      body: dto.body,
+      mentions: this.resolveMentions(diagram, dto.body, dto.mentions),
+    });
+
+    if (dto.parentId !== undefined) {
+      const parent = await this.findComment(diagramId, dto.parentId);
+      // Responder a una respuesta agrega al mismo hilo
+      const root = parent.parent ? await this.findComment(diagramId, parent.parent.id) : parent;
+      Object.assign(comment, {
+        parent: root,
+        anchorType: root.anchorType,
+        anchorId: root.anchorId,
+        position: root.position,
+      });
+    } else {
+      Object.assign(comment, this.resolveAnchor(diagram, dto));
+    }
+
+    const saved = await this.commentsRepository.save(comment);
+    return { comment: await this.findComment(diagramId, saved.id), mentioned: saved.mentions };
+  }
+
+  /**
+   * Solo el autor puede editar su comentario. Se notifica únicamente a los
+   * usuarios mencionados por primera vez.
+   */
+  async update(diagramId: number, commentId: number, dto: UpdateCommentDto, user: User) {
+    const diagram = await this.diagramsService.findOne(diagramId, user, 'commenter');
+    const comment = await this.findComment(diagramId, commentId);
+    if (comment.author?.id !== user.id) throw new ForbiddenException('Only the author can edit this comment');
+
+    const previous = new Set(comment.mentions.map(mentioned => mentioned.id));
+    comment.body = dto.body;
+    comment.mentions = this.resolveMentions(diagram, dto.body, dto.mentions);
+    await this.commentsRepository.save(comment);
+
+    return {
+      comment: await this.findComment(diagramId, commentId),
+      mentioned: comment.mentions.filter(mentioned => !previous.has(mentioned.id)),
+    };
+  }
+
+  /**
+   * Marca un hilo como resuelto o lo reabre. Las respuestas siguen el estado de su hilo.
+   */
+  async setResolved(diagramId: number, commentId: number, resolved: boolean, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'commenter');
+    const comment = await this.findComment(diagramId, commentId);
+    if (comment.parent) throw new BadRequestException('Only the first comment of a thread can be resolved');
+
+    await this.commentsRepository.update(comment.id, {
+      resolved,
+      resolvedBy: resolved ? { id: user.id } : null,
+      resolvedAt: resolved ? new Date() : null,
+    });
+    return this.findComment(diagramId, commentId);
+  }
+
+  /**
+   * Lo puede eliminar su autor o quien administra el diagrama (propietario o
+   * co_owner); eliminar la raíz elimina todo el hilo.
+   */
+  async remove(diagramId: number, commentId: number, user: User) {
+    const { role } = await this.diagramsService.findAccess(diagramId, user, 'commenter');
+    const comment = await this.findComment(diagramId, commentId);
+    if (comment.author?.id !== user.id && !hasRole(role, 'co_owner')) {
+      throw new ForbiddenException('Only the author or a diagram owner can delete this comment');
+    }
+
+    await this.commentsRepository.delete(comment.id);
+    return comment;
+  }
+
+  private async findComment(diagramId: number, commentId: number) {
+    const comment = await this.commentsRepository.findOne({
+      where: { id: commentId, diagram: { id: diagramId } },
+      relations: COMMENT_RELATIONS,
+    });
+    if (!comment) throw new NotFoundException('Comment not found');
+    return comment;
+  }
+
+  private resolveAnchor(diagram: Diagram, dto: CreateCommentDto): Pick<DiagramComment, 'anchorType' | 'anchorId' | 'position'> {
+    const anchorType = dto.anchorType ?? (dto.anchorId ? 'class' : 'canvas');
+
+    if (anchorType === 'canvas') {
+      if (!Number.isFinite(dto.position?.x) || !Number.isFinite(dto.position?.y)) {
+        throw new BadRequestException('Canvas comments need a position with x and y');
+      }
+      return { anchorType, anchorId: null, position: { x: dto.position!.x, y: dto.position!.y } };
+    }
+
+    const collection = anchorType === 'class' ? diagram.content.elements : diagram.content.relations;
+    if (!dto.anchorId || !collection[dto.anchorId]) {
+      throw new NotFoundException(anchorType === 'class' ? 'Class not found in diagram' : 'Relation not found in diagram');
+    }
+    return { anchorType, anchorId: dto.anchorId, position: dto.position ?? null };
+  }
+
+  /**
+   * Menciones explícitas (IDs) y las `@email` del texto. Solo se puede mencionar
+   * a usuarios con acceso al diagrama.
+   */
+  private resolveMentions(diagram: Diagram, body: string, explicit: number[] = []): User[] {
+    const members = [
+      diagram.owner,
+      ...diagram.shares.map(share => share.user),
+      ...(diagram.workspace?.members ?? []).map(member => member.user),
+    ].filter((member, index, all) => all.findIndex(other => other.id === member.id) === index);
+
+    const unknown = explicit.filter(id => !members.some(member => member.id === id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Users ${unknown.join(', ')} do not have access to this diagram`);
+    }
+
+    const emails = [...body.matchAll(MENTION_PATTERN)].map(match => match[1].replace(/\.+$/, '').toLowerCase());
+    return members.filter(member => explicit.includes(member.id) || emails.includes(member.email.toLowerCase()));
+  }
+}
@@ -0,0 +1,74 @@
+// src/diagrams/diagram-content-migration.service.ts
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Diagram } from './entities/diagram.entity';
+import { DiagramVersion } from './entities/diagram-version.entity';
+import { DIAGRAM_CONTENT_VERSION } from './schema/diagram-content.schema';
+import { normalizeDiagramContent } from './schema/diagram-content.validator';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Al iniciar la aplicación migra a la versión actual del esquema el contenido
+ * persistido de diagramas y snapshots de versiones. La lectura ya normaliza el
+ * contenido, pero migrarlo en la base evita que los IDs de atributos asignados
+ * al vuelo cambien entre lecturas.
+ */
+@Injectable()
+export class DiagramContentMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(DiagramContentMigrationService.name);
+
+  constructor(
+    @InjectRepository(Diagram)
+    private readonly diagramRepository: Repository<Diagram>,
+    @InjectRepository(DiagramVersion)
+    private readonly versionsRepository: Repository<DiagramVersion>,
+  ) { }
+
+  async onApplicationBootstrap() {
+    try {
+      const diagrams = await this.migrate(this.diagramRepository, 'diagram');
+      const versions = await this.migrate(this.versionsRepository, 'version');
+      if (diagrams + versions > 0) {
+        this.logger.log(`Contenido migrado a la versión ${DIAGRAM_CONTENT_VERSION}: ${diagrams} diagramas, ${versions} versiones`);
+      }
+    } catch (error) {
+      // La aplicación arranca igual (la lectura normaliza el contenido), pero queda a medio migrar
+      this.logger.error('No se pudo migrar el contenido de los diagramas', (error as Error).stack);
+    }
+  }
+
+  /**
+   * Recorre por lotes (ordenados por ID) las filas cuyo contenido tiene una
+   * versión anterior a la actual y guarda el contenido normalizado.
+   */
+  private async migrate(repository: Repository<Diagram | DiagramVersion>, alias: string) {
+    let lastId = 0;
+    let migrated = 0;
+
+    while (true) {
+      const rows = await repository
+        .createQueryBuilder(alias)
+        .select([`${alias}.id`, `${alias}.content`])
+        .where(`${alias}.id > :lastId`, { lastId })
+        .andWhere(
+          `(${alias}.content->>'version' IS NULL OR (${alias}.content->>'version')::int < :version)`,
+          { version: DIAGRAM_CONTENT_VERSION },
+        )
+        .orderBy(`${alias}.id`, 'ASC')
+        .take(BATCH_SIZE)
+        .getMany();
+
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        await repository.update(row.id, { content: normalizeDiagramContent(row.content) });
+      }
+      migrated += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+
+    return migrated;
+  }
+}
@@ -0,0 +1,42 @@
+// src/diagrams/diagram-folders.controller.ts
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Patch, Post } from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { Auth } from 'src/auth/decorator/auth.decorators';
+import { Role } from 'src/common/enums/role.enum';
+import { ActiveUser } from 'src/common/decorator/active-user.decorator';
+import { ActiveUserInterface } from 'src/common/interfaces/active-user.interface';
+import { DiagramFoldersService } from './diagram-folders.service';
+import { CreateFolderDto } from './dto/create-folder.dto';
+import { UpdateFolderDto } from './dto/update-folder.dto';
+
+@ApiBearerAuth()
+@Controller('folders')
+@Auth(Role.USER)
+export class DiagramFoldersController {
+  constructor(private readonly foldersService: DiagramFoldersService) { }
+
+  @Get()
+  findAll(@ActiveUser() user: ActiveUserInterface) {
+    return this.foldersService.findAll({ id: user.sub } as any);
+  }
+
+  @Post()
+  create(@Body() createFolderDto: CreateFolderDto, @ActiveUser() user: ActiveUserInterface) {
+    return this.foldersService.create(createFolderDto, { id: user.sub } as any);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateFolderDto: UpdateFolderDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.foldersService.update(id, updateFolderDto, { id: user.sub } as any);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    await this.foldersService.remove(id, { id: user.sub } as any);
+    return { deleted: true };
+  }
+}
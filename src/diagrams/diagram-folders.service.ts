@@ -0,0 +1,101 @@
+// src/diagrams/diagram-folders.service.ts
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramFolder } from './entities/diagram-folder.entity';
+import { Diagram } from './entities/diagram.entity';
+import { CreateFolderDto } from './dto/create-folder.dto';
+import { UpdateFolderDto } from './dto/update-folder.dto';
+
+@Injectable()
+export class DiagramFoldersService {
+  constructor(
+    @InjectRepository(DiagramFolder)
+    private readonly foldersRepository: Repository<DiagramFolder>,
+    @InjectRepository(Diagram)
+    private readonly diagramsRepository: Repository<Diagram>,
+  ) { }
+
+  /**
+   * Carpetas del usuario en una lista plana (`parentId` arma el árbol) con la
+   * cantidad de diagramas que contiene cada una.
+   */
+  async findAll(user: User) {
+    const folders = await this.foldersRepository.find({
+      where: { owner: { id: user.id } },
+      order: { name: 'ASC' },
+    });
+    const counts: { folderId: number; count: string }[] = await this.diagramsRepository
+      .createQueryBuilder('diagram')
+      .select('diagram."folderId"', 'folderId')
+      .addSelect('COUNT(*)', 'count')
+      .where('diagram."ownerId" = :userId', { userId: user.id })
+      .andWhere('diagram."folderId" IS NOT NULL')
+      .groupBy('diagram."folderId"')
+      .getRawMany();
+    return folders.map(folder => ({
+      ...folder,
+      diagramCount: Number(counts.find(c => c.folderId === folder.id)?.count ?? 0),
+    }));
+  }
+
+  async findOne(id: number, user: User) {
+    const folder = await this.foldersRepository.findOneBy({ id, owner: { id: user.id } });
+    if (!folder) throw new NotFoundException('Folder not found');
+    return folder;
+  }
+
+  async create(createFolderDto: CreateFolderDto, user: User) {
+    if (createFolderDto.parentId != null) await this.findOne(createFolderDto.parentId, user);
+    return this.foldersRepository.save(
+      this.foldersRepository.create({
+        name: createFolderDto.name,
+        parentId: createFolderDto.parentId ?? null,
+        owner: { id: user.id },
+      }),
+    );
+  }
+
+  /**
+   * Renombra o mueve la carpeta. No se puede mover dentro de sí misma ni de
+   * una de sus subcarpetas.
+   */
+  async update(id: number, updateFolderDto: UpdateFolderDto, user: User) {
+    const folder = await this.findOne(id, user);
+    if (updateFolderDto.parentId != null) {
+      const ancestors = await this.findAncestorIds(updateFolderDto.parentId, user);
+      if (ancestors.includes(id)) throw new BadRequestException('A folder cannot be moved inside itself');
+    }
+    if (updateFolderDto.name !== undefined) folder.name = updateFolderDto.name;
+    if (updateFolderDto.parentId !== undefined) folder.parentId = updateFolderDto.parentId;
+    return this.foldersRepository.save(folder);
+  }
+
+  /**
+   * Elimina la carpeta; sus diagramas y subcarpetas pasan a la carpeta contenedora.
+   */
+  async remove(id: number, user: User) {
+    const folder = await this.findOne(id, user);
+    await this.foldersRepository.manager.transaction(async manager => {
+      await manager.update(Diagram, { folder: { id } }, { folder: folder.parentId ? { id: folder.parentId } : null });
+      await manager.update(DiagramFolder, { parentId: id }, { parentId: folder.parentId });
+      await manager.delete(DiagramFolder, id);
+    });
+    return folder;
+  }
+
+  /**
+   * IDs de la carpeta y de todas sus contenedoras, de adentro hacia afuera.
+   * Lanza 404 si la carpeta no existe o no es del usuario.
+   */
+  private async findAncestorIds(id: number, user: User) {
+    const ids: number[] = [];
+    let current: DiagramFolder | null = await this.findOne(id, user);
+    while (current && !ids.includes(current.id)) {
+      ids.push(current.id);
+      current = current.parentId ? await this.foldersRepository.findOneBy({ id: current.parentId }) : null;
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,102 @@
+// src/diagrams/diagram-history.service.ts
+import { Injectable } from '@nestjs/common';
+import { DiagramContent } from './schema/diagram-content.schema';
+import { DiagramOperation, TouchedElements } from './utils/diagram-operations';
+import { stableStringify } from './utils/deep-equal';
+
+// Cambios que se pueden deshacer por usuario y diagrama
+const MAX_HISTORY = 100;
+// Pares usuario-diagrama con historial; se descartan primero los menos usados
+const MAX_STACKS = 1000;
+
+export interface HistoryEntry {
+  // Operación que revierte el cambio
+  inverse: DiagramOperation;
+  touched: TouchedElements;
+  // Estado en que el cambio dejó las clases y relaciones que tocó
+  expected: string | undefined;
+  revision: number;
+}
+
+interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+/**
+ * Pilas de deshacer/rehacer de cada usuario en cada diagrama. Viven en memoria
+ * del proceso; solo contienen cambios hechos por ese usuario. El gateway las
+ * descarta cuando el usuario cierra su última conexión al diagrama.
+ */
+@Injectable()
+export class DiagramHistoryService {
+  private readonly stacks = new Map<string, HistoryStacks>();
+
+  /**
+   * Apila un cambio en `target`: 'undo' para cambios nuevos o rehechos,
+   * 'redo' para los que se acaban de deshacer.
+   */
+  push(diagramId: number, userId: number, target: keyof HistoryStacks, entry: Omit<HistoryEntry, 'expected'>, content: DiagramContent) {
+    const stack = this.stacksOf(diagramId, userId)[target];
+    stack.push({ ...entry, expected: this.snapshot(content, entry.touched) });
+    if (stack.length > MAX_HISTORY) stack.shift();
+  }
+
+  // Un cambio nuevo invalida lo que hubiera para rehacer
+  clearRedo(diagramId: number, userId: number) {
+    this.stacksOf(diagramId, userId).redo = [];
+  }
+
+  pop(diagramId: number, userId: number, from: keyof HistoryStacks) {
+    return this.stacksOf(diagramId, userId)[from].pop();
+  }
+
+  /**
+   * Un cambio solo se puede revertir si nadie modificó después las clases y
+   * relaciones que tocó (ni agregó relaciones a esas clases): así deshacer
+   * nunca pisa el trabajo de otro usuario.
+   */
+  isIntact(entry: HistoryEntry, content: DiagramContent) {
+    return this.snapshot(content, entry.touched) === entry.expected;
+  }
+
+  status(diagramId: number, userId: number) {
+    const stacks = this.stacksOf(diagramId, userId);
+    return { canUndo: stacks.undo.length > 0, canRedo: stacks.redo.length > 0 };
+  }
+
+  forget(diagramId: number, userId: number) {
+    this.stacks.delete(`${diagramId}:${userId}`);
+  }
+
+  // Diagrama eliminado: descarta el historial de todos sus usuarios
+  forgetDiagram(diagramId: number) {
+    for (const key of [...this.stacks.keys()]) {
+      if (key.startsWith(`${diagramId}:`)) this.stacks.delete(key);
+    }
+  }
+
+  private snapshot(content: DiagramContent, touched: TouchedElements) {
+    const relationIds = new Set(touched.relations);
+    for (const [id, relation] of Object.entries(content.relations)) {
+      if (touched.classes.includes(relation.from) || touched.classes.includes(relation.to)) relationIds.add(id);
+    }
+    return stableStringify({
+      elements: touched.classes.map(id => content.elements[id] ?? null),
+      relations: [...relationIds].sort().map(id => [id, content.relations[id] ?? null]),
+    });
+  }
+
+  private stacksOf(diagramId: number, userId: number) {
+    const key = `${diagramId}:${userId}`;
+    const stacks = this.stacks.get(key) ?? { undo: [], redo: [] };
+    // Se reinserta para que el Map quede ordenado por último uso
+    this.stacks.delete(key);
+    this.stacks.set(key, stacks);
+    if (this.stacks.size > MAX_STACKS) {
+      const [oldest] = this.stacks.keys();
+      this.stacks.delete(oldest);
+    }
+    return stacks;
+  }
+}
@@ -0,0 +1,120 @@
+// src/diagrams/diagram-invitations.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramInvitation } from './entities/diagram-invitation.entity';
+import { DiagramShare } from './entities/diagram-share.entity';
+import { DiagramsService } from './diagrams.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { assertCanAssign, hasRole } from './utils/diagram-permissions';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class DiagramInvitationsService {
+  constructor(
+    @InjectRepository(DiagramInvitation)
+    private readonly invitationsRepository: Repository<DiagramInvitation>,
+    @InjectRepository(DiagramShare)
+    private readonly sharesRepository: Repository<DiagramShare>,
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    private readonly diagramsService: DiagramsService,
+  ) { }
+
+  /**
+   * Comparte el diagrama con un correo. Si ya existe una cuenta se comparte
+   * directamente; si no, se crea una invitación (reemplazando la pendiente)
+   * que se acepta al registrarse con el token del enlace.
+   */
+  async invite(diagramId: number, dto: CreateInvitationDto, user: User) {
+    const { role: actorRole } = await this.diagramsService.findAccess(diagramId, user, 'co_owner');
+    const email = dto.email.trim().toLowerCase();
+    const role = dto.role ?? 'editor';
+    assertCanAssign(actorRole, role);
+
+    const existing = await this.usersRepository
+      .createQueryBuilder('user')
+      .where('LOWER(user.email) = :email', { email })
+      .getOne();
+    if (existing) {
+      await this.diagramsService.shareDiagram(diagramId, existing.id, user, role);
+      return { status: 'shared' as const, user: { id: existing.id, name: existing.name, email: existing.email }, role };
+    }
+
+    await this.invitationsRepository.delete({ diagram: { id: diagramId }, email, acceptedAt: IsNull() });
+    const invitation = await this.invitationsRepository.save(
+      this.invitationsRepository.create({
+        diagram: { id: diagramId },
+        email,
+        role,
+        token: randomBytes(32).toString('hex'),
+        invitedBy: { id: user.id },
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      }),
+    );
+
+    // No hay servicio de correo: el enlace se devuelve para que el invitador lo comparta
+    const link = `${process.env.FRONTEND_URL ?? ''}/register?invitation=${invitation.token}`;
+
+    return {
+      status: 'invited' as const,
+      invitation: {
+        id: invitation.id,
+        email,
+        role,
+        token: invitation.token,
+        expiresAt: invitation.expiresAt,
+      },
+      link,
+    };
+  }
+
+  async findPending(diagramId: number, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'co_owner');
+    return this.invitationsRepository.find({
+      where: { diagram: { id: diagramId }, acceptedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      relations: ['invitedBy'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revoke(diagramId: number, invitationId: number, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'co_owner');
+    const result = await this.invitationsRepository.delete({
+      id: invitationId,
+      diagram: { id: diagramId },
+      acceptedAt: IsNull(),
+    });
+    if (!result.affected) throw new NotFoundException('Invitation not found');
+    return { deleted: true };
+  }
+
+  /**
+   * Acepta la invitación vigente del token (se llama al registrarse). El correo
+   * no se verifica, así que registrarse con el correo invitado no basta: sin
+   * token no se acepta nada. Devuelve los IDs de los diagramas compartidos.
+   */
+  async acceptPending(user: User, token?: string) {
+    if (!token) return [];
+
+    const now = new Date();
+    const invitation = await this.invitationsRepository.findOne({
+      where: { token, acceptedAt: IsNull(), expiresAt: MoreThan(now) },
+      relations: ['diagram', 'diagram.owner'],
+    });
+    // El diagrama pudo haberse eliminado después de invitar
+    if (!invitation?.diagram || invitation.diagram.owner?.id === user.id) return [];
+
+    const diagramId = invitation.diagram.id;
+    const share = await this.sharesRepository.findOneBy({ diagramId, userId: user.id });
+    // Si ya tenía acceso prevalece el rol más alto
+    if (!share || !hasRole(share.role, invitation.role)) {
+      await this.sharesRepository.save({ diagramId, userId: user.id, role: invitation.role });
+    }
+    await this.invitationsRepository.update(invitation.id, { acceptedAt: now, acceptedBy: { id: user.id } });
+    return [diagramId];
+  }
+}
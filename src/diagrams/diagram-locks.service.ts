@@ -0,0 +1,176 @@
+// src/diagrams/diagram-locks.service.ts
+import { ConflictException, Injectable } from '@nestjs/common';
+import { DiagramContent } from './schema/diagram-content.schema';
+import { DiagramOperation } from './utils/diagram-operations';
+import { isEqual } from './utils/deep-equal';
+
+// Duración de un bloqueo; el cliente lo renueva volviendo a pedirlo mientras edita
+const LOCK_TTL_MS = 30_000;
+
+export type LockKind = 'class' | 'relation';
+
+export interface ElementLock {
+  elementId: string;
+  kind: LockKind;
+  clientId: string;
+  userId: number;
+  name: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+export type LockHolder = Pick<ElementLock, 'clientId' | 'userId' | 'name'>;
+
+type ExpiryListener = (diagramId: number, lock: ElementLock) => void;
+
+/**
+ * Bloqueos blandos (leases) sobre clases y relaciones mientras un usuario las
+ * edita. Viven en memoria: expiran solos tras `LOCK_TTL_MS` sin renovar o al
+ * desconectarse el cliente que los tiene.
+ *
+ * El bloqueo pertenece al usuario: sus otras pestañas pueden seguir editando
+ * el elemento, los demás usuarios no.
+ */
+@Injectable()
+export class DiagramLocksService {
+  private readonly locks = new Map<number, Map<string, ElementLock>>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private expiryListener?: ExpiryListener;
+
+  /**
+   * Permite al gateway avisar a la sala cuando un bloqueo expira por tiempo.
+   */
+  onExpire(listener: ExpiryListener) {
+    this.expiryListener = listener;
+  }
+
+  /**
+   * Toma o renueva el bloqueo de un elemento. Lanza `ConflictException` si lo
+   * tiene otro usuario.
+   */
+  acquire(diagramId: number, elementId: string, kind: LockKind, holder: LockHolder): ElementLock {
+    const room = this.locks.get(diagramId) ?? new Map<string, ElementLock>();
+    const current = room.get(elementId);
+    if (current && current.userId !== holder.userId) {
+      throw new ConflictException({
+        statusCode: 409,
+        message: `Element is locked by ${current.name}`,
+        locks: [current],
+      });
+    }
+
+    const now = new Date();
+    const lock: ElementLock = {
+      elementId,
+      kind,
+      ...holder,
+      acquiredAt: current?.acquiredAt ?? now,
+      expiresAt: new Date(now.getTime() + LOCK_TTL_MS),
+    };
+    room.set(elementId, lock);
+    this.locks.set(diagramId, room);
+    this.schedule(diagramId, lock);
+    return lock;
+  }
+
+  /**
+   * Libera un bloqueo propio. Devuelve el bloqueo liberado o `undefined` si no
+   * existía o era de otro usuario.
+   */
+  release(diagramId: number, elementId: string, userId: number) {
+    const lock = this.locks.get(diagramId)?.get(elementId);
+    if (!lock || lock.userId !== userId) return undefined;
+    this.remove(diagramId, elementId);
+    return lock;
+  }
+
+  /**
+   * Libera los bloqueos tomados desde un socket, en un diagrama o en todos.
+   */
+  releaseByClient(clientId: string, diagramId?: number) {
+    const released: { diagramId: number; lock: ElementLock }[] = [];
+    for (const [id, room] of [...this.locks.entries()]) {
+      if (diagramId !== undefined && id !== diagramId) continue;
+      for (const lock of [...room.values()]) {
+        if (lock.clientId !== clientId) continue;
+        this.remove(id, lock.elementId);
+        released.push({ diagramId: id, lock });
+      }
+    }
+    return released;
+  }
+
+  findAll(diagramId: number): ElementLock[] {
+    return [...(this.locks.get(diagramId)?.values() ?? [])];
+  }
+
+  /**
+   * Rechaza una operación de otro usuario que modifica un elemento bloqueado.
+   * Para reemplazos y fusiones completas solo cuenta si el elemento bloqueado
+   * realmente cambia respecto del contenido actual.
+   */
+  assertWritable(diagramId: number, op: DiagramOperation, userId: number, current: DiagramContent) {
+    const foreign = this.findAll(diagramId).filter(lock => lock.userId !== userId);
+    if (foreign.length === 0) return;
+
+    const touched = foreign.filter(lock => this.touches(op, lock, current));
+    if (touched.length > 0) {
+      throw new ConflictException({
+        statusCode: 409,
+        message: `Element is locked by ${touched[0].name}`,
+        locks: touched,
+      });
+    }
+  }
+
+  private touches(op: DiagramOperation, lock: ElementLock, current: DiagramContent): boolean {
+    const collection = lock.kind === 'class' ? 'elements' : 'relations';
+
+    switch (op.type) {
+      case 'diagram:replace':
+        return !isEqual(current[collection][lock.elementId], op.content?.[collection]?.[lock.elementId]);
+      case 'diagram:merge': {
+        const incoming = op.content[collection]?.[lock.elementId];
+        return incoming !== undefined && !isEqual(current[collection][lock.elementId], incoming);
+      }
+      case 'diagram:patch':
+        return lock.elementId in op[collection] && !isEqual(current[collection][lock.elementId], op[collection][lock.elementId]);
+      case 'element:moved':
+        return lock.kind === 'class' && op.elementId === lock.elementId;
+      case 'class:remove': {
+        if (lock.kind === 'class') return op.classId === lock.elementId;
+        // Eliminar la clase arrastra sus relaciones
+        const relation = current.relations[lock.elementId];
+        return !!relation && (relation.from === op.classId || relation.to === op.classId);
+      }
+      case 'relation:add':
+      case 'relation:update':
+      case 'relation:remove':
+        return lock.kind === 'relation' && op.relationId === lock.elementId;
+      default:
+        return lock.kind === 'class' && op.classId === lock.elementId;
+    }
+  }
+
+  private schedule(diagramId: number, lock: ElementLock) {
+    const key = `${diagramId}:${lock.elementId}`;
+    clearTimeout(this.timers.get(key));
+    const timer = setTimeout(() => {
+      this.remove(diagramId, lock.elementId);
+      this.expiryListener?.(diagramId, lock);
+    }, LOCK_TTL_MS);
+    // No impedir que el proceso termine por un bloqueo pendiente
+    timer.unref();
+    this.timers.set(key, timer);
+  }
+
+  private remove(diagramId: number, elementId: string) {
+    const key = `${diagramId}:${elementId}`;
+    clearTimeout(this.timers.get(key));
+    this.timers.delete(key);
+
+    const room = this.locks.get(diagramId);
+    room?.delete(elementId);
+    if (room?.size === 0) this.locks.delete(diagramId);
+  }
+}
@@ -0,0 +1,207 @@
+// src/diagrams/diagram-operations.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { Diagram } from './entities/diagram.entity';
+import { DiagramOperation as DiagramOperationEntity } from './entities/diagram-operation.entity';
+import { DiagramVersionSource } from './entities/diagram-version.entity';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { DiagramContent } from './schema/diagram-content.schema';
+import { normalizeDiagramContent, parseDiagramContent } from './schema/diagram-content.validator';
+import {
+  DiagramOperation,
+  DiagramOperationInput,
+  TouchedElements,
+  applyOperation,
+  invertOperation,
+  touchedElements,
+  transformAgainst,
+} from './utils/diagram-operations';
+import { KeyedMutex } from './utils/keyed-mutex';
+import { BufferedOperation, OperationBuffer } from './utils/operation-buffer';
+
+// Un cliente más atrasado que esto recibe el diagrama completo en vez de las operaciones
+const MAX_RESYNC_OPERATIONS = 500;
+
+export interface CommittedOperation {
+  opId: string;
+  revision: number;
+  // Operación tal como se aplicó (transformada); null si se descartó
+  op: DiagramOperation | null;
+  content: DiagramContent;
+  // true si la operación quedó sin efecto por un cambio concurrente
+  dropped: boolean;
+  // true si el opId ya estaba registrado (reenvío del cliente)
+  duplicate: boolean;
+  // Operación que la deshace y elementos que modificó (solo si se aplicó)
+  inverse?: DiagramOperation | null;
+  touched?: TouchedElements;
+}
+
+/**
+ * Lo que necesita un cliente que vuelve con `lastRevision` para ponerse al día:
+ * las operaciones que se perdió o, si está demasiado atrasado, el contenido completo.
+ */
+export type CatchUp =
+  | { mode: 'operations'; revision: number; operations: BufferedOperation[] }
+  | { mode: 'snapshot'; revision: number; content: DiagramContent };
+
+/**
+ * Aplica operaciones sobre el contenido de los diagramas de forma serializada
+ * por diagrama: cada operación recibe un número de revisión y se transforma
+ * contra las operaciones concurrentes que el cliente todavía no había visto.
+ *
+ * No comprueba permisos: el llamador (DiagramsService) valida el acceso antes.
+ */
+@Injectable()
+export class DiagramOperationsService {
+  private readonly mutex = new KeyedMutex<number>();
+  private readonly recent = new OperationBuffer();
+
+  constructor(
+    @InjectRepository(Diagram)
+    private readonly diagramsRepository: Repository<Diagram>,
+    @InjectRepository(DiagramOperationEntity)
+    private readonly operationsRepository: Repository<DiagramOperationEntity>,
+    private readonly diagramVersionsService: DiagramVersionsService,
+  ) { }
+
+  async commit(
+    diagramId: number,
+    input: DiagramOperationInput,
+    user: User,
+    source: DiagramVersionSource = 'edit',
+    versionOptions: { restoredFrom?: number } = {},
+  ): Promise<CommittedOperation> {
+    return this.mutex.run(diagramId, async () => {
+      const diagram = await this.diagramsRepository.findOneBy({ id: diagramId });
+      if (!diagram) throw new NotFoundException('Diagram not found');
+      const current = normalizeDiagramContent(diagram.content);
+
+      if (input.opId) {
+        const existing = await this.operationsRepository.findOneBy({
+          diagram: { id: diagramId },
+          opId: input.opId,
+        });
+        if (existing) {
+          return {
+            opId: existing.opId,
+            revision: existing.revision,
+            op: existing.op,
+            content: current,
+            dropped: false,
+            duplicate: true,
+          };
+        }
+      }
+
+      const opId = input.opId ?? randomUUID();
+      const baseRevision = input.baseRevision ?? diagram.revision;
+      const concurrent = baseRevision < diagram.revision
+        ? await this.findSince(diagramId, baseRevision)
+        : [];
+      const op = transformAgainst(structuredClone(input.op), concurrent.map(entry => entry.op));
+
+      if (!op) {
+        return { opId, revision: diagram.revision, op: null, content: current, dropped: true, duplicate: false };
+      }
+
+      diagram.content = parseDiagramContent(applyOperation(current, op));
+      const inverse = invertOperation(current, op, diagram.content);
+      const touched = touchedElements(current, op, diagram.content);
+      diagram.revision += 1;
+
+      // Contenido, registro de operaciones y versión se guardan juntos: si uno
+      // falla, la revisión no avanza sin su operación
+      const saved = await this.diagramsRepository.manager.transaction(async manager => {
+        const updated = await manager.save(diagram);
+        await manager.save(
+          manager.create(DiagramOperationEntity, {
+            diagram: { id: diagramId },
+            revision: updated.revision,
+            opId,
+            type: op.type,
+            op,
+            baseRevision: input.baseRevision ?? null,
+            author: { id: user.id },
+          }),
+        );
+        await this.diagramVersionsService.record(updated, user, source, versionOptions, manager);
+        return updated;
+      });
+      this.recent.push(diagramId, { opId, revision: saved.revision, op });
+
+      return {
+        opId,
+        revision: saved.revision,
+        op,
+        content: saved.content,
+        dropped: false,
+        duplicate: false,
+        inverse,
+        touched,
+      };
+    });
+  }
+
+  /**
+   * Guarda el contenido actual como checkpoint. Corre bajo el mismo mutex que
+   * `commit` para que su número de versión no choque con el de una operación
+   * concurrente del mismo diagrama.
+   */
+  async checkpoint(diagramId: number, user: User, label: string) {
+    return this.mutex.run(diagramId, async () => {
+      const diagram = await this.diagramsRepository.findOneBy({ id: diagramId });
+      if (!diagram) throw new NotFoundException('Diagram not found');
+      return this.diagramVersionsService.record(diagram, user, 'checkpoint', { label });
+    });
+  }
+
+  /**
+   * Calcula cómo poner al día a un cliente cuya última revisión conocida es
+   * `lastRevision`, dado el diagrama ya cargado (contenido y revisión actuales).
+   * Usa primero el buffer en memoria y, si no alcanza, el registro persistido.
+   */
+  async catchUp(diagram: Diagram, lastRevision: number): Promise<CatchUp> {
+    const snapshot: CatchUp = { mode: 'snapshot', revision: diagram.revision, content: diagram.content };
+
+    // Una revisión futura indica un cliente desincronizado (p. ej. otra base de datos)
+    if (!Number.isInteger(lastRevision) || lastRevision < 0 || lastRevision > diagram.revision) return snapshot;
+    if (diagram.revision - lastRevision > MAX_RESYNC_OPERATIONS) return snapshot;
+
+    let operations = this.recent.since(diagram.id, lastRevision, diagram.revision);
+    if (!operations) {
+      const logged = await this.findSince(diagram.id, lastRevision);
+      operations = logged
+        .filter(entry => entry.revision <= diagram.revision)
+        .map(({ opId, revision, op }) => ({ opId, revision, op }));
+      // Revisiones sin operación registrada (anteriores al registro): no se pueden reproducir
+      if (operations.length !== diagram.revision - lastRevision) return snapshot;
+    }
+
+    return { mode: 'operations', revision: diagram.revision, operations };
+  }
+
+  /**
+   * Operaciones posteriores a `revision`, en orden. Permite a un cliente
+   * ponerse al día sin descargar el diagrama completo.
+   */
+  async findSince(diagramId: number, revision: number) {
+    return this.operationsRepository.find({
+      where: { diagram: { id: diagramId }, revision: MoreThan(revision) },
+      relations: ['author'],
+      select: {
+        id: true,
+        revision: true,
+        opId: true,
+        type: true,
+        op: true,
+        createdAt: true,
+        author: { id: true, name: true },
+      },
+      order: { revision: 'ASC' },
+    });
+  }
+}
@@ -0,0 +1,131 @@
+// src/diagrams/diagram-presence.service.ts
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramRole } from './utils/diagram-permissions';
+
+// Sin actividad durante este tiempo el usuario se muestra como inactivo
+const IDLE_AFTER_MS = 2 * 60_000;
+const MAX_SELECTION = 100;
+
+const COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#469990', '#9a6324', '#800000'];
+
+export interface PresenceEntry {
+  clientId: string;
+  userId: number;
+  name: string;
+  email: string;
+  color: string;
+  role: DiagramRole;
+  // IDs de clases o relaciones seleccionadas por el usuario
+  selection: string[];
+  idle: boolean;
+  joinedAt: Date;
+  lastActiveAt: Date;
+}
+
+/**
+ * Usuarios conectados a cada sala `diagram:<id>` del socket. El estado vive en
+ * memoria del proceso: se reconstruye solo a medida que los clientes se unen.
+ */
+@Injectable()
+export class DiagramPresenceService {
+  private readonly rooms = new Map<number, Map<string, PresenceEntry>>();
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) { }
+
+  async join(diagramId: number, clientId: string, user: { sub: number; email: string }, role: DiagramRole) {
+    const found = await this.userRepository.findOne({ where: { id: user.sub }, select: ['id', 'name', 'email'] });
+    const now = new Date();
+    const entry: PresenceEntry = {
+      clientId,
+      userId: user.sub,
+      name: found?.name ?? user.email,
+      email: found?.email ?? user.email,
+      // El mismo usuario conserva su color en todas sus pestañas
+      color: COLORS[user.sub % COLORS.length],
+      role,
+      selection: [],
+      idle: false,
+      joinedAt: now,
+      lastActiveAt: now,
+    };
+
+    const room = this.rooms.get(diagramId) ?? new Map<string, PresenceEntry>();
+    room.set(clientId, entry);
+    this.rooms.set(diagramId, room);
+    return entry;
+  }
+
+  leave(diagramId: number, clientId: string) {
+    const room = this.rooms.get(diagramId);
+    const entry = room?.get(clientId);
+    if (!room || !entry) return undefined;
+
+    room.delete(clientId);
+    if (room.size === 0) this.rooms.delete(diagramId);
+    return entry;
+  }
+
+  /**
+   * Quita al cliente de todas las salas (desconexión) y devuelve de cuáles salió.
+   */
+  leaveAll(clientId: string) {
+    const left: { diagramId: number; entry: PresenceEntry }[] = [];
+    for (const diagramId of [...this.rooms.keys()]) {
+      const entry = this.leave(diagramId, clientId);
+      if (entry) left.push({ diagramId, entry });
+    }
+    return left;
+  }
+
+  get(diagramId: number, clientId: string) {
+    const entry = this.rooms.get(diagramId)?.get(clientId);
+    return entry ? this.withIdle(entry) : undefined;
+  }
+
+  /**
+   * Actualiza selección o estado de inactividad. Los valores se sanean porque
+   * llegan tal cual desde el socket.
+   */
+  update(diagramId: number, clientId: string, patch: { selection?: unknown; idle?: unknown }) {
+    const entry = this.rooms.get(diagramId)?.get(clientId);
+    if (!entry) return undefined;
+
+    if (Array.isArray(patch.selection)) {
+      entry.selection = patch.selection
+        .filter((id): id is string => typeof id === 'string' && id.length > 0 && id.length <= 100)
+        .slice(0, MAX_SELECTION);
+    }
+    if (typeof patch.idle === 'boolean') entry.idle = patch.idle;
+    if (entry.idle === false) entry.lastActiveAt = new Date();
+    return this.withIdle(entry);
+  }
+
+  /**
+   * Registra actividad del cliente. Devuelve la entrada solo si estaba inactivo,
+   * para que el gateway avise a la sala que volvió.
+   */
+  touch(diagramId: number, clientId: string) {
+    const entry = this.rooms.get(diagramId)?.get(clientId);
+    if (!entry) return undefined;
+
+    const wasIdle = this.withIdle(entry).idle;
+    entry.idle = false;
+    entry.lastActiveAt = new Date();
+    return wasIdle ? this.withIdle(entry) : undefined;
+  }
+
+  roster(diagramId: number): PresenceEntry[] {
+    return [...(this.rooms.get(diagramId)?.values() ?? [])].map(entry => this.withIdle(entry));
+  }
+
+  private withIdle(entry: PresenceEntry): PresenceEntry {
+    const idle = entry.idle || Date.now() - entry.lastActiveAt.getTime() > IDLE_AFTER_MS;
+    return { ...entry, selection: [...entry.selection], idle };
+  }
+}
@@ -0,0 +1,75 @@
+// src/diagrams/diagram-proposals.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './entities/diagram.entity';
+import { DiagramProposal, ProposalPatch } from './entities/diagram-proposal.entity';
+import { DiagramRepair } from './ai/diagram-ai-response';
+
+@Injectable()
+export class DiagramProposalsService {
+  constructor(
+    @InjectRepository(DiagramProposal)
+    private readonly proposalsRepository: Repository<DiagramProposal>,
+  ) { }
+
+  async create(
+    diagram: Diagram,
+    user: User,
+    data: { source: DiagramProposal['source']; prompt: string; mode: 'replace' | 'merge'; patch: ProposalPatch; repairs: DiagramRepair[] },
+  ) {
+    const before: ProposalPatch = { elements: {}, relations: {} };
+    for (const id of Object.keys(data.patch.elements)) before.elements[id] = diagram.content.elements[id] ?? null;
+    for (const id of Object.keys(data.patch.relations)) before.relations[id] = diagram.content.relations[id] ?? null;
+
+    return this.proposalsRepository.save(
+      this.proposalsRepository.create({
+        ...data,
+        diagram: { id: diagram.id },
+        createdBy: { id: user.id },
+        baseRevision: diagram.revision,
+        before,
+      }),
+    );
+  }
+
+  /**
+   * Propuestas pendientes del usuario; cada una solo la revisa quien la pidió.
+   */
+  async findPending(diagramId: number, userId: number) {
+    return this.proposalsRepository.find({
+      where: { diagram: { id: diagramId }, createdBy: { id: userId }, status: 'pending' },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(diagramId: number, proposalId: number, userId: number) {
+    const proposal = await this.proposalsRepository.findOneBy({
+      id: proposalId,
+      diagram: { id: diagramId },
+      createdBy: { id: userId },
+    });
+    if (!proposal) throw new NotFoundException('Proposal not found');
+    return proposal;
+  }
+
+  /**
+   * Rechaza las propuestas pendientes del usuario con ese origen (p. ej. las
+   * correcciones de una revisión anterior del modelo).
+   */
+  async discardPending(diagramId: number, userId: number, source: DiagramProposal['source']) {
+    await this.proposalsRepository.update(
+      { diagram: { id: diagramId }, createdBy: { id: userId }, source, status: 'pending' },
+      { status: 'rejected', resolvedAt: new Date() },
+    );
+  }
+
+  async resolve(proposal: DiagramProposal, status: 'accepted' | 'rejected', accepted: DiagramProposal['accepted'] = null) {
+    proposal.status = status;
+    proposal.accepted = accepted;
+    proposal.resolvedAt = new Date();
+    await this.proposalsRepository.update(proposal.id, { status, accepted, resolvedAt: proposal.resolvedAt });
+    return proposal;
+  }
+}
@@ -0,0 +1,148 @@
+// src/diagrams/diagram-share-links.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import * as bcryptjs from 'bcryptjs';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramShareLink } from './entities/diagram-share-link.entity';
+import { DiagramsService } from './diagrams.service';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { normalizeDiagramContent } from './schema/diagram-content.validator';
+
+@Injectable()
+export class DiagramShareLinksService {
+  constructor(
+    @InjectRepository(DiagramShareLink)
+    private readonly linksRepository: Repository<DiagramShareLink>,
+    private readonly diagramsService: DiagramsService,
+  ) { }
+
+  async create(diagramId: number, dto: CreateShareLinkDto, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'co_owner');
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const link = await this.linksRepository.save(
+      this.linksRepository.create({
+        diagram: { id: diagramId },
+        token: randomBytes(24).toString('base64url'),
+        passwordHash: dto.password ? await bcryptjs.hash(dto.password, 10) : null,
+        expiresAt,
+        allowCodeDownload: dto.allowCodeDownload ?? false,
+        createdBy: { id: user.id },
+      }),
+    );
+    return this.present(link, !!dto.password);
+  }
+
+  async findAll(diagramId: number, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'co_owner');
+    const links = await this.linksRepository.find({
+      where: { diagram: { id: diagramId }, revokedAt: IsNull() },
+      select: { id: true, token: true, passwordHash: true, expiresAt: true, allowCodeDownload: true, accessCount: true, lastAccessedAt: true, createdAt: true },
+      order: { createdAt: 'DESC' },
+    });
+    return links.map(link => this.present(link, !!link.passwordHash));
+  }
+
+  async revoke(diagramId: number, linkId: number, user: User) {
+    await this.diagramsService.findOne(diagramId, user, 'co_owner');
+    const result = await this.linksRepository.update(
+      { id: linkId, diagram: { id: diagramId }, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) throw new NotFoundException('Share link not found');
+    return { revoked: true };
+  }
+
+  /**
+   * Vista pública de solo lectura del diagrama del enlace.
+   */
+  async view(token: string, password?: string) {
+    const link = await this.resolve(token, password);
+    await this.linksRepository.update(link.id, {
+      accessCount: () => '"accessCount" + 1',
+      lastAccessedAt: new Date(),
+    });
+
+    const { diagram } = link;
+    return {
+      name: diagram.name,
+      content: diagram.content,
+      revision: diagram.revision,
+      updatedAt: diagram.updatedAt,
+      owner: { name: diagram.owner.name },
+      allowCodeDownload: link.allowCodeDownload,
+    };
+  }
+
+  async generateSpringBootCode(token: string, password: string | undefined, projectName?: string, basePackage?: string) {
+    const { diagram } = await this.resolveForDownload(token, password);
+    return { diagram, zip: await this.diagramsService.buildSpringBootProject(diagram, projectName, basePackage) };
+  }
+
+  async generateFlutterCode(token: string, password: string | undefined, projectName?: string, basePackage?: string) {
+    const { diagram } = await this.resolveForDownload(token, password);
+    return { diagram, zip: await this.diagramsService.buildFlutterProject(diagram, projectName, basePackage) };
+  }
+
+  private async resolveForDownload(token: string, password?: string) {
+    const link = await this.resolve(token, password);
+    if (!link.allowCodeDownload) throw new ForbiddenException('Code download is not allowed for this link');
+    return link;
+  }
+
+  /**
+   * Valida token, revocación, expiración y contraseña; devuelve el enlace con su diagrama.
+   */
+  private async resolve(token: string, password?: string) {
+    const link = await this.linksRepository
+      .createQueryBuilder('link')
+      .addSelect('link.passwordHash')
+      .innerJoinAndSelect('link.diagram', 'diagram')
+      .innerJoinAndSelect('diagram.owner', 'owner')
+      .where('link.token = :token', { token })
+      .andWhere('link.revokedAt IS NULL')
+      .getOne();
+    if (!link) throw new NotFoundException('Share link not found');
+
+    if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) {
+      throw new GoneException('Share link has expired');
+    }
+    if (link.passwordHash) {
+      if (!password) throw new UnauthorizedException('Share link requires a password');
+      if (!(await bcryptjs.compare(password, link.passwordHash))) {
+        throw new UnauthorizedException('Invalid password');
+      }
+    }
+    link.diagram.content = normalizeDiagramContent(link.diagram.content);
+    return link;
+  }
+
+  private present(link: DiagramShareLink, hasPassword: boolean) {
+    // Sin hash de contraseña, diagrama ni creador
+    return {
+      id: link.id,
+      token: link.token,
+      expiresAt: link.expiresAt,
+      allowCodeDownload: link.allowCodeDownload,
+      revokedAt: link.revokedAt,
+      accessCount: link.accessCount,
+      lastAccessedAt: link.lastAccessedAt,
+      createdAt: link.createdAt,
+      hasPassword,
+      path: `/public/diagrams/${link.token}`,
+    };
+  }
+}
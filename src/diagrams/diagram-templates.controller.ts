@@ -0,0 +1,47 @@
+// src/diagrams/diagram-templates.controller.ts
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post } from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { Auth } from 'src/auth/decorator/auth.decorators';
+import { Role } from 'src/common/enums/role.enum';
+import { ActiveUser } from 'src/common/decorator/active-user.decorator';
+import { ActiveUserInterface } from 'src/common/interfaces/active-user.interface';
+import { DiagramTemplatesService } from './diagram-templates.service';
+import { CreateTemplateDto } from './dto/create-template.dto';
+import { CreateFromTemplateDto } from './dto/create-from-template.dto';
+
+@ApiBearerAuth()
+@Controller('templates')
+@Auth(Role.USER)
+export class DiagramTemplatesController {
+  constructor(private readonly templatesService: DiagramTemplatesService) { }
+
+  @Get()
+  findAll(@ActiveUser() user: ActiveUserInterface) {
+    return this.templatesService.findAll({ id: user.sub } as any);
+  }
+
+  @Get(':templateId')
+  findOne(@Param('templateId') templateId: string, @ActiveUser() user: ActiveUserInterface) {
+    return this.templatesService.findOne(templateId, { id: user.sub } as any);
+  }
+
+  @Post()
+  create(@Body() createTemplateDto: CreateTemplateDto, @ActiveUser() user: ActiveUserInterface) {
+    return this.templatesService.create(createTemplateDto, { id: user.sub } as any);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    await this.templatesService.remove(id, { id: user.sub } as any);
+    return { deleted: true };
+  }
+
+  @Post(':templateId/diagrams')
+  createDiagram(
+    @Param('templateId') templateId: string,
+    @Body() createFromTemplateDto: CreateFromTemplateDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.templatesService.createDiagram(templateId, createFromTemplateDto, { id: user.sub } as any);
+  }
+}
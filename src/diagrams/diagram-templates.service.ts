@@ -0,0 +1,80 @@
+// src/diagrams/diagram-templates.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramsService } from './diagrams.service';
+import { DiagramTemplate } from './entities/diagram-template.entity';
+import { BUILT_IN_TEMPLATES } from './templates/built-in-templates';
+import { CreateTemplateDto } from './dto/create-template.dto';
+import { CreateFromTemplateDto } from './dto/create-from-template.dto';
+import { normalizeDiagramContent } from './schema/diagram-content.validator';
+import { DiagramContent } from './schema/diagram-content.schema';
+import { cloneWithFreshIds } from './utils/diagram-copy';
+
+/**
+ * Galería de plantillas: las incluidas (identificadas por clave, p. ej.
+ * `library`) y las guardadas por el usuario (identificadas por su ID numérico).
+ */
+@Injectable()
+export class DiagramTemplatesService {
+  constructor(
+    @InjectRepository(DiagramTemplate)
+    private readonly templatesRepository: Repository<DiagramTemplate>,
+    private readonly diagramsService: DiagramsService,
+  ) { }
+
+  async findAll(user: User) {
+    const custom = await this.templatesRepository.find({
+      where: { owner: { id: user.id } },
+      order: { createdAt: 'DESC' },
+    });
+    return [
+      ...BUILT_IN_TEMPLATES.map(({ key, ...template }) => ({ id: key, builtIn: true, ...template })),
+      ...custom.map(template => ({ ...template, builtIn: false })),
+    ];
+  }
+
+  async findOne(templateId: string, user: User): Promise<{ name: string; description: string; content: DiagramContent }> {
+    const builtIn = BUILT_IN_TEMPLATES.find(template => template.key === templateId);
+    if (builtIn) return builtIn;
+
+    const id = Number(templateId);
+    const template = Number.isInteger(id)
+      ? await this.templatesRepository.findOneBy({ id, owner: { id: user.id } })
+      : null;
+    if (!template) throw new NotFoundException('Template not found');
+    template.content = normalizeDiagramContent(template.content);
+    return template;
+  }
+
+  async create(createTemplateDto: CreateTemplateDto, user: User) {
+    const diagram = await this.diagramsService.findOne(createTemplateDto.diagramId, user);
+    return this.templatesRepository.save(
+      this.templatesRepository.create({
+        name: createTemplateDto.name,
+        description: createTemplateDto.description ?? '',
+        content: diagram.content,
+        owner: { id: user.id },
+      }),
+    );
+  }
+
+  async remove(id: number, user: User) {
+    const template = await this.templatesRepository.findOneBy({ id, owner: { id: user.id } });
+    if (!template) throw new NotFoundException('Template not found');
+    await this.templatesRepository.delete(id);
+    return template;
+  }
+
+  /**
+   * Crea un diagrama nuevo con una copia del contenido de la plantilla (IDs nuevos).
+   */
+  async createDiagram(templateId: string, createFromTemplateDto: CreateFromTemplateDto, user: User) {
+    const template = await this.findOne(templateId, user);
+    return this.diagramsService.create(
+      { ...createFromTemplateDto, content: cloneWithFreshIds(template.content) },
+      user,
+    );
+  }
+}
@@ -0,0 +1,94 @@
+// src/diagrams/diagram-trash.service.ts
+import { Injectable, Logger, NotFoundException, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Not, Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './entities/diagram.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Papelera de diagramas eliminados (soft delete). Solo el propietario ve,
+ * restaura o elimina definitivamente sus diagramas; los que llevan más de
+ * `DIAGRAM_TRASH_RETENTION_DAYS` días (30 por defecto) en la papelera se
+ * purgan cada hora junto con su historial, comentarios y enlaces.
+ */
+@Injectable()
+export class DiagramTrashService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(DiagramTrashService.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(Diagram)
+    private readonly diagramsRepository: Repository<Diagram>,
+  ) { }
+
+  get retentionDays() {
+    const days = Number(process.env.DIAGRAM_TRASH_RETENTION_DAYS);
+    return Number.isFinite(days) && days > 0 ? days : 30;
+  }
+
+  onApplicationBootstrap() {
+    void this.purgeExpired();
+    this.timer = setInterval(() => void this.purgeExpired(), PURGE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  async findAll(user: User) {
+    const diagrams = await this.diagramsRepository.find({
+      select: { id: true, name: true, tags: true, createdAt: true, updatedAt: true, deletedAt: true },
+      where: { owner: { id: user.id }, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+      order: { deletedAt: 'DESC' },
+    });
+    return diagrams.map(diagram => ({
+      ...diagram,
+      purgeAt: new Date(diagram.deletedAt.getTime() + this.retentionDays * DAY_MS),
+    }));
+  }
+
+  async restore(id: number, user: User) {
+    const diagram = await this.findDeleted(id, user);
+    await this.diagramsRepository.restore(diagram.id);
+    return this.diagramsRepository.findOne({ where: { id }, relations: ['owner'] });
+  }
+
+  async purge(id: number, user: User) {
+    const diagram = await this.findDeleted(id, user);
+    await this.diagramsRepository.delete(diagram.id);
+    return diagram;
+  }
+
+  async empty(user: User) {
+    const result = await this.diagramsRepository
+      .createQueryBuilder()
+      .delete()
+      .where('"ownerId" = :userId AND "deletedAt" IS NOT NULL', { userId: user.id })
+      .execute();
+    return { deleted: result.affected ?? 0 };
+  }
+
+  async purgeExpired() {
+    try {
+      const limit = new Date(Date.now() - this.retentionDays * DAY_MS);
+      const result = await this.diagramsRepository.delete({ deletedAt: LessThan(limit) });
+      if (result.affected) this.logger.log(`Papelera: ${result.affected} diagramas purgados`);
+    } catch (error) {
+      this.logger.warn(`No se pudo purgar la papelera de diagramas: ${(error as Error).message}`);
+    }
+  }
+
+  private async findDeleted(id: number, user: User) {
+    const diagram = await this.diagramsRepository.findOne({
+      where: { id, owner: { id: user.id }, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+    if (!diagram) throw new NotFoundException('Diagram not found in trash');
+    return diagram;
+  }
+}
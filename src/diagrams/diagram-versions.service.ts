@@ -0,0 +1,132 @@
+// src/diagrams/diagram-versions.service.ts
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Not, Repository } from 'typeorm';
+import { Diagram } from './entities/diagram.entity';
+import { DiagramVersion, DiagramVersionSource } from './entities/diagram-version.entity';
+import { User } from 'src/users/entities/user.entity';
+import { diffDiagramContent } from './utils/diagram-diff';
+
+// Guardados consecutivos del mismo autor dentro de esta ventana, contada desde
+// que se creó la versión, se agrupan en una sola (mover una clase genera un
+// guardado por evento). Contarla desde el último guardado no la cerraría nunca.
+const VERSION_GROUPING_WINDOW_MS = 60_000;
+
+@Injectable()
+export class DiagramVersionsService {
+  constructor(
+    @InjectRepository(DiagramVersion)
+    private readonly versionsRepository: Repository<DiagramVersion>,
+  ) { }
+
+  /**
+   * Registra un snapshot del contenido actual del diagrama. Con `manager` se
+   * escribe dentro de la transacción del llamador.
+   */
+  async record(
+    diagram: Diagram,
+    author: User,
+    source: DiagramVersionSource,
+    options: { restoredFrom?: number; label?: string } = {},
+    manager: EntityManager = this.versionsRepository.manager,
+  ) {
+    const versionsRepository = manager.getRepository(DiagramVersion);
+    const latest = await versionsRepository.findOne({
+      where: { diagram: { id: diagram.id } },
+      relations: ['author'],
+      order: { number: 'DESC' },
+    });
+
+    const now = new Date();
+    // Las versiones con etiqueta (checkpoints) no se sobrescriben
+    const canGroup =
+      latest &&
+      source === 'edit' &&
+      latest.source === 'edit' &&
+      latest.label == null &&
+      latest.author?.id === author.id &&
+      now.getTime() - latest.createdAt.getTime() < VERSION_GROUPING_WINDOW_MS;
+
+    if (canGroup) {
+      latest.content = diagram.content;
+      latest.lastSavedAt = now;
+      return versionsRepository.save(latest);
+    }
+
+    const version = versionsRepository.create({
+      diagram: { id: diagram.id },
+      number: (latest?.number ?? 0) + 1,
+      content: diagram.content,
+      source,
+      restoredFrom: options.restoredFrom ?? null,
+      label: options.label ?? null,
+      author: { id: author.id },
+      lastSavedAt: now,
+    });
+    return versionsRepository.save(version);
+  }
+
+  async findAll(diagramId: number) {
+    return this.versionsRepository.find({
+      where: { diagram: { id: diagramId } },
+      relations: ['author'],
+      select: {
+        id: true,
+        number: true,
+        source: true,
+        restoredFrom: true,
+        label: true,
+        createdAt: true,
+        lastSavedAt: true,
+        author: { id: true, name: true, email: true },
+      },
+      order: { number: 'DESC' },
+    });
+  }
+
+  async findCheckpoints(diagramId: number) {
+    return this.versionsRepository.find({
+      where: { diagram: { id: diagramId }, label: Not(IsNull()) },
+      relations: ['author'],
+      select: {
+        id: true,
+        number: true,
+        label: true,
+        source: true,
+        createdAt: true,
+        author: { id: true, name: true, email: true },
+      },
+      order: { number: 'DESC' },
+    });
+  }
+
+  /**
+   * Asigna (o quita, con `null`) el nombre de checkpoint de una versión existente.
+   */
+  async setLabel(diagramId: number, number: number, label: string | null) {
+    const version = await this.findOne(diagramId, number);
+    version.label = label;
+    return this.versionsRepository.save(version);
+  }
+
+  async findOne(diagramId: number, number: number) {
+    const version = await this.versionsRepository.findOne({
+      where: { diagram: { id: diagramId }, number },
+      relations: ['author'],
+    });
+    if (!version) throw new NotFoundException(`Version ${number} not found`);
+    return version;
+  }
+
+  async diff(diagramId: number, fromNumber: number, toNumber: number) {
+    const [from, to] = await Promise.all([
+      this.findOne(diagramId, fromNumber),
+      this.findOne(diagramId, toNumber),
+    ]);
+    return {
+      from: from.number,
+      to: to.number,
+      diff: diffDiagramContent(from.content, to.content),
+    };
+  }
+}
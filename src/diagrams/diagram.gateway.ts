@@ -6,29 +6,60 @@ import {
   OnGatewayDisconnect,
   SubscribeMessage,
 } from '@nestjs/websockets';
+import { Logger, UseFilters } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { JwtService } from '@nestjs/jwt';
-import { DiagramsService } from './diagrams.service';
-import { Diagram } from './entities/diagram.entity';
-
-type RoomId = string;
+import { AiGenerationResult, DiagramsService } from './diagrams.service';
+import { DiagramChatService } from './diagram-chat.service';
+import { AiJob, AiJobCancelledError, AiJobKind, DiagramAiJobsService } from './diagram-ai-jobs.service';
+import { WsExceptionFilter } from 'src/common/filters/ws-exception.filter';
+import { Attribute, ClassElement, DiagramContent, Point, Relation } from './schema/diagram-content.schema';
+import { DiagramContentValidationException, parseDiagramContent } from './schema/diagram-content.validator';
+import { DiagramOperation } from './utils/diagram-operations';
+import { DiagramPresenceService, PresenceEntry } from './diagram-presence.service';
+import { DiagramLocksService, ElementLock, LockKind } from './diagram-locks.service';
+import { DiagramHistoryService } from './diagram-history.service';
+import { CommittedOperation } from './diagram-operations.service';
+import { DiagramAiImage } from './ai/diagram-ai-provider';
+
+// Campos opcionales que el cliente puede adjuntar a cualquier evento de edición
+type OperationMeta = { opId?: string; baseRevision?: number };
+
+// Texto de `diagram:generating` según el tipo de trabajo de IA
+const AI_JOB_MESSAGES: Record<AiJobKind, string> = {
+  prompt: 'Generando diagrama...',
+  image: 'Analizando imagen y generando diagrama...',
+  chat: 'Pensando una respuesta...',
+  review: 'Revisando el modelo...',
+  seed: 'Generando datos de ejemplo...',
+};
 
 @WebSocketGateway({
   cors: { origin: true, credentials: true },
   path: '/socket.io',
   pingTimeout: 60000, 
   pingInterval: 25000,
+  // Imágenes y PDF en base64 para generar diagramas (ver aiAttachmentLimits)
+  maxHttpBufferSize: 32 * 1024 * 1024,
 })
+@UseFilters(WsExceptionFilter)
 export class DiagramGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
+  private readonly logger = new Logger(DiagramGateway.name);
+
   constructor(
     private readonly jwtService: JwtService,
     private readonly diagramsService: DiagramsService,
+    private readonly presenceService: DiagramPresenceService,
+    private readonly locksService: DiagramLocksService,
+    private readonly chatService: DiagramChatService,
+    private readonly aiJobsService: DiagramAiJobsService,
+    private readonly historyService: DiagramHistoryService,
   ) { }
 
   @WebSocketServer() server: Server;
 
-  afterInit(server: Server) {
-    console.log('DiagramGateway initialized');
+  afterInit() {
+    this.locksService.onExpire((diagramId, lock) => this.emitLockReleased(diagramId, lock, 'expired'));
   }
 
   async handleConnection(client: Socket) {
@@ -36,279 +67,645 @@ export class DiagramGateway implements OnGatewayInit, OnGatewayConnection, OnGat
     try {
       const payload = await this.jwtService.verifyAsync(token);
       (client as any).user = payload;
-      console.log('Usuario conectado:', payload);
-    } catch (e) {
-      console.log('Token inválido');
+      // Sala personal para avisos dirigidos al usuario (menciones, etc.)
+      await client.join(`user:${payload.sub}`);
+    } catch {
       client.disconnect();
     }
   }
 
   handleDisconnect(client: Socket) {
-    console.log(`Client disconnected: ${client.id}`);
+    for (const { diagramId, entry } of this.presenceService.leaveAll(client.id)) {
+      this.emitUserLeft(diagramId, entry);
+    }
+    for (const { diagramId, lock } of this.locksService.releaseByClient(client.id)) {
+      this.emitLockReleased(diagramId, lock, 'disconnected');
+    }
+  }
+
+  private emitLockReleased(diagramId: number, lock: ElementLock, reason: 'released' | 'expired' | 'disconnected' | 'left') {
+    this.server.to(`diagram:${diagramId}`).emit('lock:released', {
+      diagramId,
+      elementId: lock.elementId,
+      kind: lock.kind,
+      userId: lock.userId,
+      reason,
+    });
+  }
+
+  private emitUserLeft(diagramId: number, entry: PresenceEntry) {
+    this.server.to(`diagram:${diagramId}`).emit('userLeft', {
+      diagramId,
+      clientId: entry.clientId,
+      userId: entry.userId,
+    });
+  }
+
+  /**
+   * Descarta el historial de deshacer del usuario cuando sale del diagrama a
+   * propósito desde su última pestaña. Una desconexión no lo borra: el cliente
+   * puede reconectarse y seguir deshaciendo (el límite de pilas de
+   * DiagramHistoryService acota la memoria de los que no vuelven).
+   */
+  private forgetHistory(diagramId: number, userId: number) {
+    if (!this.presenceService.roster(diagramId).some(entry => entry.userId === userId)) {
+      this.historyService.forget(diagramId, userId);
+    }
+  }
+
+  private emitPresence(client: Socket, diagramId: number, entry: PresenceEntry) {
+    client.to(`diagram:${diagramId}`).emit('presence:update', { diagramId, ...entry });
+  }
+
+  /**
+   * Emite un evento a todos los clientes conectados a la sala del diagrama.
+   * Lo usan los endpoints REST que modifican el diagrama (p. ej. restaurar versión).
+   */
+  emitToDiagram(diagramId: number, event: string, payload: any) {
+    this.server.to(`diagram:${diagramId}`).emit(event, payload);
+  }
+
+  /**
+   * Emite un evento a todas las conexiones de un usuario, tenga o no abierto el diagrama.
+   */
+  emitToUser(userId: number, event: string, payload: any) {
+    this.server.to(`user:${userId}`).emit(event, payload);
+  }
+
+  /**
+   * Saca de la sala del diagrama todas las conexiones de un usuario al que se
+   * le quitó el acceso, liberando su presencia y sus bloqueos.
+   */
+  async revokeAccess(diagramId: number, userId: number) {
+    const room = `diagram:${diagramId}`;
+    const sockets = await this.server.in(`user:${userId}`).fetchSockets();
+
+    for (const socket of sockets) {
+      if (!socket.rooms.has(room)) continue;
+      socket.leave(room);
+      const entry = this.presenceService.leave(diagramId, socket.id);
+      if (entry) this.emitUserLeft(diagramId, entry);
+      for (const { lock } of this.locksService.releaseByClient(socket.id, diagramId)) {
+        this.emitLockReleased(diagramId, lock, 'left');
+      }
+    }
+    this.historyService.forget(diagramId, userId);
+
+    this.emitToUser(userId, 'diagram:accessRevoked', { diagramId });
+  }
+
+  /**
+   * Avisa a quienes tienen abierto el diagrama que fue eliminado y vacía la
+   * sala, liberando su presencia y bloqueos.
+   */
+  async closeDiagram(diagramId: number, deletedBy: number) {
+    const room = `diagram:${diagramId}`;
+    this.server.to(room).emit('diagram:deleted', { diagramId, deletedBy });
+
+    for (const socket of await this.server.in(room).fetchSockets()) {
+      socket.leave(room);
+      this.presenceService.leave(diagramId, socket.id);
+      this.locksService.releaseByClient(socket.id, diagramId);
+    }
+    this.historyService.forgetDiagram(diagramId);
+  }
+
+  /**
+   * Emite a toda la sala (incluido quien la originó) una operación confirmada
+   * que no vino de un cliente del socket: deshacer/rehacer, endpoints REST...
+   * El evento lleva el nombre del tipo de operación, como las ediciones normales.
+   */
+  emitOperation(diagramId: number, operation: CommittedOperation, extra: Record<string, any> = {}) {
+    if (!operation.op || operation.dropped || operation.duplicate) return;
+    const { type, ...data } = operation.op;
+    this.emitToDiagram(diagramId, type, {
+      ...data,
+      ...extra,
+      opId: operation.opId,
+      revision: operation.revision,
+    });
+  }
+
+  /**
+   * Envía la operación al registro del diagrama, confirma al emisor con
+   * `op:ack` (revisión asignada y operación tal como se aplicó) y la retransmite
+   * al resto de la sala con el mismo nombre de evento.
+   *
+   * Los clientes deben aplicar las operaciones recibidas en orden de revisión y
+   * tratar sus cambios locales como provisionales hasta recibir el `op:ack`.
+   */
+  private async submitOperation(
+    client: Socket,
+    diagramId: number,
+    meta: OperationMeta,
+    op: DiagramOperation,
+    event: string = op.type,
+    extra: Record<string, any> = {},
+  ) {
+    const user = (client as any).user;
+    const returned = this.presenceService.touch(diagramId, client.id);
+    if (returned) this.emitPresence(client, diagramId, returned);
+
+    const { operation } = await this.diagramsService.applyOperation(
+      diagramId,
+      { op, opId: meta.opId, baseRevision: meta.baseRevision },
+      { id: user.sub } as any,
+    );
+
+    client.emit('op:ack', {
+      opId: operation.opId,
+      revision: operation.revision,
+      op: operation.op,
+      dropped: operation.dropped,
+      duplicate: operation.duplicate,
+    });
+
+    if (operation.op && !operation.dropped && !operation.duplicate) {
+      const { type, ...data } = operation.op;
+      client.to(`diagram:${diagramId}`).emit(event, {
+        clientId: client.id,
+        ...data,
+        ...extra,
+        opId: operation.opId,
+        revision: operation.revision,
+      });
+    }
+
+    return operation;
   }
 
   // ---------------------------
   // Unirse a un diagrama (sala)
   // ---------------------------
+
+  /**
+   * Sin `lastRevision` el cliente recibe el diagrama completo en `diagram:init`.
+   * Al reconectarse debe enviar la última revisión que aplicó: recibe entonces
+   * `diagram:resync` con las operaciones que se perdió (o el contenido completo
+   * si está muy atrasado) y luego puede reenviar sus operaciones pendientes con
+   * el mismo `opId`; las que ya se habían registrado se confirman como duplicadas.
+   */
   @SubscribeMessage('joinDiagram')
-  async handleJoinDiagram(client: Socket, payload: { diagramId: number }) {
-    const { diagramId } = payload;
+  async handleJoinDiagram(client: Socket, payload: { diagramId: number; lastRevision?: number }) {
+    const { diagramId, lastRevision } = payload;
     const user = (client as any).user;
+    const room = `diagram:${diagramId}`;
+
+    const { diagram, role } = await this.diagramsService.findAccess(diagramId, { id: user.sub } as any);
+
+    // Se entra a la sala antes de calcular lo perdido: una operación que llegue
+    // en medio puede recibirse dos veces y el cliente la descarta por revisión
+    const rejoining = client.rooms.has(room);
+    await client.join(room);
 
-    const diagram: Diagram = await this.diagramsService.findOne(diagramId, { id: user.sub } as any);
+    if (lastRevision === undefined) {
+      client.emit('diagram:init', { diagram: diagram.content, revision: diagram.revision, role });
+    } else {
+      await this.sendResync(client, diagramId, lastRevision);
+    }
+
+    const presence = await this.presenceService.join(diagramId, client.id, user, role);
+    client.emit('presence:roster', { diagramId, users: this.presenceService.roster(diagramId) });
+    client.emit('lock:list', { diagramId, locks: this.locksService.findAll(diagramId) });
+    if (!rejoining) client.to(room).emit('userJoined', { diagramId, ...presence });
+  }
 
-    client.join(`diagram:${diagramId}`);
-    console.log(`Client ${client.id} joined diagram room ${diagramId}`);
+  @SubscribeMessage('leaveDiagram')
+  async handleLeaveDiagram(client: Socket, payload: { diagramId: number }) {
+    const { diagramId } = payload;
+    await client.leave(`diagram:${diagramId}`);
+    const entry = this.presenceService.leave(diagramId, client.id);
+    if (entry) {
+      this.emitUserLeft(diagramId, entry);
+      this.forgetHistory(diagramId, entry.userId);
+    }
+    for (const { lock } of this.locksService.releaseByClient(client.id, diagramId)) {
+      this.emitLockReleased(diagramId, lock, 'left');
+    }
+  }
 
-    client.emit('diagram:init', { diagram: diagram.content });
-    client.to(`diagram:${diagramId}`).emit('userJoined', { clientId: client.id, user });
+  /**
+   * El cliente detectó un salto de revisión (o no pudo aplicar una operación)
+   * y pide ponerse al día desde `lastRevision`.
+   */
+  @SubscribeMessage('diagram:resync')
+  async handleResync(client: Socket, payload: { diagramId: number; lastRevision: number }) {
+    await this.sendResync(client, payload.diagramId, payload.lastRevision);
+  }
+
+  private async sendResync(client: Socket, diagramId: number, lastRevision: number) {
+    const user = (client as any).user;
+    const catchUp = await this.diagramsService.resync(diagramId, Number(lastRevision), { id: user.sub } as any);
+
+    if (catchUp.mode === 'snapshot') {
+      client.emit('diagram:resync', {
+        mode: 'snapshot',
+        diagramId,
+        revision: catchUp.revision,
+        diagram: catchUp.content,
+      });
+      return;
+    }
+
+    client.emit('diagram:resync', {
+      mode: 'operations',
+      diagramId,
+      fromRevision: Number(lastRevision),
+      revision: catchUp.revision,
+      operations: catchUp.operations,
+    });
   }
 
   // ---------------------------
   // Actualización de todo el grafo (guardar cambios)
   // ---------------------------
   @SubscribeMessage('diagram:update')
-  async handleDiagramUpdate(client: Socket, payload: { diagramId: number; content: any; save?: boolean }) {
-    const { diagramId, content, save } = payload;
+  async handleDiagramUpdate(client: Socket, payload: OperationMeta & { diagramId: number; content: DiagramContent; save?: boolean }) {
+    const { diagramId, save } = payload;
     const room = `diagram:${diagramId}`;
 
-    client.to(room).emit('diagram:update', { clientId: client.id, content });
+    // Nunca se reenvía a la sala un contenido que no cumple el esquema
+    const content = parseDiagramContent(payload.content);
 
     if (save) {
-      const user = (client as any).user;
-      await this.diagramsService.update(diagramId, { content }, { id: user.sub } as any);
+      await this.submitOperation(client, diagramId, payload, { type: 'diagram:replace', content }, 'diagram:update');
+      return;
     }
+
+    // Aunque no se guarde, solo los editores pueden difundir cambios a la sala
+    const user = (client as any).user;
+    await this.diagramsService.findOne(diagramId, { id: user.sub } as any, 'editor');
+    client.to(room).emit('diagram:update', { clientId: client.id, content });
   }
 
   // ---------------------------
-  // ✅ SOLUCIÓN: Generar diagrama desde prompt (patrón async)
+  // Generación con IA
   // ---------------------------
+
+  /**
+   * Cada generación corre como un trabajo (ver DiagramAiJobsService): se
+   * responde con `diagram:generating` y el ID del trabajo, el texto del modelo
+   * llega por `diagram:generateProgress` a medida que se genera y el resultado
+   * como `diagram:proposal`. Los errores (incluido el límite de trabajos
+   * simultáneos y el de tiempo) van en `diagram:generateError`; al cancelar con
+   * `diagram:generateCancel` se responde `diagram:generateCancelled`.
+   */
   @SubscribeMessage('diagram:generateFromPrompt')
   async handleGenerateFromPrompt(
     client: Socket,
     payload: { 
-      diagramId: number; 
+      diagramId: number;
       prompt: string;
       mode?: 'replace' | 'merge';
     }
   ) {
     const { diagramId, prompt, mode = 'merge' } = payload;
     const user = (client as any).user;
-    
-    // ✅ 1. Responder inmediatamente con ACK
-    client.emit('diagram:generating', {
-      message: 'Generando diagrama...',
-      status: 'processing'
-    });
-  
-    // ✅ 2. Procesar de forma asíncrona SIN await en el handler
-    this.processGenerateFromPrompt(client, diagramId, prompt, mode, user)
-      .catch(error => {
-        console.error('Error generating diagram:', error);
-        client.emit('diagram:generateError', {
-          error: error.message || 'Error al generar el diagrama'
-        });
-      });
-    
-    // ✅ 3. El handler termina inmediatamente
+
+    const run = await this.runAiJob(client, 'prompt', diagramId, 'diagram:generateError', (job, signal) =>
+      this.diagramsService.generateDiagramFromPrompt(diagramId, prompt, { id: user.sub } as any, mode, {
+        signal,
+        onText: text => this.emitJobProgress(client, job, text),
+      }),
+    );
+    if (run) this.emitProposal(client, diagramId, run.result, run.job);
   }
 
-  // ✅ Método auxiliar que procesa en background
-  private async processGenerateFromPrompt(
+  /**
+   * Genera una propuesta desde una imagen (`imageData` + `mimeType`) o desde
+   * varias imágenes y PDF (`files`), todos en base64.
+   */
+  @SubscribeMessage('diagram:generateFromImage')
+  async handleGenerateFromImage(
     client: Socket,
-    diagramId: number,
-    prompt: string,
-    mode: 'replace' | 'merge',
-    user: any
+    payload: { 
+      diagramId: number; 
+      imageData?: string;
+      mimeType?: string;
+      files?: { data: string; mimeType?: string; name?: string }[];
+      additionalPrompt?: string;
+      mode?: 'replace' | 'merge'; 
+    }
   ) {
-    try {
-      // Emitir progreso cada 10 segundos mientras se genera
-      const progressInterval = setInterval(() => {
-        client.emit('diagram:generating', {
-          message: 'Aún generando, esto puede tomar hasta 30 segundos...',
-          status: 'processing'
-        });
-      }, 10000);
-
-      const updatedDiagram = await this.diagramsService.generateDiagramFromPrompt(
-        diagramId,
-        prompt,
-        { id: user.sub } as any,
-        mode
-      );
+    const { diagramId, imageData, mimeType, files = [], additionalPrompt = '', mode = 'merge' } = payload;
+    const user = (client as any).user;
+    const attachments = [
+      ...(imageData ? [{ data: imageData, mimeType }] : []),
+      ...(Array.isArray(files) ? files : []),
+    ].map(file => ({ ...file, data: Buffer.from(typeof file.data === 'string' ? file.data : '', 'base64') }));
 
-      clearInterval(progressInterval);
+    // Adjuntos y permiso se validan antes de ocupar un trabajo de IA
+    let images: DiagramAiImage[];
+    try {
+      images = await this.diagramsService.prepareFilesGeneration(diagramId, attachments, { id: user.sub } as any);
+    } catch (error) {
+      client.emit('diagram:generateError', { diagramId, error: (error as Error).message });
+      return;
+    }
 
-      // Broadcast a TODOS los clientes en la sala
-      this.server.to(`diagram:${diagramId}`).emit('diagram:generated', {
-        content: updatedDiagram.content,
-        generatedBy: client.id,
+    const run = await this.runAiJob(client, 'image', diagramId, 'diagram:generateError', (job, signal) =>
+      this.diagramsService.generateDiagramFromFiles(diagramId, images, { id: user.sub } as any, {
+        prompt: additionalPrompt,
         mode,
-      });
+        signal,
+        onText: text => this.emitJobProgress(client, job, text),
+      }),
+    );
+    if (run) this.emitProposal(client, diagramId, run.result, run.job);
+  }
 
-      client.emit('diagram:generated', {
-        content: updatedDiagram.content,
-        generatedBy: client.id,
-        mode,
-      });
+  /**
+   * Revisión del modelo (ver DiagramsService.reviewDiagram), también como
+   * trabajo de IA: el resultado llega en `diagram:reviewed` y los errores en
+   * `diagram:reviewError`. Con `ai: false` solo se aplican las reglas estáticas.
+   */
+  @SubscribeMessage('diagram:review')
+  async handleReview(client: Socket, payload: { diagramId: number; ai?: boolean }) {
+    const { diagramId, ai = true } = payload;
+    const user = (client as any).user;
 
-    } catch (error) {
-      throw error; // Se captura en el catch del handler principal
-    }
+    const run = await this.runAiJob(client, 'review', diagramId, 'diagram:reviewError', (job, signal) =>
+      this.diagramsService.reviewDiagram(diagramId, { id: user.sub } as any, {
+        ai,
+        signal,
+        onText: text => this.emitJobProgress(client, job, text),
+      }),
+    );
+    if (run) client.emit('diagram:reviewed', { diagramId, jobId: run.job.id, ...run.result });
+  }
+
+  /**
+   * Cancela un trabajo de IA propio (generación, mensaje al asistente o revisión).
+   */
+  @SubscribeMessage('diagram:generateCancel')
+  handleGenerateCancel(client: Socket, payload: { jobId: string }) {
+    const user = (client as any).user;
+    this.aiJobsService.cancel(payload.jobId, user.sub);
   }
 
   // ---------------------------
-  // ✅ SOLUCIÓN: Generar diagrama desde imagen (patrón async)
+  // Asistente de modelado (chat)
   // ---------------------------
-  @SubscribeMessage('diagram:generateFromImage')
-  async handleGenerateFromImage(
+
+  /**
+   * Mensaje al asistente, también como trabajo de IA. La explicación llega por
+   * fragmentos en `chat:delta` y la respuesta completa en `chat:reply`; si
+   * propone cambios se envía además `diagram:proposal`, igual que al generar
+   * desde un prompt. Sin `sessionId` se abre una conversación nueva titulada
+   * con el mensaje (`chat:session`).
+   */
+  @SubscribeMessage('chat:message')
+  async handleChatMessage(
     client: Socket,
-    payload: { 
-      diagramId: number; 
-      imageData: string;
-      mimeType: string;
-      additionalPrompt?: string;
-      mode?: 'replace' | 'merge'; 
-    }
+    payload: { diagramId: number; sessionId?: number; message: string; mode?: 'replace' | 'merge' },
   ) {
-    const { diagramId, imageData, mimeType, additionalPrompt = '', mode = 'merge' } = payload;
-    const user = (client as any).user;
+    const { diagramId, message, mode = 'merge' } = payload;
+    const user = { id: (client as any).user.sub } as any;
 
-    // ✅ 1. Responder inmediatamente con ACK
-    client.emit('diagram:generating', {
-      message: 'Analizando imagen y generando diagrama...',
-      status: 'processing'
-    });
+    if (typeof message !== 'string' || !message.trim()) {
+      client.emit('chat:error', { diagramId, sessionId: payload.sessionId, error: 'message is required' });
+      return;
+    }
 
-    // ✅ 2. Procesar de forma asíncrona
-    this.processGenerateFromImage(client, diagramId, imageData, mimeType, additionalPrompt, mode, user)
-      .catch(error => {
-        console.error('Error generating diagram from image:', error);
-        client.emit('diagram:generateError', {
-          error: error.message || 'Error al generar el diagrama desde imagen'
-        });
+    const run = await this.runAiJob(client, 'chat', diagramId, 'chat:error', async (job, signal) => {
+      let sessionId = payload.sessionId;
+      if (sessionId === undefined) {
+        const session = await this.chatService.createSession(diagramId, { title: message.trim().slice(0, 120) }, user);
+        sessionId = session.id;
+        client.emit('chat:session', { diagramId, session });
+      }
+      return this.chatService.sendMessage(diagramId, sessionId, { message, mode }, user, {
+        signal,
+        onText: text => {
+          this.aiJobsService.append(job, text);
+          client.emit('chat:delta', { diagramId, sessionId, jobId: job.id, text });
+        },
       });
+    });
+    if (!run) return;
+
+    const { job, result } = run;
+    client.emit('chat:reply', {
+      diagramId,
+      sessionId: result.session.id,
+      jobId: job.id,
+      message: result.message,
+      proposalId: result.proposal?.id ?? null,
+    });
+    if (result.proposal) this.emitProposal(client, diagramId, result as AiGenerationResult, job);
   }
 
-  // ✅ Método auxiliar para procesamiento en background
-  private async processGenerateFromImage(
+  /**
+   * Registra el trabajo y ejecuta la tarea. Devuelve `undefined` si no se pudo
+   * iniciar, falló o se canceló; en esos casos ya se avisó al cliente.
+   */
+  private async runAiJob<T>(
     client: Socket,
+    kind: AiJobKind,
     diagramId: number,
-    imageData: string,
-    mimeType: string,
-    additionalPrompt: string,
-    mode: 'replace' | 'merge',
-    user: any
-  ) {
+    errorEvent: string,
+    task: (job: AiJob, signal: AbortSignal) => Promise<T>,
+  ): Promise<{ job: AiJob; result: T } | undefined> {
+    const user = (client as any).user;
+    let job: AiJob;
     try {
-      const progressInterval = setInterval(() => {
-        client.emit('diagram:generating', {
-          message: 'Procesando imagen, esto puede tomar hasta 30 segundos...',
-          status: 'processing'
-        });
-      }, 10000);
-
-      const imageBuffer = Buffer.from(imageData, 'base64');
-
-      const updatedDiagram = await this.diagramsService.generateDiagramFromImage(
-        diagramId,
-        imageBuffer,
-        mimeType,
-        additionalPrompt,
-        { id: user.sub } as any,
-        mode 
-      );
-
-      clearInterval(progressInterval);
-
-      this.server.to(`diagram:${diagramId}`).emit('diagram:generated', {
-        content: updatedDiagram.content,
-        generatedBy: client.id,
-        mode, 
-      });
+      job = this.aiJobsService.start(kind, diagramId, user.sub);
+    } catch (error) {
+      client.emit(errorEvent, { diagramId, error: error.message });
+      return undefined;
+    }
 
-      client.emit('diagram:generated', {
-        content: updatedDiagram.content,
-        generatedBy: client.id,
-        mode,
-      });
+    client.emit('diagram:generating', {
+      diagramId,
+      jobId: job.id,
+      kind,
+      message: AI_JOB_MESSAGES[kind],
+      status: 'processing'
+    });
 
+    try {
+      const result = await this.aiJobsService.run(job, signal => task(job, signal));
+      return { job, result };
     } catch (error) {
-      throw error;
+      if (error instanceof AiJobCancelledError) {
+        client.emit('diagram:generateCancelled', { diagramId, jobId: job.id });
+      } else {
+        this.logger.error(`Error en el trabajo de IA ${job.id}`, (error as Error).stack);
+        client.emit(errorEvent, {
+          diagramId,
+          jobId: job.id,
+          status: job.status,
+          error: error.message || 'Error al generar el diagrama',
+          errors: error instanceof DiagramContentValidationException ? error.errors : undefined,
+        });
+      }
+      return undefined;
     }
   }
 
+  private emitJobProgress(client: Socket, job: AiJob, text: string) {
+    this.aiJobsService.append(job, text);
+    client.emit('diagram:generateProgress', { diagramId: job.diagramId, jobId: job.id, text });
+  }
+
+  /**
+   * Envía al solicitante la propuesta generada por la IA con su diff. Se
+   * revisa y acepta (total o parcialmente) por `POST /diagrams/:id/proposals/:proposalId/accept`.
+   */
+  private emitProposal(client: Socket, diagramId: number, result: AiGenerationResult, job: AiJob) {
+    const { proposal, diff, repairs, attempts } = result;
+    job.proposalId = proposal.id;
+    client.emit('diagram:proposal', {
+      diagramId,
+      jobId: job.id,
+      proposalId: proposal.id,
+      mode: proposal.mode,
+      baseRevision: proposal.baseRevision,
+      patch: proposal.patch,
+      diff,
+      repairs,
+      attempts,
+    });
+  }
+
   // ---------------------------
   // Movimiento de elementos en tiempo real
   // ---------------------------
 
   @SubscribeMessage('element:moving')
-  handleElementMoving(client: Socket, payload: { diagramId: number; elementId: string; position: { x: number; y: number } }) {
+  async handleElementMoving(client: Socket, payload: { diagramId: number; elementId: string; position: Point }) {
     const { diagramId, elementId, position } = payload;
-    client.to(`diagram:${diagramId}`).emit('element:moving', { elementId, position });
+    const room = `diagram:${diagramId}`;
+    // Como en `diagram:update`: solo editores que están en la sala
+    if (!client.rooms.has(room)) return;
+    const user = (client as any).user;
+    await this.diagramsService.findOne(diagramId, { id: user.sub } as any, 'editor');
+    client.to(room).emit('element:moving', { elementId, position });
   }
 
   @SubscribeMessage('element:moved')
-  async handleElementMoved(client: Socket, payload: { diagramId: number; elementId: string; position: { x: number; y: number } }) {
+  async handleElementMoved(client: Socket, payload: OperationMeta & { diagramId: number; elementId: string; position: Point }) {
     const { diagramId, elementId, position } = payload;
-    client.to(`diagram:${diagramId}`).emit('element:moved', { elementId, position, isFinal: true });
-
-    const user = (client as any).user;
-    const diagram = await this.diagramsService.findOne(diagramId, { id: user.sub } as any);
-    if (!diagram.content.elements) diagram.content.elements = {};
-    if (!diagram.content.elements[elementId]) diagram.content.elements[elementId] = {};
-    diagram.content.elements[elementId].position = position;
-    await this.diagramsService.update(diagramId, { content: diagram.content }, { id: user.sub } as any);
+    await this.submitOperation(client, diagramId, payload, { type: 'element:moved', elementId, position }, 'element:moved', { isFinal: true });
   }
 
   // ---------------------------
   // Cursor en tiempo real
   // ---------------------------
   @SubscribeMessage('cursor:update')
-  handleCursorUpdate(client: Socket, payload: { diagramId: number; position: { x: number; y: number } }) {
+  handleCursorUpdate(client: Socket, payload: { diagramId: number; position: Point }) {
     const { diagramId, position } = payload;
-    client.to(`diagram:${diagramId}`).emit('cursor:update', { clientId: client.id, position, user: (client as any).user });
+    // Solo se retransmite la posición de clientes presentes en la sala y con coordenadas válidas
+    const entry = this.presenceService.get(diagramId, client.id);
+    if (!entry || !Number.isFinite(position?.x) || !Number.isFinite(position?.y)) return;
+
+    const returned = this.presenceService.touch(diagramId, client.id);
+    if (returned) this.emitPresence(client, diagramId, returned);
+
+    client.to(`diagram:${diagramId}`).emit('cursor:update', {
+      diagramId,
+      clientId: client.id,
+      userId: entry.userId,
+      name: entry.name,
+      color: entry.color,
+      position: { x: position.x, y: position.y },
+    });
   }
 
   // ---------------------------
-  // Atributos
+  // Presencia
   // ---------------------------
 
-  @SubscribeMessage('attribute:add')
-  async handleAddAttribute(client: Socket, payload: { diagramId: number; classId: string; attribute: { name: string; type: string } }) {
+  @SubscribeMessage('presence:update')
+  handlePresenceUpdate(client: Socket, payload: { diagramId: number; selection?: string[]; idle?: boolean }) {
+    const { diagramId, selection, idle } = payload;
+    const entry = this.presenceService.update(diagramId, client.id, { selection, idle });
+    if (entry) this.emitPresence(client, diagramId, entry);
+  }
+
+  // ---------------------------
+  // Deshacer / rehacer
+  // ---------------------------
+
+  @SubscribeMessage('diagram:undo')
+  async handleUndo(client: Socket, payload: { diagramId: number }) {
+    await this.replayHistory(client, payload.diagramId, 'undo');
+  }
+
+  @SubscribeMessage('diagram:redo')
+  async handleRedo(client: Socket, payload: { diagramId: number }) {
+    await this.replayHistory(client, payload.diagramId, 'redo');
+  }
+
+  private async replayHistory(client: Socket, diagramId: number, action: 'undo' | 'redo') {
     const user = (client as any).user;
-    await this.diagramsService.addAttribute(payload.diagramId, payload.classId, payload.attribute, { id: user.sub } as any);
+    const result = action === 'undo'
+      ? await this.diagramsService.undo(diagramId, { id: user.sub } as any)
+      : await this.diagramsService.redo(diagramId, { id: user.sub } as any);
 
-    client.to(`diagram:${payload.diagramId}`).emit('attribute:add', {
-      clientId: client.id,
-      classId: payload.classId,
-      attribute: payload.attribute,
-    });
+    this.emitOperation(diagramId, result.operation, { clientId: client.id, [action]: true });
+    client.emit('history:status', { diagramId, ...result.history });
   }
 
-  @SubscribeMessage('attribute:update')
-  async handleUpdateAttribute(client: Socket, payload: { diagramId: number; classId: string; attrIndex: number; newData: { name?: string; type?: string } }) {
+  // ---------------------------
+  // Bloqueos de edición
+  // ---------------------------
+
+  /**
+   * Toma el bloqueo de una clase o relación. Volver a enviarlo mientras se
+   * edita renueva el plazo; si lo tiene otro usuario se responde con `exception`.
+   */
+  @SubscribeMessage('lock:acquire')
+  async handleLockAcquire(client: Socket, payload: { diagramId: number; elementId: string; kind: LockKind }) {
+    const { diagramId, elementId, kind } = payload;
     const user = (client as any).user;
-    await this.diagramsService.updateAttribute(payload.diagramId, payload.classId, payload.attrIndex, payload.newData, { id: user.sub } as any);
+    const presence = this.presenceService.get(diagramId, client.id);
+
+    const lock = await this.diagramsService.lockElement(
+      diagramId,
+      elementId,
+      kind === 'relation' ? 'relation' : 'class',
+      { clientId: client.id, userId: user.sub, name: presence?.name ?? user.email },
+      { id: user.sub } as any,
+    );
+    this.server.to(`diagram:${diagramId}`).emit('lock:acquired', { diagramId, ...lock });
+  }
 
-    client.to(`diagram:${payload.diagramId}`).emit('attribute:update', {
-      clientId: client.id,
-      classId: payload.classId,
-      attrIndex: payload.attrIndex,
-      newData: payload.newData,
-    });
+  @SubscribeMessage('lock:release')
+  handleLockRelease(client: Socket, payload: { diagramId: number; elementId: string }) {
+    const { diagramId, elementId } = payload;
+    const user = (client as any).user;
+    const lock = this.locksService.release(diagramId, elementId, user.sub);
+    if (lock) this.emitLockReleased(diagramId, lock, 'released');
+  }
+
+  // ---------------------------
+  // Atributos
+  // ---------------------------
+
+  @SubscribeMessage('attribute:add')
+  async handleAddAttribute(client: Socket, payload: OperationMeta & { diagramId: number; classId: string; attribute: Omit<Attribute, 'id'> & { id?: string }; index?: number }) {
+    const { diagramId, classId, attribute, index } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'attribute:add', classId, attribute, index });
+  }
+
+  // Los atributos se identifican por `attributeId`; `attrIndex` solo se usa si no viene el ID
+  @SubscribeMessage('attribute:update')
+  async handleUpdateAttribute(client: Socket, payload: OperationMeta & { diagramId: number; classId: string; attributeId?: string; attrIndex?: number; newData: Partial<Attribute> }) {
+    const { diagramId, classId, attributeId, attrIndex, newData } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'attribute:update', classId, attributeId, attrIndex, newData });
   }
 
   @SubscribeMessage('attribute:remove')
-  async handleRemoveAttribute(client: Socket, payload: { diagramId: number; classId: string; attrIndex: number }) {
-    const user = (client as any).user;
-    await this.diagramsService.removeAttribute(payload.diagramId, payload.classId, payload.attrIndex, { id: user.sub } as any);
+  async handleRemoveAttribute(client: Socket, payload: OperationMeta & { diagramId: number; classId: string; attributeId?: string; attrIndex?: number }) {
+    const { diagramId, classId, attributeId, attrIndex } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'attribute:remove', classId, attributeId, attrIndex });
+  }
 
-    client.to(`diagram:${payload.diagramId}`).emit('attribute:remove', {
-      clientId: client.id,
-      classId: payload.classId,
-      attrIndex: payload.attrIndex,
-    });
+  @SubscribeMessage('attribute:reorder')
+  async handleReorderAttributes(client: Socket, payload: OperationMeta & { diagramId: number; classId: string; attributeIds: string[] }) {
+    const { diagramId, classId, attributeIds } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'attribute:reorder', classId, attributeIds });
   }
 
   // ---------------------------
@@ -316,43 +713,21 @@ export class DiagramGateway implements OnGatewayInit, OnGatewayConnection, OnGat
   // ---------------------------
 
   @SubscribeMessage('class:add')
-  async handleAddClass(client: Socket, payload: { diagramId: number; classId: string; classData: { name: string; position: { x: number; y: number }; attributes?: any[] } }) {
-    const user = (client as any).user;
-    await this.diagramsService.addClass(payload.diagramId, payload.classId, payload.classData, { id: user.sub } as any);
-
-    client.to(`diagram:${payload.diagramId}`).emit('class:add', {
-      clientId: client.id,
-      classId: payload.classId,
-      classData: payload.classData,
-    });
+  async handleAddClass(client: Socket, payload: OperationMeta & { diagramId: number; classId: string; classData: Pick<ClassElement, 'name' | 'position'> & { attributes?: Attribute[] } }) {
+    const { diagramId, classId, classData } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'class:add', classId, classData });
   }
 
   @SubscribeMessage('class:update')
-  async handleUpdateClass(client: Socket, payload: { diagramId: number; classId: string; newData: { name?: string } }) {
+  async handleUpdateClass(client: Socket, payload: OperationMeta & { diagramId: number; classId: string; newData: { name?: string } }) {
     const { diagramId, classId, newData } = payload;
-    const user = (client as any).user;
-
-    const diagram = await this.diagramsService.findOne(diagramId, { id: user.sub } as any);
-    if (!diagram.content.elements[classId]) diagram.content.elements[classId] = {};
-    diagram.content.elements[classId].name = newData.name || diagram.content.elements[classId].name;
-    await this.diagramsService.update(diagramId, { content: diagram.content }, { id: user.sub } as any);
-
-    client.to(`diagram:${diagramId}`).emit('class:update', {
-      clientId: client.id,
-      classId,
-      newData,
-    });
+    await this.submitOperation(client, diagramId, payload, { type: 'class:update', classId, newData });
   }
 
   @SubscribeMessage('class:remove')
-  async handleRemoveClass(client: Socket, payload: { diagramId: number; classId: string }) {
-    const user = (client as any).user;
-    await this.diagramsService.removeClass(payload.diagramId, payload.classId, { id: user.sub } as any);
-
-    client.to(`diagram:${payload.diagramId}`).emit('class:remove', {
-      clientId: client.id,
-      classId: payload.classId,
-    });
+  async handleRemoveClass(client: Socket, payload: OperationMeta & { diagramId: number; classId: string }) {
+    const { diagramId, classId } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'class:remove', classId });
   }
 
   // ---------------------------
@@ -360,91 +735,20 @@ export class DiagramGateway implements OnGatewayInit, OnGatewayConnection, OnGat
   // ---------------------------
 
   @SubscribeMessage('relation:add')
-  async handleAddRelation(
-    client: Socket,
-    payload: {
-      diagramId: number;
-      relationId: string;
-      data: {
-        from: string;
-        to: string;
-        type: string;
-        vertices?: { x: number; y: number }[];
-        labels?: any[];
-        attrs?: any;
-        router?: any;
-        connector?: any;
-      };
-    }
-  ) {
-    const user = (client as any).user;
-    await this.diagramsService.addRelation(payload.diagramId, payload.relationId, payload.data, { id: user.sub } as any);
-  
-    client.to(`diagram:${payload.diagramId}`).emit('relation:add', {
-      clientId: client.id,
-      relationId: payload.relationId,
-      data: payload.data,
-    });
+  async handleAddRelation(client: Socket, payload: OperationMeta & { diagramId: number; relationId: string; data: Relation }) {
+    const { diagramId, relationId, data } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'relation:add', relationId, data });
   }
 
   @SubscribeMessage('relation:update')
-  async handleUpdateRelation(
-    client: Socket,
-    payload: {
-      diagramId: number;
-      relationId: string;
-      data: Partial<{
-        from: string;
-        to: string;
-        type: string;
-        vertices: { x: number; y: number }[];
-        labels: any[];
-        attrs: any;
-        router: any;
-        connector: any;
-      }>;
-    }
-  ) {
-    const user = (client as any).user;
-    
-    try {
-      await this.diagramsService.updateRelation(
-        payload.diagramId, 
-        payload.relationId, 
-        payload.data, 
-        { id: user.sub } as any
-      );
-  
-      client.to(`diagram:${payload.diagramId}`).emit('relation:update', {
-        clientId: client.id,
-        relationId: payload.relationId,
-        data: payload.data,
-      });
-    } catch (error) {
-      console.warn(`Could not update relation ${payload.relationId}:`, error.message);
-    }
+  async handleUpdateRelation(client: Socket, payload: OperationMeta & { diagramId: number; relationId: string; data: Partial<Relation> }) {
+    const { diagramId, relationId, data } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'relation:update', relationId, data });
   }
 
   @SubscribeMessage('relation:remove')
-  async handleRemoveRelation(
-    client: Socket, 
-    payload: { diagramId: number; relationId: string }
-  ) {
-    const user = (client as any).user;
-    
-    try {
-      await this.diagramsService.removeRelation(
-        payload.diagramId, 
-        payload.relationId, 
-        { id: user.sub } as any
-      );
-
-      client.to(`diagram:${payload.diagramId}`).emit('relation:remove', {
-        clientId: client.id,
-        relationId: payload.relationId,
-      });
-    } catch (error) {
-      console.warn(`Could not remove relation ${payload.relationId}:`, error.message);
-    }
+  async handleRemoveRelation(client: Socket, payload: OperationMeta & { diagramId: number; relationId: string }) {
+    const { diagramId, relationId } = payload;
+    await this.submitOperation(client, diagramId, payload, { type: 'relation:remove', relationId });
   }
-}
\ No newline at end of file
+}
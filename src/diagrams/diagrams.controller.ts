@@ -1,20 +1,51 @@
 // src/diagrams/diagrams.controller.ts
-import { Controller, Get, Post, Body, Param, Delete, Put, UseGuards, Patch, Query, Res } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Delete, Patch, Query, Res, ParseIntPipe, ParseEnumPipe, HttpException, UseInterceptors, UploadedFiles } from '@nestjs/common';
 import { Response } from 'express';
-import { DiagramsService } from './diagrams.service';
+import { DiagramsService, SampleDataOptions } from './diagrams.service';
 import { CreateDiagramDto } from './dto/create-diagram.dto';
 import { UpdateDiagramDto } from './dto/update-diagram.dto';
 import { Auth } from 'src/auth/decorator/auth.decorators';
 import { Role } from 'src/common/enums/role.enum';
 import { ActiveUser } from 'src/common/decorator/active-user.decorator';
 import { ActiveUserInterface } from 'src/common/interfaces/active-user.interface';
-import { ApiBearerAuth, ApiBody, ApiQuery } from '@nestjs/swagger';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiBody, ApiConsumes, ApiQuery } from '@nestjs/swagger';
+import { DiagramGateway } from './diagram.gateway';
+import { CreateCheckpointDto } from './dto/create-checkpoint.dto';
+import { CreateBranchDto } from './dto/create-branch.dto';
+import { MergeBranchDto } from './dto/merge-branch.dto';
+import { ReorderAttributesDto } from './dto/reorder-attributes.dto';
+import { ShareDiagramDto } from './dto/share-diagram.dto';
+import { UpdateCollaboratorDto } from './dto/update-collaborator.dto';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { DiagramInvitationsService } from './diagram-invitations.service';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { DiagramShareLinksService } from './diagram-share-links.service';
+import { ListDiagramsQueryDto } from './dto/list-diagrams-query.dto';
+import { DiagramTrashService } from './diagram-trash.service';
+import { DuplicateDiagramDto } from './dto/duplicate-diagram.dto';
+import { AcceptProposalDto } from './dto/accept-proposal.dto';
+import { DiagramAiJobsService } from './diagram-ai-jobs.service';
+import { MAX_SEED_ROWS } from './utils/diagram-seed-data';
+import { GenerateFromFilesDto } from './dto/generate-from-files.dto';
+
+// Datos de ejemplo en el código generado: `ai` = valores de la IA, `basic` = deterministas
+const SAMPLE_DATA_MODES = { ai: 'ai', basic: 'basic' } as const;
+type SampleDataMode = keyof typeof SAMPLE_DATA_MODES;
 
 @ApiBearerAuth()
 @Controller('diagrams')
 @Auth(Role.USER)
 export class DiagramsController {
-  constructor(private readonly diagramsService: DiagramsService) { }
+  constructor(
+    private readonly diagramsService: DiagramsService,
+    private readonly diagramGateway: DiagramGateway,
+    private readonly diagramInvitationsService: DiagramInvitationsService,
+    private readonly diagramShareLinksService: DiagramShareLinksService,
+    private readonly diagramTrashService: DiagramTrashService,
+    private readonly diagramAiJobsService: DiagramAiJobsService,
+  ) { }
 
   @Post()
   create(
@@ -25,13 +56,66 @@ export class DiagramsController {
   }
 
   @Get()
-  findAllbyUser(@ActiveUser() user: ActiveUserInterface) {
-    return this.diagramsService.findAllByUser(user.sub);
+  findAllbyUser(@Query() query: ListDiagramsQueryDto, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.search(user.sub, query, query.scope);
   }
 
   @Get('shared')
-  findShared(@ActiveUser() user: ActiveUserInterface) {
-    return this.diagramsService.findShared(user.sub);
+  findShared(@Query() query: ListDiagramsQueryDto, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.search(user.sub, query, 'shared');
+  }
+
+  @Post(':id/duplicate')
+  duplicate(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() duplicateDiagramDto: DuplicateDiagramDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.duplicate(id, { id: user.sub } as any, duplicateDiagramDto.name);
+  }
+
+  // ---------- Papelera ----------
+
+  @Get('trash')
+  findTrash(@ActiveUser() user: ActiveUserInterface) {
+    return this.diagramTrashService.findAll({ id: user.sub } as any);
+  }
+
+  @Delete('trash')
+  emptyTrash(@ActiveUser() user: ActiveUserInterface) {
+    return this.diagramTrashService.empty({ id: user.sub } as any);
+  }
+
+  @Delete('trash/:id')
+  async purge(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    await this.diagramTrashService.purge(id, { id: user.sub } as any);
+    return { deleted: true };
+  }
+
+  @Post(':id/restore')
+  restore(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramTrashService.restore(id, { id: user.sub } as any);
+  }
+
+  // ---------- Trabajos de IA ----------
+
+  @Get('ai-jobs')
+  @ApiQuery({ name: 'diagramId', required: false, type: Number })
+  findAiJobs(
+    @ActiveUser() user: ActiveUserInterface,
+    @Query('diagramId', new ParseIntPipe({ optional: true })) diagramId?: number,
+  ) {
+    return this.diagramAiJobsService.findAll(user.sub, diagramId);
+  }
+
+  @Get('ai-jobs/:jobId')
+  findAiJob(@Param('jobId') jobId: string, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramAiJobsService.findOne(jobId, user.sub);
+  }
+
+  @Post('ai-jobs/:jobId/cancel')
+  cancelAiJob(@Param('jobId') jobId: string, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramAiJobsService.cancel(jobId, user.sub);
   }
 
 
@@ -42,43 +126,433 @@ export class DiagramsController {
 
   @Patch(':id')
   @ApiBody({ type: CreateDiagramDto })
-  update(
+  async update(
     @Param('id') id: number,
     @Body() updateDiagramDto: UpdateDiagramDto,
     @ActiveUser() user: ActiveUserInterface,
   ) {
-    return this.diagramsService.update(id, updateDiagramDto, { id: user.sub } as any);
+    const diagram = await this.diagramsService.update(id, updateDiagramDto, { id: user.sub } as any);
+
+    if (updateDiagramDto.content) {
+      this.diagramGateway.emitToDiagram(id, 'diagram:update', {
+        content: diagram.content,
+        revision: diagram.revision,
+      });
+    }
+
+    return diagram;
+  }
+
+  @Get(':id/presence')
+  findPresence(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.findPresence(id, { id: user.sub } as any);
+  }
+
+  @Patch(':id/classes/:classId/attributes/order')
+  async reorderAttributes(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('classId') classId: string,
+    @Body() reorderAttributesDto: ReorderAttributesDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const { diagram, operation } = await this.diagramsService.applyOperation(
+      id,
+      { op: { type: 'attribute:reorder', classId, attributeIds: reorderAttributesDto.attributeIds } },
+      { id: user.sub } as any,
+    );
+
+    this.diagramGateway.emitOperation(id, operation);
+    return diagram;
+  }
+
+  @Get(':id/history')
+  findHistoryStatus(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.findHistoryStatus(id, { id: user.sub } as any);
+  }
+
+  @Post(':id/undo')
+  async undo(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    const { diagram, operation, history } = await this.diagramsService.undo(id, { id: user.sub } as any);
+    this.diagramGateway.emitOperation(id, operation, { undo: true });
+    return { diagram, history };
+  }
+
+  @Post(':id/redo')
+  async redo(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    const { diagram, operation, history } = await this.diagramsService.redo(id, { id: user.sub } as any);
+    this.diagramGateway.emitOperation(id, operation, { redo: true });
+    return { diagram, history };
   }
 
   @Delete(':id')
-  remove(@Param('id') id: number, @ActiveUser() user: ActiveUserInterface) {
-    return this.diagramsService.remove(id, { id: user.sub } as any);
+  async remove(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    const diagram = await this.diagramsService.remove(id, { id: user.sub } as any);
+    await this.diagramGateway.closeDiagram(id, user.sub);
+    return diagram;
   }
 
   @Post(':id/share/:userId')
-  shareDiagram(
+  async shareDiagram(
     @Param('id') id: number,
     @Param('userId') userId: number,
+    @Body() shareDiagramDto: ShareDiagramDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const role = shareDiagramDto.role ?? 'editor';
+    const diagram = await this.diagramsService.shareDiagram(id, userId, { id: user.sub } as any, role);
+    this.diagramGateway.emitToUser(userId, 'diagram:role', { diagramId: id, role });
+    return diagram;
+  }
+
+  @Delete(':id/share/:userId')
+  async unshareDiagram(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    await this.diagramsService.unshareDiagram(id, userId, { id: user.sub } as any);
+    // Puede conservar acceso como miembro del workspace del diagrama
+    const role = (await this.diagramsService.findRoles([id], userId)).get(id);
+    if (role) this.diagramGateway.emitToUser(userId, 'diagram:role', { diagramId: id, role });
+    else await this.diagramGateway.revokeAccess(id, userId);
+    this.diagramGateway.emitToDiagram(id, 'collaborator:removed', { diagramId: id, userId });
+    return { deleted: true };
+  }
+
+  @Get(':id/collaborators')
+  findCollaborators(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.findCollaborators(id, { id: user.sub } as any);
+  }
+
+  @Patch(':id/collaborators/:userId')
+  async updateCollaborator(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() updateCollaboratorDto: UpdateCollaboratorDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const share = await this.diagramsService.updateCollaboratorRole(id, userId, updateCollaboratorDto.role, { id: user.sub } as any);
+    // Los clientes del usuario ajustan la interfaz (p. ej. pasar a solo lectura)
+    this.diagramGateway.emitToUser(userId, 'diagram:role', { diagramId: id, role: share.role });
+    this.diagramGateway.emitToDiagram(id, 'collaborator:updated', { diagramId: id, userId, role: share.role });
+    return share;
+  }
+
+  // ---------- Invitaciones por correo ----------
+
+  @Post(':id/invitations')
+  async invite(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createInvitationDto: CreateInvitationDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const result = await this.diagramInvitationsService.invite(id, createInvitationDto, { id: user.sub } as any);
+    if (result.status === 'shared') {
+      this.diagramGateway.emitToUser(result.user.id, 'diagram:role', { diagramId: id, role: result.role });
+    }
+    return result;
+  }
+
+  @Get(':id/invitations')
+  findInvitations(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramInvitationsService.findPending(id, { id: user.sub } as any);
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  revokeInvitation(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('invitationId', ParseIntPipe) invitationId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramInvitationsService.revoke(id, invitationId, { id: user.sub } as any);
+  }
+
+  // ---------- Enlaces públicos ----------
+
+  @Post(':id/share-links')
+  createShareLink(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createShareLinkDto: CreateShareLinkDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramShareLinksService.create(id, createShareLinkDto, { id: user.sub } as any);
+  }
+
+  @Get(':id/share-links')
+  findShareLinks(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramShareLinksService.findAll(id, { id: user.sub } as any);
+  }
+
+  @Delete(':id/share-links/:linkId')
+  revokeShareLink(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('linkId', ParseIntPipe) linkId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramShareLinksService.revoke(id, linkId, { id: user.sub } as any);
+  }
+
+  @Post(':id/transfer')
+  async transferOwnership(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() transferOwnershipDto: TransferOwnershipDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const diagram = await this.diagramsService.transferOwnership(id, transferOwnershipDto.userId, { id: user.sub } as any);
+    this.diagramGateway.emitToDiagram(id, 'diagram:ownerChanged', {
+      diagramId: id,
+      ownerId: transferOwnershipDto.userId,
+      previousOwnerId: user.sub,
+    });
+    return diagram;
+  }
+
+  // ---------- Registro de operaciones ----------
+
+  @Get(':id/operations')
+  @ApiQuery({ name: 'since', required: false, description: 'Revisión conocida por el cliente' })
+  findOperations(
+    @Param('id') id: number,
+    @Query('since') since: string,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.findOperationsSince(id, Number(since) || 0, { id: user.sub } as any);
+  }
+
+  // ---------- Generación con IA ----------
+
+  /**
+   * Genera una propuesta desde imágenes o PDF (multipart, campo `files`). Los
+   * límites de Multer (aiAttachmentMulterOptions, en DiagramsModule) cortan la
+   * subida a tiempo; tipo, tamaño total, páginas y permiso se validan antes
+   * de iniciar el trabajo de IA (ver prepareFilesGeneration).
+   */
+  @Post(':id/generate-from-files')
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['files'],
+      properties: {
+        files: { type: 'array', items: { type: 'string', format: 'binary' } },
+        prompt: { type: 'string' },
+        mode: { type: 'string', enum: ['replace', 'merge'] },
+      },
+    },
+  })
+  @UseInterceptors(FilesInterceptor('files'))
+  async generateFromFiles(
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFiles() files: { buffer: Buffer; mimetype: string; originalname: string }[] = [],
+    @Body() generateFromFilesDto: GenerateFromFilesDto,
     @ActiveUser() user: ActiveUserInterface,
   ) {
-    return this.diagramsService.shareDiagram(id, userId, { id: user.sub } as any);
+    const attachments = files.map(file => ({ data: file.buffer, mimeType: file.mimetype, name: file.originalname }));
+    const images = await this.diagramsService.prepareFilesGeneration(id, attachments, { id: user.sub } as any);
+    const job = this.diagramAiJobsService.start('image', id, user.sub);
+    return this.diagramAiJobsService.run(job, signal =>
+      this.diagramsService.generateDiagramFromFiles(id, images, { id: user.sub } as any, {
+        prompt: generateFromFilesDto.prompt,
+        mode: generateFromFilesDto.mode,
+        signal,
+      }),
+    );
+  }
+
+  // ---------- Propuestas de la IA ----------
+
+  @Get(':id/proposals')
+  findProposals(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.findProposals(id, { id: user.sub } as any);
+  }
+
+  @Get(':id/proposals/:proposalId')
+  findProposal(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('proposalId', ParseIntPipe) proposalId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.findProposal(id, proposalId, { id: user.sub } as any);
+  }
+
+  @Post(':id/proposals/:proposalId/accept')
+  async acceptProposal(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('proposalId', ParseIntPipe) proposalId: number,
+    @Body() acceptProposalDto: AcceptProposalDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const { diagram, operation, proposal, skipped } = await this.diagramsService.acceptProposal(
+      id,
+      proposalId,
+      acceptProposalDto,
+      { id: user.sub } as any,
+    );
+    this.diagramGateway.emitOperation(id, operation, { proposalId, generatedBy: user.sub });
+    return { diagram, proposal, skipped };
+  }
+
+  @Post(':id/proposals/:proposalId/reject')
+  rejectProposal(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('proposalId', ParseIntPipe) proposalId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.rejectProposal(id, proposalId, { id: user.sub } as any);
+  }
+
+  // ---------- Revisión del modelo ----------
+
+  @Post(':id/review')
+  @ApiQuery({ name: 'ai', required: false, type: Boolean, description: 'false = solo reglas estáticas, sin IA' })
+  review(
+    @Param('id', ParseIntPipe) id: number,
+    @ActiveUser() user: ActiveUserInterface,
+    @Query('ai') ai?: string,
+  ) {
+    const job = this.diagramAiJobsService.start('review', id, user.sub);
+    return this.diagramAiJobsService.run(job, signal =>
+      this.diagramsService.reviewDiagram(id, { id: user.sub } as any, { ai: ai !== 'false', signal }),
+    );
+  }
+
+  // ---------- Historial de versiones ----------
+
+  @Get(':id/versions')
+  findVersions(@Param('id') id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.findVersions(id, { id: user.sub } as any);
+  }
+
+  @Get(':id/versions/:from/diff/:to')
+  diffVersions(
+    @Param('id') id: number,
+    @Param('from', ParseIntPipe) from: number,
+    @Param('to', ParseIntPipe) to: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.diffVersions(id, from, to, { id: user.sub } as any);
+  }
+
+  @Get(':id/versions/:version')
+  findVersion(
+    @Param('id') id: number,
+    @Param('version', ParseIntPipe) version: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.findVersion(id, version, { id: user.sub } as any);
+  }
+
+  @Post(':id/versions/:version/restore')
+  async restoreVersion(
+    @Param('id') id: number,
+    @Param('version', ParseIntPipe) version: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const { diagram, operation } = await this.diagramsService.restoreVersion(id, version, { id: user.sub } as any);
+
+    this.diagramGateway.emitToDiagram(id, 'diagram:restored', {
+      content: diagram.content,
+      version,
+      revision: operation.revision,
+      restoredBy: user.sub,
+    });
+
+    return diagram;
+  }
+
+  // ---------- Checkpoints ----------
+
+  @Get(':id/checkpoints')
+  findCheckpoints(@Param('id') id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.findCheckpoints(id, { id: user.sub } as any);
+  }
+
+  @Post(':id/checkpoints')
+  createCheckpoint(
+    @Param('id') id: number,
+    @Body() createCheckpointDto: CreateCheckpointDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.createCheckpoint(
+      id,
+      createCheckpointDto.name,
+      { id: user.sub } as any,
+      createCheckpointDto.version,
+    );
+  }
+
+  @Delete(':id/checkpoints/:version')
+  removeCheckpoint(
+    @Param('id') id: number,
+    @Param('version', ParseIntPipe) version: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.removeCheckpoint(id, version, { id: user.sub } as any);
+  }
+
+  // ---------- Ramas ----------
+
+  @Get(':id/branches')
+  findBranches(@Param('id') id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.diagramsService.findBranches(id, { id: user.sub } as any);
+  }
+
+  @Post(':id/branches')
+  createBranch(
+    @Param('id') id: number,
+    @Body() createBranchDto: CreateBranchDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.diagramsService.createBranch(id, createBranchDto.name, { id: user.sub } as any);
+  }
+
+  @Post(':id/merge')
+  async mergeBranch(
+    @Param('id') id: number,
+    @Body() mergeBranchDto: MergeBranchDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const result = await this.diagramsService.mergeBranch(
+      id,
+      { id: user.sub } as any,
+      mergeBranchDto.resolutions,
+      mergeBranchDto.dryRun,
+    );
+
+    if (result.diagram) {
+      this.diagramGateway.emitToDiagram(result.diagram.id, 'diagram:merged', {
+        content: result.diagram.content,
+        revision: result.diagram.revision,
+        branchId: id,
+        mergedBy: user.sub,
+      });
+    }
+
+    return result;
   }
 
   @Post(':id/generate-code')
   @ApiQuery({ name: 'projectName', required: false })
   @ApiQuery({ name: 'basePackage', required: false })
+  @ApiQuery({ name: 'sampleData', required: false, enum: Object.keys(SAMPLE_DATA_MODES), description: 'Incluye data.sql con datos de ejemplo' })
+  @ApiQuery({ name: 'sampleRows', required: false, type: Number, description: `Registros por clase (máx. ${MAX_SEED_ROWS})` })
   async generateSpringBootCode(
     @Param('id') id: number,
     @Query('projectName') projectName: string,
     @Query('basePackage') basePackage: string,
     @ActiveUser() user: ActiveUserInterface,
     @Res() res: Response,
+    @Query('sampleData', new ParseEnumPipe(SAMPLE_DATA_MODES, { optional: true })) sampleData?: SampleDataMode,
+    @Query('sampleRows', new ParseIntPipe({ optional: true })) sampleRows?: number,
   ) {
-    const zipBuffer = await this.diagramsService.generateSpringBootCode(
-      id,
-      { id: user.sub } as any,
-      projectName,
-      basePackage
+    const zipBuffer = await this.withSampleData(id, user, sampleData, sampleRows, options =>
+      this.diagramsService.generateSpringBootCode(
+        id,
+        { id: user.sub } as any,
+        projectName,
+        basePackage,
+        options
+      )
     );
 
     const filename = projectName || `diagram-${id}-springboot`;
@@ -95,19 +569,26 @@ export class DiagramsController {
   @Post(':id/generate-flutter')
   @ApiQuery({ name: 'projectName', required: false, description: 'Nombre del proyecto Flutter' })
   @ApiQuery({ name: 'basePackage', required: false, description: 'Paquete base (ej: com.example.app)' })
+  @ApiQuery({ name: 'sampleData', required: false, enum: Object.keys(SAMPLE_DATA_MODES), description: 'Incluye fixtures JSON con datos de ejemplo' })
+  @ApiQuery({ name: 'sampleRows', required: false, type: Number, description: `Registros por clase (máx. ${MAX_SEED_ROWS})` })
   async generateFlutterCode(
     @Param('id') id: number,
     @Query('projectName') projectName: string,
     @Query('basePackage') basePackage: string,
     @ActiveUser() user: ActiveUserInterface,
     @Res() res: Response,
+    @Query('sampleData', new ParseEnumPipe(SAMPLE_DATA_MODES, { optional: true })) sampleData?: SampleDataMode,
+    @Query('sampleRows', new ParseIntPipe({ optional: true })) sampleRows?: number,
   ) {
     try {
-      const zipBuffer = await this.diagramsService.generateFlutterCode(
-        id,
-        { id: user.sub } as any,
-        projectName,
-        basePackage
+      const zipBuffer = await this.withSampleData(id, user, sampleData, sampleRows, options =>
+        this.diagramsService.generateFlutterCode(
+          id,
+          { id: user.sub } as any,
+          projectName,
+          basePackage,
+          options
+        )
       );
 
       const filename = projectName || `diagram-${id}-flutter`;
@@ -120,8 +601,22 @@ export class DiagramsController {
 
       res.send(zipBuffer);
     } catch (error) {
+      if (error instanceof HttpException) throw error;
       throw new Error(`Error generating Flutter code: ${error.message}`);
     }
   }
 
+  // Con datos de la IA la generación corre como trabajo de IA (límite, plazo y cancelación)
+  private withSampleData(
+    id: number,
+    user: ActiveUserInterface,
+    mode: SampleDataMode | undefined,
+    rows: number | undefined,
+    generate: (options?: SampleDataOptions) => Promise<Buffer>,
+  ) {
+    if (!mode) return generate();
+    if (mode === 'basic') return generate({ rows, ai: false });
+    const job = this.diagramAiJobsService.start('seed', id, user.sub);
+    return this.diagramAiJobsService.run(job, signal => generate({ rows, signal }));
+  }
 }
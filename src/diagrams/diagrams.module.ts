@@ -1,6 +1,7 @@
 // src/diagrams/diagrams.module.ts
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { MulterModule } from '@nestjs/platform-express';
 import { DiagramsService } from './diagrams.service';
 import { DiagramsController } from './diagrams.controller';
 import { Diagram } from './entities/diagram.entity';
@@ -8,11 +9,46 @@ import { User } from 'src/users/entities/user.entity';
 import { AuthModule } from 'src/auth/auth.module';
 import { CodeGenerationService } from './code-generation.service';
 import { CodeGenerationFlutterService } from './code-generation-flutter.service';
+import { DiagramVersion } from './entities/diagram-version.entity';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { DiagramGateway } from './diagram.gateway';
+import { DiagramOperation } from './entities/diagram-operation.entity';
+import { DiagramOperationsService } from './diagram-operations.service';
+import { DiagramContentMigrationService } from './diagram-content-migration.service';
+import { DiagramPresenceService } from './diagram-presence.service';
+import { DiagramLocksService } from './diagram-locks.service';
+import { DiagramHistoryService } from './diagram-history.service';
+import { DiagramComment } from './entities/diagram-comment.entity';
+import { DiagramCommentsService } from './diagram-comments.service';
+import { DiagramCommentsController } from './diagram-comments.controller';
+import { DiagramShare } from './entities/diagram-share.entity';
+import { DiagramInvitation } from './entities/diagram-invitation.entity';
+import { DiagramInvitationsService } from './diagram-invitations.service';
+import { DiagramShareLink } from './entities/diagram-share-link.entity';
+import { DiagramShareLinksService } from './diagram-share-links.service';
+import { PublicDiagramsController } from './public-diagrams.controller';
+import { WorkspaceMember } from 'src/workspaces/entities/workspace-member.entity';
+import { DiagramFolder } from './entities/diagram-folder.entity';
+import { DiagramFoldersService } from './diagram-folders.service';
+import { DiagramFoldersController } from './diagram-folders.controller';
+import { DiagramTrashService } from './diagram-trash.service';
+import { DiagramTemplate } from './entities/diagram-template.entity';
+import { DiagramTemplatesService } from './diagram-templates.service';
+import { DiagramTemplatesController } from './diagram-templates.controller';
+import { DiagramProposal } from './entities/diagram-proposal.entity';
+import { DiagramProposalsService } from './diagram-proposals.service';
+import { DiagramChatSession } from './entities/diagram-chat-session.entity';
+import { DiagramChatMessage } from './entities/diagram-chat-message.entity';
+import { DiagramChatService } from './diagram-chat.service';
+import { DiagramChatController } from './diagram-chat.controller';
+import { DiagramAiJobsService } from './diagram-ai-jobs.service';
+import { diagramAiProviderFactory } from './ai/diagram-ai-provider.factory';
+import { aiAttachmentMulterOptions } from './ai/diagram-ai-attachments';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Diagram, User]), AuthModule],
-  controllers: [DiagramsController],
-  providers: [DiagramsService,CodeGenerationService,CodeGenerationFlutterService],
-  exports: [DiagramsService,CodeGenerationService,CodeGenerationFlutterService],
+  imports: [TypeOrmModule.forFeature([Diagram, DiagramVersion, DiagramOperation, DiagramComment, DiagramShare, DiagramInvitation, DiagramShareLink, DiagramFolder, DiagramTemplate, DiagramProposal, DiagramChatSession, DiagramChatMessage, WorkspaceMember, User]), forwardRef(() => AuthModule), MulterModule.registerAsync({ useFactory: aiAttachmentMulterOptions })],
+  controllers: [DiagramsController, DiagramCommentsController, PublicDiagramsController, DiagramFoldersController, DiagramTemplatesController, DiagramChatController],
+  providers: [DiagramsService,CodeGenerationService,CodeGenerationFlutterService,DiagramVersionsService,DiagramOperationsService,DiagramContentMigrationService,DiagramPresenceService,DiagramLocksService,DiagramHistoryService,DiagramCommentsService,DiagramInvitationsService,DiagramShareLinksService,DiagramFoldersService,DiagramTrashService,DiagramTemplatesService,DiagramProposalsService,DiagramChatService,DiagramAiJobsService,diagramAiProviderFactory,DiagramGateway],
+  exports: [DiagramsService,CodeGenerationService,CodeGenerationFlutterService,DiagramInvitationsService,DiagramGateway],
 })
 export class DiagramsModule {}
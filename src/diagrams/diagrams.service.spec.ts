@@ -0,0 +1,205 @@
+// src/diagrams/diagrams.service.spec.ts
+import { ConflictException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { WorkspaceMember } from 'src/workspaces/entities/workspace-member.entity';
+import { DIAGRAM_AI_PROVIDER } from './ai/diagram-ai-provider';
+import { StubAiProvider } from './ai/stub-ai.provider';
+import { CodeGenerationFlutterService } from './code-generation-flutter.service';
+import { CodeGenerationService } from './code-generation.service';
+import { DiagramFoldersService } from './diagram-folders.service';
+import { DiagramHistoryService } from './diagram-history.service';
+import { DiagramLocksService } from './diagram-locks.service';
+import { DiagramOperationsService } from './diagram-operations.service';
+import { DiagramPresenceService } from './diagram-presence.service';
+import { DiagramProposalsService } from './diagram-proposals.service';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { DiagramsService } from './diagrams.service';
+import { DiagramShare } from './entities/diagram-share.entity';
+import { Diagram } from './entities/diagram.entity';
+import { DiagramProposal } from './entities/diagram-proposal.entity';
+import { DiagramContent } from './schema/diagram-content.schema';
+import { DiagramContentValidationException, parseDiagramContent } from './schema/diagram-content.validator';
+import { DiagramOperationInput, applyOperation, invertOperation, touchedElements } from './utils/diagram-operations';
+import { DiagramSeedData } from './utils/diagram-seed-data';
+
+const user = { id: 1 } as User;
+
+const shop = (): DiagramContent => ({
+  version: 2,
+  elements: {
+    customer: {
+      name: 'Customer',
+      position: { x: 0, y: 0 },
+      attributes: [
+        { id: 'c_id', name: 'id', type: 'Long' },
+        { id: 'c_name', name: 'name', type: 'String' },
+      ],
+    },
+    order: {
+      name: 'Order',
+      position: { x: 300, y: 0 },
+      attributes: [
+        { id: 'o_id', name: 'id', type: 'Long' },
+        { id: 'o_total', name: 'total', type: 'Double' },
+      ],
+    },
+  },
+  relations: {
+    r1: { from: 'order', to: 'customer', type: 'ManyToOne' },
+  },
+});
+
+/**
+ * DiagramsService con el proveedor stub de la IA y el resto de dependencias
+ * en memoria: un solo diagrama del usuario, propuestas en un arreglo y un
+ * registro de operaciones que aplica cada operación sin transformarla.
+ */
+async function createService(content: DiagramContent) {
+  const stored = { id: 1, name: 'Tienda', owner: user, shares: [], workspace: null, revision: 0, content } as unknown as Diagram;
+  const proposals: DiagramProposal[] = [];
+  let seed: DiagramSeedData | undefined;
+
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      DiagramsService,
+      DiagramProposalsService,
+      DiagramLocksService,
+      DiagramHistoryService,
+      { provide: DIAGRAM_AI_PROVIDER, useValue: new StubAiProvider() },
+      {
+        provide: getRepositoryToken(Diagram),
+        useValue: {
+          findOne: () => Promise.resolve({ ...stored, content: structuredClone(stored.content) }),
+          update: (_id: number, changes: Partial<Diagram>) => Promise.resolve(Object.assign(stored, changes)),
+        },
+      },
+      {
+        provide: getRepositoryToken(DiagramProposal),
+        useValue: {
+          create: (data: Partial<DiagramProposal>) => ({ status: 'pending', ...data }),
+          save: (proposal: DiagramProposal) => {
+            proposals.push(Object.assign(proposal, { id: proposals.length + 1 }));
+            return Promise.resolve(proposal);
+          },
+          findOneBy: ({ id }: { id: number }) => Promise.resolve(proposals.find(proposal => proposal.id === id) ?? null),
+          update: () => Promise.resolve(),
+        },
+      },
+      {
+        provide: DiagramOperationsService,
+        useValue: {
+          commit: (diagramId: number, { op }: DiagramOperationInput) => {
+            const current = stored.content;
+            stored.content = parseDiagramContent(applyOperation(current, op));
+            stored.revision += 1;
+            return Promise.resolve({
+              opId: `op-${stored.revision}`,
+              revision: stored.revision,
+              op,
+              content: stored.content,
+              dropped: false,
+              duplicate: false,
+              inverse: invertOperation(current, op, stored.content),
+              touched: touchedElements(current, op, stored.content),
+            });
+          },
+        },
+      },
+      {
+        provide: CodeGenerationService,
+        useValue: {
+          generateSpringBootProject: (_content: DiagramContent, _name: string, _pkg: string, data?: DiagramSeedData) => {
+            seed = data;
+            return Promise.resolve(Buffer.from(''));
+          },
+        },
+      },
+      { provide: getRepositoryToken(User), useValue: {} },
+      { provide: getRepositoryToken(DiagramShare), useValue: {} },
+      { provide: getRepositoryToken(WorkspaceMember), useValue: {} },
+      { provide: CodeGenerationFlutterService, useValue: {} },
+      { provide: DiagramVersionsService, useValue: {} },
+      { provide: DiagramPresenceService, useValue: {} },
+      { provide: DiagramFoldersService, useValue: {} },
+    ],
+  }).compile();
+
+  return { service: moduleRef.get(DiagramsService), locks: moduleRef.get(DiagramLocksService), stored, proposals, seed: () => seed };
+}
+
+describe('DiagramsService con el proveedor stub', () => {
+  it('genera una propuesta y al aceptarla la aplica al diagrama', async () => {
+    const { service, stored } = await createService(shop());
+    const streamed: string[] = [];
+
+    const result = await service.generateDiagramFromPrompt(1, 'Producto y Categoria', user, 'merge', {
+      onText: text => streamed.push(text),
+    });
+
+    expect(streamed.join('')).toContain('Producto');
+    expect(stored.revision).toBe(0);
+    expect(result.attempts).toBe(1);
+    expect(Object.values(result.proposal.patch.elements).map(element => element?.name)).toEqual(['Producto', 'Categoria']);
+
+    const accepted = await service.acceptProposal(1, result.proposal.id, {}, user);
+
+    expect(accepted.proposal.status).toBe('accepted');
+    expect(stored.revision).toBe(1);
+    expect(Object.values(stored.content.elements).map(element => element.name)).toEqual(['Customer', 'Order', 'Producto', 'Categoria']);
+    expect(Object.values(stored.content.relations)).toContainEqual({ from: 'class_stub_0', to: 'class_stub_1', type: 'OneToMany' });
+    // La generación aceptada se puede deshacer como cualquier edición propia
+    expect((await service.findHistoryStatus(1, user)).canUndo).toBe(true);
+  });
+
+  it('la revisión del modelo devuelve los hallazgos estáticos sin errores de la IA', async () => {
+    const content = shop();
+    content.elements.order.attributes.push({ id: 'o_customer', name: 'customerId', type: 'Long' });
+    const { service, proposals } = await createService(content);
+
+    const review = await service.reviewDiagram(1, user);
+
+    expect(review.findings.length).toBeGreaterThan(0);
+    expect(review.findings.every(finding => finding.source === 'lint')).toBe(true);
+    expect(proposals.map(proposal => proposal.source)).toEqual(review.findings.filter(f => f.fix).map(() => 'review'));
+  });
+
+  it('aceptar una propuesta respeta los bloqueos de otros usuarios', async () => {
+    const content = shop();
+    content.elements.order.attributes.push({ id: 'o_customer', name: 'customerId', type: 'Long' });
+    const { service, locks, stored } = await createService(content);
+    const review = await service.reviewDiagram(1, user);
+    const finding = review.findings.find(f => f.fix && 'order' in f.fix.elements)!;
+
+    locks.acquire(1, 'order', 'class', { clientId: 'other', userId: 2, name: 'Ana' });
+    try {
+      await expect(service.acceptProposal(1, finding.proposalId!, {}, user)).rejects.toThrow(ConflictException);
+      expect(stored.revision).toBe(0);
+    } finally {
+      locks.releaseByClient('other');
+    }
+  });
+
+  it('no renombra el diagrama si el contenido nuevo es inválido', async () => {
+    const { service, stored } = await createService(shop());
+    const content = shop();
+    content.relations.r2 = { from: 'order', to: 'missing', type: 'ManyToOne' };
+
+    await expect(service.update(1, { name: 'Tienda 2', tags: ['ventas'], content }, user)).rejects.toThrow(DiagramContentValidationException);
+
+    expect(stored.name).toBe('Tienda');
+    expect(stored.revision).toBe(0);
+  });
+
+  it('los datos de ejemplo usan los valores de la IA y claves foráneas válidas', async () => {
+    const { service, seed } = await createService(shop());
+
+    await service.generateSpringBootCode(1, user, undefined, undefined, { rows: 2 });
+
+    const records = seed()!.records;
+    expect(records.customer.map(record => record.values.name)).toEqual(['name 1', 'name 2']);
+    expect(records.order.map(record => record.values.total)).toEqual([10.5, 21]);
+    expect(records.order.every(record => [1, 2].includes(record.references.r1 as number))).toBe(true);
+  });
+});
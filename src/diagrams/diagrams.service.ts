@@ -1,300 +1,1030 @@
 // src/diagrams/diagrams.service.ts
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Inject, Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { Diagram } from './entities/diagram.entity';
 import { CreateDiagramDto } from './dto/create-diagram.dto';
 import { User } from 'src/users/entities/user.entity';
 import { UpdateDiagramDto } from './dto/update-diagram.dto';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { CodeGenerationService } from './code-generation.service';
 import { CodeGenerationFlutterService } from './code-generation-flutter.service';
+import { DiagramContentValidationException, normalizeDiagramContent, parseDiagramContent, validateDiagramContent } from './schema/diagram-content.validator';
+import { DiagramVersionsService } from './diagram-versions.service';
+import { DiagramVersionSource } from './entities/diagram-version.entity';
+import { DiagramFolder } from './entities/diagram-folder.entity';
+import { MergeSide, mergeDiagramContent, threeWayMerge } from './utils/diagram-merge';
+import { DiagramContent, DiagramContentError } from './schema/diagram-content.schema';
+import { DiagramOperationsService } from './diagram-operations.service';
+import { DiagramOperationInput, applyOperation, patchBetween } from './utils/diagram-operations';
+import { DiagramPresenceService } from './diagram-presence.service';
+import { DiagramLocksService, LockHolder, LockKind } from './diagram-locks.service';
+import { DiagramHistoryService } from './diagram-history.service';
+import { DiagramShare, ShareRole } from './entities/diagram-share.entity';
+import { DiagramRole, assertCanAssign, hasRole, roleOf } from './utils/diagram-permissions';
+import { WorkspaceMember } from 'src/workspaces/entities/workspace-member.entity';
+import { DiagramFoldersService } from './diagram-folders.service';
+import { DiagramSortField, ListDiagramsQueryDto } from './dto/list-diagrams-query.dto';
+import { decodeCursor, encodeCursor } from './utils/cursor';
+import { cloneWithFreshIds } from './utils/diagram-copy';
+import { DIAGRAM_AI_PROVIDER, DiagramAiImage, DiagramAiMessage, DiagramAiProvider, DiagramAiRequest } from './ai/diagram-ai-provider';
+import { AiResponseParseError, DiagramRepair, buildRetryPrompt, createExplanationFilter, explanationOf, extractJson, reconcileDuplicateClasses, repairGeneratedContent } from './ai/diagram-ai-response';
+import { DiagramProposalsService } from './diagram-proposals.service';
+import { DiagramProposal, ProposalPatch } from './entities/diagram-proposal.entity';
+import { AcceptProposalDto } from './dto/accept-proposal.dto';
+import { DiagramDiff, diffDiagramContent } from './utils/diagram-diff';
+import { isEqual } from './utils/deep-equal';
+import { DiagramFinding, lintDiagramContent } from './utils/diagram-lint';
+import { parseReviewFindings } from './ai/diagram-ai-review';
+import { parseSeedSuggestion } from './ai/diagram-ai-seed';
+import { AiAttachmentInput, validateAiAttachments } from './ai/diagram-ai-attachments';
+import { DEFAULT_SEED_ROWS, DiagramSeedData, buildSeedData, foreignKeysOf, seedAttributesOf } from './utils/diagram-seed-data';
+
+// Relaciones necesarias para calcular el rol de un usuario con `roleOf`
+const ACCESS_RELATIONS = ['owner', 'shares', 'shares.user', 'workspace', 'workspace.members', 'workspace.members.user'];
+
+// Texto indexado en la búsqueda: nombre del diagrama y de sus clases y atributos
+const SEARCH_DOCUMENT = `diagram.name || ' ' || CAST(jsonb_path_query_array(diagram.content, '$.elements.*.name') AS text) || ' ' || CAST(jsonb_path_query_array(diagram.content, '$.elements.*.attributes[*].name') AS text)`;
+
+// Las fechas se truncan a milisegundos para que coincidan con el valor del cursor (Date de JS)
+const SORT_EXPRESSIONS: Record<DiagramSortField, string> = {
+  updatedAt: `date_trunc('milliseconds', diagram.updatedAt)`,
+  createdAt: `date_trunc('milliseconds', diagram.createdAt)`,
+  name: 'LOWER(diagram.name)',
+};
+
+// Compartido con el usuario directamente o a través de un workspace
+const SHARED_WITH_USER = `(EXISTS (SELECT 1 FROM diagram_shared_with_user s WHERE s."diagramId" = diagram.id AND s."userId" = :userId)
+  OR EXISTS (SELECT 1 FROM workspace_member m WHERE m."workspaceId" = diagram."workspaceId" AND m."userId" = :userId))`;
+
+// Intentos ante respuestas de la IA que no se pueden reparar (el primero + reintentos con los errores)
+const MAX_AI_ATTEMPTS = 3;
+
+export interface AiGenerationResult {
+  // Propuesta pendiente de revisión; el diagrama no se modifica hasta aceptarla
+  proposal: DiagramProposal;
+  diff: DiagramDiff;
+  // Correcciones aplicadas automáticamente a la respuesta de la IA
+  repairs: DiagramRepair[];
+  attempts: number;
+}
+
+export interface AiGenerationOptions {
+  // Recibe el texto del modelo a medida que llega
+  onText?: (text: string) => void;
+  // Cancela la generación (ver DiagramAiJobsService)
+  signal?: AbortSignal;
+}
+
+export interface FilesGenerationOptions extends AiGenerationOptions {
+  // Contexto adicional del usuario para la IA
+  prompt?: string;
+  mode?: 'replace' | 'merge';
+}
+
+export interface DiagramReview {
+  // Revisión del diagrama analizada
+  revision: number;
+  findings: DiagramFinding[];
+}
+
+export interface SampleDataOptions extends AiGenerationOptions {
+  // Registros por clase (ver MAX_SEED_ROWS)
+  rows?: number;
+  // false = valores deterministas, sin IA
+  ai?: boolean;
+}
+
+// Respuesta del asistente de modelado: explicación y, si cambia el diagrama, la propuesta
+export interface AiChatResult extends Partial<AiGenerationResult> {
+  explanation: string;
+}
+
+const normalizeTags = (tags: string[]) =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
 
 @Injectable()
 export class DiagramsService {
+  private readonly logger = new Logger(DiagramsService.name);
+
   constructor(
     @InjectRepository(Diagram)
     private readonly diagramsRepository: Repository<Diagram>,
     @InjectRepository(User)
     private readonly usersRepository: Repository<User>,
+    @InjectRepository(DiagramShare)
+    private readonly sharesRepository: Repository<DiagramShare>,
+    @InjectRepository(WorkspaceMember)
+    private readonly workspaceMembersRepository: Repository<WorkspaceMember>,
     private readonly codeGenerationService: CodeGenerationService,
     private readonly codeGenerationFlutterService: CodeGenerationFlutterService,
+    private readonly diagramVersionsService: DiagramVersionsService,
+    private readonly diagramOperationsService: DiagramOperationsService,
+    private readonly diagramPresenceService: DiagramPresenceService,
+    private readonly diagramLocksService: DiagramLocksService,
+    private readonly diagramHistoryService: DiagramHistoryService,
+    private readonly diagramFoldersService: DiagramFoldersService,
+    private readonly diagramProposalsService: DiagramProposalsService,
+    @Inject(DIAGRAM_AI_PROVIDER)
+    private readonly aiProvider: DiagramAiProvider,
   ) { }
 
   async create(createDiagramDto: CreateDiagramDto, user: User) {
+    const { workspaceId, folderId, tags, ...data } = createDiagramDto;
+    if (workspaceId !== undefined) {
+      const member = await this.workspaceMembersRepository.findOneBy({ workspaceId, userId: user.id });
+      if (!member) throw new ForbiddenException('You are not a member of this workspace');
+    }
+    if (folderId != null) await this.diagramFoldersService.findOne(folderId, user);
     const diagram = this.diagramsRepository.create({
-      ...createDiagramDto,
+      ...data,
+      content: parseDiagramContent(createDiagramDto.content ?? {}),
       owner: user,
+      workspace: workspaceId !== undefined ? { id: workspaceId } : null,
+      folder: folderId != null ? { id: folderId } : null,
+      tags: normalizeTags(tags ?? []),
     });
-    return this.diagramsRepository.save(diagram);
+    const saved = await this.diagramsRepository.save(diagram);
+    await this.diagramVersionsService.record(saved, user, 'create');
+    return saved;
   }
 
-  async findAllByUser(userId: number) {
-    return this.diagramsRepository.find({
-      where: [{ owner: { id: userId } }],
-      relations: ['owner'],
-    });
+  /**
+   * Copia el diagrama como diagrama personal del usuario, con IDs nuevos
+   * para clases, atributos y relaciones.
+   */
+  async duplicate(diagramId: number, user: User, name?: string) {
+    const source = await this.findOne(diagramId, user);
+    return this.create(
+      { name: name ?? `${source.name} (copia)`, content: cloneWithFreshIds(source.content), tags: source.tags },
+      user,
+    );
   }
 
-  async findShared(userId: number) {
-    return this.diagramsRepository
-      .createQueryBuilder("diagram")
-      .leftJoinAndSelect("diagram.owner", "owner")
-      .leftJoinAndSelect("diagram.sharedWith", "sharedWith")
-      .where("sharedWith.id = :userId", { userId })
+  /**
+   * Lista paginada por cursor de los diagramas accesibles para el usuario:
+   * propios, compartidos con él (directamente o por workspace) o ambos.
+   * Devuelve `nextCursor` null en la última página.
+   */
+  async search(userId: number, query: ListDiagramsQueryDto, scope: 'owned' | 'shared' | 'all' = 'owned') {
+    const sort = query.sort ?? 'updatedAt';
+    const order = query.order ?? (sort === 'name' ? 'ASC' : 'DESC');
+    const limit = query.limit ?? 20;
+    const sortExpression = SORT_EXPRESSIONS[sort];
+
+    const qb = this.diagramsRepository
+      .createQueryBuilder('diagram')
+      .leftJoinAndSelect('diagram.owner', 'owner')
+      .leftJoinAndSelect('diagram.folder', 'folder')
+      .setParameter('userId', userId);
+
+    if (scope === 'owned') qb.where('diagram."ownerId" = :userId');
+    else if (scope === 'shared') qb.where(`diagram."ownerId" != :userId AND ${SHARED_WITH_USER}`);
+    else qb.where(`(diagram."ownerId" = :userId OR ${SHARED_WITH_USER})`);
+
+    if (query.ownerId !== undefined) qb.andWhere('diagram."ownerId" = :ownerId', { ownerId: query.ownerId });
+    if (query.folderId === 0) qb.andWhere('diagram."folderId" IS NULL');
+    else if (query.folderId !== undefined) qb.andWhere('diagram."folderId" = :folderId', { folderId: query.folderId });
+
+    const tags = normalizeTags(query.tag ?? []);
+    if (tags.length > 0) qb.andWhere('diagram.tags @> CAST(ARRAY[:...tags] AS text[])', { tags });
+
+    const q = query.q?.trim();
+    if (q) {
+      // Búsqueda de texto completo y, para coincidencias parciales, por subcadena
+      qb.andWhere(
+        `(to_tsvector('simple', ${SEARCH_DOCUMENT}) @@ websearch_to_tsquery('simple', :q) OR ${SEARCH_DOCUMENT} ILIKE :like)`,
+        { q, like: `%${q.replace(/[\\%_]/g, '\\$&')}%` },
+      );
+    }
+
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor);
+      const value = sort === 'name' ? String(cursor.value) : new Date(cursor.value);
+      qb.andWhere(`(${sortExpression}, diagram.id) ${order === 'ASC' ? '>' : '<'} (:cursorValue, :cursorId)`, {
+        cursorValue: value,
+        cursorId: cursor.id,
+      });
+    }
+
+    const diagrams = await qb
+      .orderBy(sortExpression, order)
+      .addOrderBy('diagram.id', order)
+      .limit(limit + 1)
       .getMany();
+
+    const page = diagrams.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = diagrams.length > limit
+      ? encodeCursor({ value: sort === 'name' ? last.name.toLowerCase() : last[sort].toISOString(), id: last.id })
+      : null;
+
+    const roles = await this.findRoles(page.filter(d => d.owner.id !== userId).map(d => d.id), userId);
+    return {
+      items: page.map(diagram => ({
+        ...diagram,
+        role: diagram.owner.id === userId ? 'owner' : roles.get(diagram.id),
+      })),
+      nextCursor,
+    };
   }
 
-  async findOne(id: number, user: User) {
+  /**
+   * Carga el diagrama y el rol del usuario sobre él. Lanza 403 si no tiene
+   * acceso o si su rol es menor que `required`.
+   */
+  async findAccess(id: number, user: User, required: DiagramRole = 'viewer') {
     const diagram = await this.diagramsRepository.findOne({
       where: { id },
-      relations: ['owner', 'sharedWith'],
+      relations: ACCESS_RELATIONS,
     });
     if (!diagram) throw new NotFoundException('Diagram not found');
-    const hasAccess =
-      diagram.owner.id === user.id ||
-      diagram.sharedWith.some((u) => u.id === user.id);
-    if (!hasAccess) throw new ForbiddenException('Access denied');
-    return diagram;
+    const role = roleOf(diagram, user.id);
+    if (!role) throw new ForbiddenException('Access denied');
+    if (!hasRole(role, required)) {
+      throw new ForbiddenException(`This action requires ${required} access (current role: ${role})`);
+    }
+    // Diagramas antiguos pueden no tener versión ni colecciones vacías
+    diagram.content = normalizeDiagramContent(diagram.content);
+    return { diagram, role };
   }
 
-  async update(id: number, updateDiagramDto: UpdateDiagramDto, user: User) {
-    const diagram = await this.findOne(id, user);
-    Object.assign(diagram, updateDiagramDto);
-    return this.diagramsRepository.save(diagram);
+  async findOne(id: number, user: User, required: DiagramRole = 'viewer') {
+    const { diagram } = await this.findAccess(id, user, required);
+    return diagram;
   }
 
-  async remove(id: number, user: User) {
-    const diagram = await this.findOne(id, user);
-    return this.diagramsRepository.softRemove(diagram);
+  /**
+   * Rol actual del usuario sobre cada diagrama (`null` si ya no tiene acceso),
+   * sin lanzar excepciones. Se usa tras cambios de colaboradores o de
+   * miembros de un workspace para saber a quién hay que expulsar de la sala.
+   */
+  async findRoles(diagramIds: number[], userId: number) {
+    const roles = new Map<number, DiagramRole | null>();
+    if (diagramIds.length === 0) return roles;
+    const diagrams = await this.diagramsRepository.find({
+      where: { id: In(diagramIds) },
+      relations: ACCESS_RELATIONS,
+    });
+    for (const id of diagramIds) {
+      const diagram = diagrams.find(d => d.id === id);
+      roles.set(id, diagram ? roleOf(diagram, userId) : null);
+    }
+    return roles;
   }
 
-  
+  async update(id: number, updateDiagramDto: UpdateDiagramDto, user: User) {
+    const diagram = await this.findOne(id, user, 'editor');
 
-  async shareDiagram(diagramId: number, userId: number, owner: User) {
-    const diagram = await this.findOne(diagramId, owner);
-    if (diagram.owner.id !== owner.id) {
-      throw new ForbiddenException('Only the owner can share the diagram');
+    // Primero lo que puede rechazar la petición (carpeta, contenido inválido o
+    // bloqueado); los metadatos se escriben solo si todo eso pasó. Las carpetas
+    // son personales: solo el propietario archiva el diagrama
+    let folder: DiagramFolder | null | undefined;
+    if (updateDiagramDto.folderId !== undefined) {
+      if (diagram.owner.id !== user.id) throw new ForbiddenException('Only the owner can move the diagram to a folder');
+      folder = updateDiagramDto.folderId === null ? null : await this.diagramFoldersService.findOne(updateDiagramDto.folderId, user);
+    }
+    if (updateDiagramDto.content) {
+      await this.commitOperation(diagram, { op: { type: 'diagram:replace', content: updateDiagramDto.content } }, user);
     }
 
-    const userToShare = await this.usersRepository.findOneBy({ id: userId });
-    if (!userToShare) throw new NotFoundException('User to share not found');
+    if (updateDiagramDto.name !== undefined && updateDiagramDto.name !== diagram.name) {
+      await this.diagramsRepository.update(id, { name: updateDiagramDto.name });
+      diagram.name = updateDiagramDto.name;
+    }
+    if (updateDiagramDto.tags !== undefined) {
+      diagram.tags = normalizeTags(updateDiagramDto.tags);
+      await this.diagramsRepository.update(id, { tags: diagram.tags });
+    }
+    if (folder !== undefined) {
+      await this.diagramsRepository.update(id, { folder: folder ? { id: folder.id } : null });
+      diagram.folder = folder;
+    }
+    return diagram;
+  }
 
-    diagram.sharedWith.push(userToShare);
-    return this.diagramsRepository.save(diagram);
+  /**
+   * Aplica una operación de edición (agregar clase, mover, renombrar atributo...)
+   * a través del registro de operaciones, que la serializa, la transforma
+   * contra cambios concurrentes y le asigna una revisión.
+   */
+  async applyOperation(diagramId: number, input: DiagramOperationInput, user: User) {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    return this.commitOperation(diagram, input, user);
   }
 
-  async updateElement(diagramId: number, elementId: string, elementData: any, user: User) {
+  async findOperationsSince(diagramId: number, revision: number, user: User) {
     const diagram = await this.findOne(diagramId, user);
-    if (!diagram.content.elements) diagram.content.elements = {};
-    diagram.content.elements[elementId] = {
-      ...diagram.content.elements[elementId],
-      ...elementData,
+    return {
+      revision: diagram.revision,
+      operations: await this.diagramOperationsService.findSince(diagramId, revision),
     };
-    return this.diagramsRepository.save(diagram);
   }
 
-  async moveElement(diagramId: number, elementId: string, position: { x: number; y: number }, user: User) {
-    return this.updateElement(diagramId, elementId, { position }, user);
+  async findPresence(diagramId: number, user: User) {
+    await this.findOne(diagramId, user);
+    return this.diagramPresenceService.roster(diagramId);
   }
 
-  async addAttribute(
-    diagramId: number,
-    classId: string,
-    attribute: { name: string; type: string },
-    user: User,
-  ) {
+  // ---------- Bloqueos de edición ----------
+
+  async lockElement(diagramId: number, elementId: string, kind: LockKind, holder: LockHolder, user: User) {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    const exists = kind === 'class' ? diagram.content.elements[elementId] : diagram.content.relations[elementId];
+    if (!exists) throw new NotFoundException(kind === 'class' ? 'Class not found in diagram' : 'Relation not found in diagram');
+    return this.diagramLocksService.acquire(diagramId, elementId, kind, holder);
+  }
+
+  /**
+   * Pone al día a un cliente que se reconecta con su última revisión conocida.
+   */
+  async resync(diagramId: number, lastRevision: number, user: User) {
     const diagram = await this.findOne(diagramId, user);
-    if (!diagram.content.elements?.[classId]) {
-      throw new NotFoundException('Class not found in diagram');
-    }
-    if (!diagram.content.elements[classId].attributes) {
-      diagram.content.elements[classId].attributes = [];
-    }
-    diagram.content.elements[classId].attributes.push(attribute);
-    return this.diagramsRepository.save(diagram);
+    return this.diagramOperationsService.catchUp(diagram, lastRevision);
   }
 
-  async updateAttribute(
-    diagramId: number,
-    classId: string,
-    attrIndex: number,
-    newData: { name?: string; type?: string },
+  /**
+   * Único punto de escritura del contenido: toda modificación pasa por el
+   * registro de operaciones, que valida contra el esquema antes de persistir
+   * y deja un snapshot en el historial de versiones.
+   *
+   * `history` indica si la operación es un cambio nuevo o la aplicación de un
+   * deshacer/rehacer, para apilar su inversa donde corresponde.
+   */
+  private async commitOperation(
+    diagram: Diagram,
+    input: DiagramOperationInput,
     user: User,
+    source: DiagramVersionSource = 'edit',
+    versionOptions: { restoredFrom?: number } = {},
+    history: 'record' | 'undo' | 'redo' = 'record',
   ) {
-    const diagram = await this.findOne(diagramId, user);
-    const classElem = diagram.content.elements?.[classId];
-    if (!classElem || !classElem.attributes?.[attrIndex]) {
-      throw new NotFoundException('Attribute not found');
+    // Toda escritura respeta los bloqueos de otros usuarios: ediciones, propuestas
+    // aceptadas, restauraciones y fusiones (para estas solo cuenta si el elemento cambia)
+    this.diagramLocksService.assertWritable(diagram.id, input.op, user.id, diagram.content);
+    const operation = await this.diagramOperationsService.commit(diagram.id, input, user, source, versionOptions);
+    diagram.content = operation.content;
+    diagram.revision = operation.revision;
+
+    if (operation.inverse && operation.touched && !operation.dropped && !operation.duplicate) {
+      const entry = { inverse: operation.inverse, touched: operation.touched, revision: operation.revision };
+      if (history === 'undo') {
+        this.diagramHistoryService.push(diagram.id, user.id, 'redo', entry, operation.content);
+      } else if (history === 'redo') {
+        this.diagramHistoryService.push(diagram.id, user.id, 'undo', entry, operation.content);
+      } else if (source === 'edit' || source === 'ai') {
+        this.diagramHistoryService.push(diagram.id, user.id, 'undo', entry, operation.content);
+        this.diagramHistoryService.clearRedo(diagram.id, user.id);
+      }
     }
-    classElem.attributes[attrIndex] = { ...classElem.attributes[attrIndex], ...newData };
-    return this.diagramsRepository.save(diagram);
+
+    return { diagram, operation };
   }
 
-  async removeAttribute(
-    diagramId: number,
-    classId: string,
-    attrIndex: number,
-    user: User,
-  ) {
-    const diagram = await this.findOne(diagramId, user);
-    const classElem = diagram.content.elements?.[classId];
-    if (!classElem || !classElem.attributes?.[attrIndex]) {
-      throw new NotFoundException('Attribute not found');
+  // ---------- Deshacer / rehacer ----------
+
+  /**
+   * Revierte el último cambio propio del usuario en el diagrama (ediciones y
+   * generaciones de la IA). Nunca revierte cambios de otros usuarios: si alguien
+   * modificó después los mismos elementos, el cambio se descarta con un 409.
+   */
+  undo(diagramId: number, user: User) {
+    return this.replayHistory(diagramId, user, 'undo');
+  }
+
+  redo(diagramId: number, user: User) {
+    return this.replayHistory(diagramId, user, 'redo');
+  }
+
+  async findHistoryStatus(diagramId: number, user: User) {
+    await this.findOne(diagramId, user);
+    return this.diagramHistoryService.status(diagramId, user.id);
+  }
+
+  private async replayHistory(diagramId: number, user: User, from: 'undo' | 'redo') {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    const entry = this.diagramHistoryService.pop(diagramId, user.id, from);
+    if (!entry) throw new BadRequestException(from === 'undo' ? 'Nothing to undo' : 'Nothing to redo');
+
+    if (!this.diagramHistoryService.isIntact(entry, diagram.content)) {
+      throw new ConflictException({
+        statusCode: 409,
+        message: `The affected elements were changed by another user; the change can no longer be ${from === 'undo' ? 'undone' : 'redone'}`,
+        classes: entry.touched.classes,
+        relations: entry.touched.relations,
+      });
     }
-    classElem.attributes.splice(attrIndex, 1);
-    return this.diagramsRepository.save(diagram);
+
+    const result = await this.commitOperation(diagram, { op: entry.inverse }, user, 'edit', {}, from);
+    return { ...result, history: this.diagramHistoryService.status(diagramId, user.id) };
   }
 
-  async addClass(
-    diagramId: number,
-    classId: string,
-    classData: { name: string; position: { x: number; y: number }; attributes?: any[] },
-    user: User,
-  ) {
-    const diagram = await this.findOne(diagramId, user);
-    if (!diagram.content.elements) diagram.content.elements = {};
-    if (diagram.content.elements[classId]) {
-      throw new Error('Class already exists');
+  // ---------- Historial de versiones ----------
+
+  async findVersions(diagramId: number, user: User) {
+    await this.findOne(diagramId, user);
+    return this.diagramVersionsService.findAll(diagramId);
+  }
+
+  async findVersion(diagramId: number, versionNumber: number, user: User) {
+    await this.findOne(diagramId, user);
+    return this.diagramVersionsService.findOne(diagramId, versionNumber);
+  }
+
+  async diffVersions(diagramId: number, fromNumber: number, toNumber: number, user: User) {
+    await this.findOne(diagramId, user);
+    return this.diagramVersionsService.diff(diagramId, fromNumber, toNumber);
+  }
+
+  async restoreVersion(diagramId: number, versionNumber: number, user: User) {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    const version = await this.diagramVersionsService.findOne(diagramId, versionNumber);
+    const { operation } = await this.commitOperation(
+      diagram,
+      { op: { type: 'diagram:replace', content: version.content } },
+      user,
+      'restore',
+      { restoredFrom: version.number },
+    );
+    return { diagram, operation };
+  }
+
+  // ---------- Checkpoints ----------
+
+  async findCheckpoints(diagramId: number, user: User) {
+    await this.findOne(diagramId, user);
+    return this.diagramVersionsService.findCheckpoints(diagramId);
+  }
+
+  /**
+   * Etiqueta una versión existente o, si no se indica, el estado actual del diagrama.
+   */
+  async createCheckpoint(diagramId: number, name: string, user: User, versionNumber?: number) {
+    await this.findOne(diagramId, user, 'editor');
+    if (versionNumber) {
+      return this.diagramVersionsService.setLabel(diagramId, versionNumber, name);
     }
-    diagram.content.elements[classId] = { ...classData, attributes: classData.attributes || [] };
-    return this.diagramsRepository.save(diagram);
+    return this.diagramOperationsService.checkpoint(diagramId, user, name);
   }
 
-  async removeClass(
-    diagramId: number,
-    classId: string,
+  async removeCheckpoint(diagramId: number, versionNumber: number, user: User) {
+    await this.findOne(diagramId, user, 'editor');
+    return this.diagramVersionsService.setLabel(diagramId, versionNumber, null);
+  }
+
+  // ---------- Ramas ----------
+
+  async findBranches(diagramId: number, user: User) {
+    await this.findOne(diagramId, user);
+    return this.diagramsRepository.find({
+      where: { parent: { id: diagramId } },
+      relations: ['owner'],
+    });
+  }
+
+  /**
+   * Crea una copia editable del diagrama que recuerda su punto de bifurcación.
+   */
+  async createBranch(diagramId: number, name: string, user: User) {
+    const source = await this.findOne(diagramId, user);
+    const branch = this.diagramsRepository.create({
+      name,
+      content: source.content,
+      branchBase: source.content,
+      parent: { id: source.id },
+      owner: user,
+      // La rama queda en el mismo workspace para que el equipo pueda verla
+      workspace: source.workspace ? { id: source.workspace.id } : null,
+    });
+    const saved = await this.diagramsRepository.save(branch);
+    await this.diagramVersionsService.record(saved, user, 'create');
+    return saved;
+  }
+
+  /**
+   * Fusiona la rama en su diagrama padre con una fusión de tres vías.
+   * Si quedan conflictos sin resolver no se guarda nada y se devuelven en un 409.
+   */
+  async mergeBranch(
+    branchId: number,
     user: User,
+    resolutions: Record<string, MergeSide> = {},
+    dryRun = false,
   ) {
-    const diagram = await this.findOne(diagramId, user);
-    if (!diagram.content.elements?.[classId]) {
-      throw new Error('Class not found');
+    const branch = await this.findOne(branchId, user);
+    const { parent } = (await this.diagramsRepository.findOne({
+      where: { id: branchId },
+      relations: ['parent'],
+    }))!;
+    if (!parent || !branch.branchBase) {
+      throw new BadRequestException('Diagram is not a branch');
     }
+    const target = await this.findOne(parent.id, user, 'editor');
 
-    // Eliminar relaciones asociadas a esta clase
-    if (diagram.content.relations) {
-      for (const relId of Object.keys(diagram.content.relations)) {
-        const rel = diagram.content.relations[relId];
-        if (rel.from === classId || rel.to === classId) {
-          delete diagram.content.relations[relId];
-        }
-      }
+    const result = threeWayMerge(
+      normalizeDiagramContent(branch.branchBase),
+      target.content,
+      branch.content,
+      resolutions,
+    );
+
+    if (dryRun) return { ...result, diagram: null, operation: null };
+    if (result.conflicts.length > 0) {
+      throw new ConflictException({
+        statusCode: 409,
+        message: 'Merge has unresolved conflicts',
+        conflicts: result.conflicts,
+      });
     }
 
-    delete diagram.content.elements[classId];
-    return this.diagramsRepository.save(diagram);
+    const { operation } = await this.commitOperation(
+      target,
+      { op: { type: 'diagram:replace', content: result.content } },
+      user,
+      'merge',
+    );
+
+    // El contenido de la rama pasa a ser la nueva base común
+    await this.diagramsRepository.update(branch.id, { branchBase: branch.content });
+
+    return { ...result, diagram: target, operation };
   }
 
-  async addRelation(
-    diagramId: number,
-    relationId: string,
-    relationData: { from: string; to: string; type: string },
-    user: User,
-  ) {
-    const diagram = await this.findOne(diagramId, user);
-    if (!diagram.content.relations) diagram.content.relations = {};
-    if (diagram.content.relations[relationId]) {
-      throw new Error('Relation already exists');
+  /**
+   * Envía el diagrama a la papelera (ver DiagramTrashService).
+   */
+  async remove(id: number, user: User) {
+    const diagram = await this.findOne(id, user, 'owner');
+    return this.diagramsRepository.softRemove(diagram);
+  }
+
+  // ---------- Colaboradores ----------
+
+  /**
+   * Comparte el diagrama con un usuario o cambia su rol si ya lo tenía.
+   * Solo el propietario puede otorgar o quitar el rol co_owner.
+   */
+  async shareDiagram(diagramId: number, userId: number, owner: User, role: ShareRole = 'editor') {
+    const { diagram, role: actorRole } = await this.findAccess(diagramId, owner, 'co_owner');
+    if (diagram.owner.id === userId) throw new BadRequestException('The owner already has full access');
+
+    const userToShare = await this.usersRepository.findOneBy({ id: userId });
+    if (!userToShare) throw new NotFoundException('User to share not found');
+
+    const existing = diagram.shares.find(share => share.userId === userId);
+    assertCanAssign(actorRole, role, existing?.role);
+
+    await this.sharesRepository.save({ diagramId, userId, role });
+    return this.findOne(diagramId, owner);
+  }
+
+  async updateCollaboratorRole(diagramId: number, userId: number, role: ShareRole, user: User) {
+    const { diagram, role: actorRole } = await this.findAccess(diagramId, user, 'co_owner');
+    const share = diagram.shares.find(s => s.userId === userId);
+    if (!share) throw new NotFoundException('User is not a collaborator of this diagram');
+    assertCanAssign(actorRole, role, share.role);
+
+    await this.sharesRepository.update({ diagramId, userId }, { role });
+    return { ...share, role };
+  }
+
+  /**
+   * Transfiere la propiedad a otro usuario; el propietario anterior queda como co_owner.
+   */
+  async transferOwnership(diagramId: number, userId: number, owner: User) {
+    const diagram = await this.findOne(diagramId, owner, 'owner');
+    if (userId === owner.id) throw new BadRequestException('You already own this diagram');
+
+    const newOwner = await this.usersRepository.findOneBy({ id: userId });
+    if (!newOwner) throw new NotFoundException('User not found');
+
+    await this.diagramsRepository.manager.transaction(async manager => {
+      await manager.update(Diagram, diagramId, { owner: { id: userId } });
+      await manager.delete(DiagramShare, { diagramId, userId });
+      await manager.save(DiagramShare, { diagramId, userId: owner.id, role: 'co_owner' });
+    });
+    return this.findOne(diagramId, newOwner);
+  }
+
+  /**
+   * Quita el acceso de un colaborador. Cualquiera puede retirarse a sí mismo;
+   * quitar a otros requiere administrar el diagrama.
+   */
+  async unshareDiagram(diagramId: number, userId: number, user: User) {
+    const { diagram, role: actorRole } = await this.findAccess(diagramId, user);
+    const share = diagram.shares.find(s => s.userId === userId);
+    if (!share) throw new NotFoundException('User is not a collaborator of this diagram');
+
+    if (userId !== user.id) {
+      if (!hasRole(actorRole, 'co_owner')) throw new ForbiddenException('Only diagram owners can remove collaborators');
+      assertCanAssign(actorRole, null, share.role);
     }
-    diagram.content.relations[relationId] = relationData;
-    return this.diagramsRepository.save(diagram);
+
+    await this.sharesRepository.delete({ diagramId, userId });
+    return share;
   }
 
-  async updateRelation(
-    diagramId: number,
-    relationId: string,
-    relationData: Partial<{ from: string; to: string; type: string }>,
-    user: User,
-  ) {
+  async findCollaborators(diagramId: number, user: User) {
     const diagram = await this.findOne(diagramId, user);
-    
-    // ✅ Verificar si existe antes de intentar actualizar
-    if (!diagram.content.relations?.[relationId]) {
-      console.warn(`Relation ${relationId} not found for update, may have been removed`);
-      return diagram; // Retornar sin error
-    }
-    
-    diagram.content.relations[relationId] = {
-      ...diagram.content.relations[relationId],
-      ...relationData,
+    const summary = ({ id, name, email }: User) => ({ id, name, email });
+    return {
+      owner: summary(diagram.owner),
+      collaborators: diagram.shares.map(share => ({
+        ...summary(share.user),
+        role: share.role,
+        since: share.createdAt,
+      })),
     };
-    return this.diagramsRepository.save(diagram);
   }
 
-  async removeRelation(diagramId: number, relationId: string, user: User) {
-    const diagram = await this.findOne(diagramId, user);
-    
-    // ✅ Verificar si existe antes de intentar eliminar
-    if (!diagram.content.relations?.[relationId]) {
-      console.warn(`Relation ${relationId} already removed or doesn't exist`);
-      return diagram; // Retornar sin error
+  // ---------- Propuestas de la IA ----------
+
+  async findProposals(diagramId: number, user: User) {
+    await this.findOne(diagramId, user, 'editor');
+    return this.diagramProposalsService.findPending(diagramId, user.id);
+  }
+
+  /**
+   * Propuesta con la vista previa del diagrama si se aceptara completa, el
+   * diff contra el contenido actual y los elementos que otros usuarios
+   * modificaron desde que se generó (`conflicts`).
+   */
+  async findProposal(diagramId: number, proposalId: number, user: User) {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    const proposal = await this.diagramProposalsService.findOne(diagramId, proposalId, user.id);
+    const preview = applyOperation(diagram.content, { type: 'diagram:patch', ...proposal.patch });
+    return {
+      ...proposal,
+      preview,
+      diff: diffDiagramContent(diagram.content, preview),
+      stale: proposal.baseRevision !== diagram.revision,
+      conflicts: this.proposalConflicts(diagram.content, proposal, Object.keys(proposal.patch.elements), Object.keys(proposal.patch.relations)),
+    };
+  }
+
+  /**
+   * Aplica las clases y relaciones elegidas de la propuesta (todas si no se
+   * indican) como una sola operación. Si otro usuario cambió alguna desde que
+   * se generó responde 409, salvo con `force`. Las relaciones cuyos extremos
+   * no existirían tras aplicar la selección se omiten y se informan en `skipped`.
+   */
+  async acceptProposal(diagramId: number, proposalId: number, dto: AcceptProposalDto, user: User) {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    const proposal = await this.diagramProposalsService.findOne(diagramId, proposalId, user.id);
+    if (proposal.status !== 'pending') throw new ConflictException(`Proposal already ${proposal.status}`);
+
+    const classes = [...new Set(dto.classes ?? Object.keys(proposal.patch.elements))];
+    const relations = [...new Set(dto.relations ?? Object.keys(proposal.patch.relations))];
+    const unknown = [
+      ...classes.filter(id => !(id in proposal.patch.elements)),
+      ...relations.filter(id => !(id in proposal.patch.relations)),
+    ];
+    if (unknown.length > 0) throw new BadRequestException(`Not part of the proposal: ${unknown.join(', ')}`);
+
+    const conflicts = this.proposalConflicts(diagram.content, proposal, classes, relations);
+    if (!dto.force && conflicts.classes.length + conflicts.relations.length > 0) {
+      throw new ConflictException({
+        statusCode: 409,
+        message: 'Some of the selected elements were changed after the proposal was generated',
+        ...conflicts,
+      });
     }
-    
-    delete diagram.content.relations[relationId];
-    return this.diagramsRepository.save(diagram);
+
+    const patch: ProposalPatch = { elements: {}, relations: {} };
+    for (const id of classes) patch.elements[id] = proposal.patch.elements[id];
+    const exists = (classId: string) =>
+      classId in patch.elements ? patch.elements[classId] !== null : classId in diagram.content.elements;
+    const skipped: string[] = [];
+    for (const id of relations) {
+      const relation = proposal.patch.relations[id];
+      if (relation && (!exists(relation.from) || !exists(relation.to))) skipped.push(id);
+      else patch.relations[id] = relation;
+    }
+    if (Object.keys(patch.elements).length + Object.keys(patch.relations).length === 0) {
+      throw new BadRequestException('Nothing to apply from the proposal');
+    }
+
+    const result = await this.commitOperation(diagram, { op: { type: 'diagram:patch', ...patch } }, user, 'ai');
+    await this.diagramProposalsService.resolve(proposal, 'accepted', {
+      classes: Object.keys(patch.elements),
+      relations: Object.keys(patch.relations),
+    });
+    return { ...result, proposal, skipped };
   }
-  
+
+  async rejectProposal(diagramId: number, proposalId: number, user: User) {
+    await this.findOne(diagramId, user, 'editor');
+    const proposal = await this.diagramProposalsService.findOne(diagramId, proposalId, user.id);
+    if (proposal.status !== 'pending') throw new ConflictException(`Proposal already ${proposal.status}`);
+    return this.diagramProposalsService.resolve(proposal, 'rejected');
+  }
+
+  // Elementos elegidos cuyo estado actual ya no es el que tenían al generarse la propuesta
+  private proposalConflicts(content: DiagramContent, proposal: DiagramProposal, classes: string[], relations: string[]) {
+    return {
+      classes: classes.filter(id => !isEqual(content.elements[id] ?? null, proposal.before.elements[id])),
+      relations: relations.filter(id => !isEqual(content.relations[id] ?? null, proposal.before.relations[id])),
+    };
+  }
+
   async generateDiagramFromPrompt(
     diagramId: number,
     prompt: string,
     user: User,
     mode: 'replace' | 'merge' = 'merge', // ✅ Nuevo parámetro
-  ): Promise<Diagram> {
-    console.log('Generating diagram from prompt:', prompt);
-    const diagram = await this.findOne(diagramId, user);
-    
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY ?? '');
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    options: AiGenerationOptions = {},
+  ): Promise<AiGenerationResult> {
+    const diagram = await this.findOne(diagramId, user, 'editor');
 
     // ✅ Pasar el diagrama actual al prompt
     const systemPrompt = this.buildDiagramPrompt(prompt, diagram.content);
-    console.log(systemPrompt);
-    const result = await model.generateContent(systemPrompt);
-    const text = result.response.text();
+    return this.generateWithAi(diagram, { prompt: systemPrompt, signal: options.signal }, user, mode, { source: 'prompt', prompt }, options.onText);
+  }
 
-    const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || 
-                      text.match(/{[\s\S]*}/);
-    
-    if (!jsonMatch) {
-      throw new Error('No se pudo extraer JSON de la respuesta');
+  /**
+   * Turno del asistente de modelado: envía el mensaje con la conversación
+   * previa, reenvía la explicación (sin el JSON) a `onText` a medida que llega
+   * y, si la respuesta trae cambios, los deja como propuesta (ver generateWithAi).
+   */
+  async generateDiagramFromChat(
+    diagramId: number,
+    message: string,
+    history: DiagramAiMessage[],
+    user: User,
+    mode: 'replace' | 'merge' = 'merge',
+    { onText = () => { }, signal }: AiGenerationOptions = {},
+  ): Promise<AiChatResult> {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    const request: DiagramAiRequest = { prompt: this.buildChatPrompt(message, diagram.content, mode), history, signal };
+
+    const filter = createExplanationFilter(onText);
+    for await (const chunk of this.aiProvider.stream(request)) filter.push(chunk);
+    const text = filter.end();
+    const explanation = explanationOf(text);
+
+    // Respuesta solo de texto (preguntas sobre el modelo): no hay cambios que proponer
+    if (!text.includes('{')) return { explanation };
+
+    const result = await this.generateWithAi(diagram, request, user, mode, { source: 'chat', prompt: message }, undefined, text);
+    return { ...result, explanation: explanation || 'Propuesta de cambios al diagrama.' };
+  }
+
+  private buildChatPrompt(message: string, content: DiagramContent, mode: 'replace' | 'merge') {
+    return `
+  Eres un asistente de modelado de diagramas de clases UML. Continúa la conversación
+  con el usuario sobre el diagrama actual:
+  ${JSON.stringify(content, null, 2)}
+
+  Petición del usuario: "${message}"
+
+  Responde primero con una explicación breve, en el idioma del usuario, de lo que
+  cambias y por qué. Si hay que modificar el diagrama, agrega después un bloque
+  \`\`\`json con ${mode === 'replace'
+    ? 'el diagrama completo resultante (las clases y relaciones que omitas se eliminan)'
+    : 'solo las clases y relaciones nuevas o modificadas'}, con la misma estructura
+  { "elements": { ... }, "relations": { ... } }. Si el usuario solo pregunta algo,
+  responde únicamente con texto, sin JSON.
+
+  Reglas:
+  - Conserva los IDs de las clases, relaciones y atributos existentes
+  - Cada clase debe tener un atributo "id" de tipo Long
+  - Tipos de datos: String, Integer, Long, Double, Float, Boolean, Date, LocalDate, LocalDateTime, BigDecimal
+  - Tipos de relación: OneToMany, ManyToOne, ManyToMany, OneToOne, Inheritance, Aggregation, Composition
+  `;
+  }
+
+  /**
+   * Pide el diagrama a la IA, extrae y repara el JSON y lo valida contra el
+   * esquema (ya fusionado con el contenido actual en modo merge). Si no se
+   * puede reparar, reintenta indicando los errores al modelo; agotados los
+   * intentos lanza `DiagramContentValidationException` con los últimos errores.
+   * El texto del modelo se recibe por streaming y se reenvía a `onText`;
+   * `firstResponse` es la respuesta ya obtenida del primer intento (chat).
+   *
+   * El resultado no se escribe en el diagrama: queda como propuesta con las
+   * clases y relaciones que cambia, para que el usuario la revise y acepte.
+   */
+  private async generateWithAi(
+    diagram: Diagram,
+    request: DiagramAiRequest,
+    user: User,
+    mode: 'replace' | 'merge',
+    origin: { source: DiagramProposal['source']; prompt: string },
+    onText?: (text: string) => void,
+    firstResponse?: string,
+  ): Promise<AiGenerationResult> {
+    let prompt = request.prompt;
+    let errors: DiagramContentError[] = [];
+
+    for (let attempt = 1; attempt <= MAX_AI_ATTEMPTS; attempt++) {
+      const text = attempt === 1 && firstResponse !== undefined
+        ? firstResponse
+        : await this.streamText({ ...request, prompt }, onText);
+      try {
+        const { content, repairs } = reconcileDuplicateClasses(
+          repairGeneratedContent(extractJson(text), diagram.content, mode),
+          diagram.content,
+          mode,
+        );
+        const candidate = mode === 'replace' ? content : mergeDiagramContent(diagram.content, content);
+        errors = validateDiagramContent(normalizeDiagramContent(candidate));
+
+        if (errors.length === 0) {
+          if (repairs.length > 0) this.logger.debug(`${repairs.length} corrección(es) a la respuesta de la IA del diagrama ${diagram.id}`);
+          // Cancelada mientras se procesaba la respuesta: no se guarda la propuesta
+          request.signal?.throwIfAborted();
+          const proposed = normalizeDiagramContent(candidate);
+          const { elements, relations } = patchBetween(diagram.content, proposed);
+          const proposal = await this.diagramProposalsService.create(diagram, user, {
+            ...origin,
+            mode,
+            patch: { elements, relations },
+            repairs,
+          });
+          return { proposal, diff: diffDiagramContent(diagram.content, proposed), repairs, attempts: attempt };
+        }
+      } catch (error) {
+        if (!(error instanceof AiResponseParseError)) throw error;
+        errors = [{ path: '', message: error.message }];
+      }
+
+      this.logger.debug(`Respuesta de la IA inválida (intento ${attempt}/${MAX_AI_ATTEMPTS}): ${errors.length} error(es)`);
+      prompt = buildRetryPrompt(request.prompt, text, errors);
     }
 
-    const generatedContent = JSON.parse(
-      jsonMatch[0].startsWith('{') ? jsonMatch[0] : jsonMatch[1]
-    );
+    throw new DiagramContentValidationException(errors);
+  }
+
+  // ---------- Revisión del modelo ----------
 
-    console.log('Generated Diagram Content:', JSON.stringify(generatedContent, null, 2));
+  /**
+   * Revisa el modelo con reglas estáticas (ver lintDiagramContent) y, salvo
+   * `ai: false`, con la IA. Cada corrección sugerida se guarda como propuesta
+   * del usuario (`proposalId`) para aplicarla con un clic; las de revisiones
+   * anteriores se descartan.
+   */
+  async reviewDiagram(diagramId: number, user: User, { ai = true, ...options }: AiGenerationOptions & { ai?: boolean } = {}): Promise<DiagramReview> {
+    const diagram = await this.findOne(diagramId, user, 'editor');
+    const findings = lintDiagramContent(diagram.content);
 
-    if (mode === 'replace') {
-      diagram.content = generatedContent;
-    } else {
-      diagram.content = this.mergeDiagramContent(diagram.content, generatedContent);
+    if (ai) {
+      const request: DiagramAiRequest = { prompt: this.buildReviewPrompt(diagram.content), signal: options.signal };
+      let prompt = request.prompt;
+      for (let attempt = 1; attempt <= MAX_AI_ATTEMPTS; attempt++) {
+        const text = await this.streamText({ ...request, prompt }, options.onText);
+        try {
+          findings.push(...parseReviewFindings(text, diagram.content));
+          break;
+        } catch (error) {
+          if (!(error instanceof AiResponseParseError)) throw error;
+          this.logger.debug(`Revisión de la IA inválida (intento ${attempt}/${MAX_AI_ATTEMPTS}): ${error.message}`);
+          if (attempt === MAX_AI_ATTEMPTS) throw new DiagramContentValidationException([{ path: '', message: error.message }]);
+          prompt = buildRetryPrompt(request.prompt, text, [{ path: '', message: error.message }]);
+        }
+      }
     }
 
-    return this.diagramsRepository.save(diagram);
+    options.signal?.throwIfAborted();
+    await this.diagramProposalsService.discardPending(diagramId, user.id, 'review');
+    for (const finding of findings) {
+      if (!finding.fix) continue;
+      const proposal = await this.diagramProposalsService.create(diagram, user, {
+        source: 'review',
+        prompt: finding.message,
+        mode: 'merge',
+        patch: finding.fix,
+        repairs: [],
+      });
+      finding.proposalId = proposal.id;
+    }
+
+    return { revision: diagram.revision, findings };
   }
 
-  private mergeDiagramContent(existing: any, newContent: any): any {
-    return {
-      elements: {
-        ...(existing?.elements || {}),
-        ...(newContent?.elements || {}),
-      },
-      relations: {
-        ...(existing?.relations || {}),
-        ...(newContent?.relations || {}),
-      },
-    };
+  private buildReviewPrompt(content: DiagramContent) {
+    return `
+  Eres un revisor experto en modelado de clases UML para generar entidades JPA.
+  Revisa este diagrama:
+  ${JSON.stringify(content, null, 2)}
+
+  Busca problemas de diseño:
+  - Relaciones que faltan entre clases que claramente se relacionan (category "missing-relation")
+  - Cardinalidades sospechosas o tipos de relación incorrectos (category "cardinality")
+  - Atributos que deberían ser una clase propia, p. ej. direcciones o listas (category "extract-class")
+  - Nombres inconsistentes o poco claros (category "naming")
+  - Mezcla de español e inglés en los nombres (category "language-mix")
+  - Problemas de normalización: datos repetidos, derivados o en grupos (category "normalization")
+  - Cualquier otro problema relevante (category "other")
+
+  Responde SOLO con un JSON con esta estructura:
+  {
+    "findings": [
+      {
+        "category": "missing-relation",
+        "severity": "info" | "warning" | "error",
+        "message": "short explanation in English",
+        "classIds": ["IDs de las clases involucradas"],
+        "relationIds": ["IDs de las relaciones involucradas"],
+        "fix": {
+          "elements": { "classId": { clase completa corregida } | null },
+          "relations": { "relId": { "from": "classId", "to": "classId", "type": "..." } | null }
+        }
+      }
+    ]
+  }
+
+  Reglas:
+  - Usa los IDs existentes del diagrama; en "fix" usa null para eliminar y IDs nuevos para lo que agregues
+  - Incluye "fix" solo si la corrección es clara; si no, omítelo
+  - Si el modelo no tiene problemas, responde { "findings": [] }
+  `;
+  }
+
+  // ---------- Datos de ejemplo ----------
+
+  /**
+   * Datos de ejemplo para el código generado. Con IA se piden valores
+   * verosímiles y coherentes entre clases; si la respuesta no se puede leer
+   * tras los reintentos se usan valores deterministas. Las claves foráneas y
+   * los enlaces ManyToMany siempre se validan contra el modelo (ver
+   * buildSeedData).
+   */
+  private async generateSampleData(content: DiagramContent, { rows = DEFAULT_SEED_ROWS, ai = true, ...options }: SampleDataOptions): Promise<DiagramSeedData> {
+    if (!ai || Object.keys(content.elements).length === 0) return buildSeedData(content, rows);
+
+    const request: DiagramAiRequest = { prompt: this.buildSeedPrompt(content, rows), signal: options.signal };
+    let prompt = request.prompt;
+    for (let attempt = 1; attempt <= MAX_AI_ATTEMPTS; attempt++) {
+      const text = await this.streamText({ ...request, prompt }, options.onText);
+      try {
+        return buildSeedData(content, rows, parseSeedSuggestion(text));
+      } catch (error) {
+        if (!(error instanceof AiResponseParseError)) throw error;
+        this.logger.debug(`Datos de ejemplo de la IA inválidos (intento ${attempt}/${MAX_AI_ATTEMPTS}): ${error.message}`);
+        prompt = buildRetryPrompt(request.prompt, text, [{ path: '', message: error.message }]);
+      }
+    }
+
+    this.logger.debug('Se usan datos de ejemplo deterministas');
+    return buildSeedData(content, rows);
+  }
+
+  private buildSeedPrompt(content: DiagramContent, rows: number) {
+    const classes = Object.entries(content.elements).map(([classId, element]) => ({
+      classId,
+      name: element.name,
+      attributes: seedAttributesOf(content, classId).map(attr => ({ name: attr.name, type: attr.type })),
+    }));
+    const foreignKeys = foreignKeysOf(content).map(fk => ({
+      relationId: fk.relationId,
+      holder: fk.holderId,
+      target: fk.targetId,
+      unique: fk.unique,
+    }));
+    const manyToMany = Object.entries(content.relations)
+      .filter(([, relation]) => relation.type === 'ManyToMany')
+      .map(([relationId, relation]) => ({ relationId, from: relation.from, to: relation.to }));
+
+    return `
+  Eres un generador de datos de prueba para una base de datos relacional.
+  Genera ${rows} registros por clase con valores realistas y coherentes entre sí
+  (nombres, correos, precios, fechas... acordes al dominio y al idioma del modelo).
+
+  Clases (atributos sin el id, que se asigna automáticamente):
+  ${JSON.stringify(classes, null, 2)}
+
+  Claves foráneas: cada fila de "holder" referencia una fila de "target" (unique = sin repetir destino):
+  ${JSON.stringify(foreignKeys, null, 2)}
+
+  Relaciones ManyToMany entre filas de "from" y de "to":
+  ${JSON.stringify(manyToMany, null, 2)}
+
+  Responde SOLO con un JSON con esta estructura:
+  {
+    "records": { "classId": [ { "atributo": valor } ] },
+    "references": { "relationId": [número de fila de target (1..${rows}) para cada fila de holder] },
+    "links": { "relationId": [[fila de from, fila de to]] }
+  }
+
+  Reglas:
+  - Usa los classId y relationId dados y exactamente ${rows} filas por clase
+  - Fechas en formato ISO (2024-01-15 o 2024-01-15T10:30:00), números sin comillas y booleanos true/false
+  - Las referencias deben tener sentido (p. ej. un pedido de un cliente que existe)
+  `;
+  }
+
+  private async streamText(request: DiagramAiRequest, onText?: (text: string) => void) {
+    let text = '';
+    for await (const chunk of this.aiProvider.stream(request)) {
+      text += chunk;
+      onText?.(chunk);
+    }
+    return text;
   }
 
-  private buildDiagramPrompt(userPrompt: string, currentDiagram?: any): string {
+  private buildDiagramPrompt(userPrompt: string, currentDiagram?: DiagramContent): string {
     let contextSection = '';
     
-    if (currentDiagram && (currentDiagram.elements || currentDiagram.relations)) {
-      const existingClasses = Object.keys(currentDiagram.elements || {}).map(
-        id => currentDiagram.elements[id].name
-      ).join(', ');
-      
+    if (currentDiagram) {
       contextSection = `
   DIAGRAMA ACTUAL:
   Este es el diagrama actual: 
@@ -303,6 +1033,7 @@ export class DiagramsService {
   IMPORTANTE: 
   - Si el usuario pide modificar/agregar a clases existentes, usa los mismos IDs que ya existen
   - Si creas nuevas clases, genera IDs únicos que no colisionen
+  - Conserva el "id" de los atributos existentes; los atributos nuevos pueden omitirlo
   - Posiciona las nuevas clases cerca de las relacionadas
   `;
     }
@@ -350,84 +1081,67 @@ export class DiagramsService {
   `;
   } 
   
-  async generateDiagramFromImage(
+  /**
+   * Valida los adjuntos y el permiso de edición antes de iniciar el trabajo de
+   * IA, para que una petición inválida no ocupe un lugar entre los trabajos
+   * simultáneos del usuario. El resultado se pasa a generateDiagramFromFiles.
+   */
+  async prepareFilesGeneration(diagramId: number, files: AiAttachmentInput[], user: User): Promise<DiagramAiImage[]> {
+    const images = validateAiAttachments(files);
+    await this.findOne(diagramId, user, 'editor');
+    return images;
+  }
+
+  /**
+   * Genera una propuesta a partir de varias imágenes o PDF (fotos de pizarra,
+   * diagramas ER impresos...) ya validados con prepareFilesGeneration. Las
+   * clases repetidas entre páginas se unen en una sola (ver
+   * reconcileDuplicateClasses).
+   */
+  async generateDiagramFromFiles(
     diagramId: number,
-    imageBuffer: Buffer,
-    mimeType: string,
-    additionalPrompt: string = '',
+    images: DiagramAiImage[],
     user: User,
-    mode: 'replace' | 'merge' = 'merge', // ✅ Agregar parámetro mode
-  ): Promise<Diagram> {
-    console.log('Generating diagram from image');
-    const diagram = await this.findOne(diagramId, user);
-    
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY ?? '');
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
-    const base64Image = imageBuffer.toString('base64');
-
-    const systemPrompt = this.buildDiagramPromptFromImage(additionalPrompt, diagram.content);
-    
-    const imagePart = {
-      inlineData: {
-        data: base64Image,
-        mimeType: mimeType,
-      },
-    };
-
-    const result = await model.generateContent([systemPrompt, imagePart]);
-    const text = result.response.text();
-
-    const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || 
-                      text.match(/{[\s\S]*}/);
-    
-    if (!jsonMatch) {
-      throw new Error('No se pudo extraer JSON de la respuesta');
-    }
+    { prompt = '', mode = 'merge', signal, onText }: FilesGenerationOptions = {},
+  ): Promise<AiGenerationResult> {
+    const diagram = await this.findOne(diagramId, user, 'editor');
 
-    const generatedContent = JSON.parse(
-      jsonMatch[0].startsWith('{') ? jsonMatch[0] : jsonMatch[1]
-    );
-
-    console.log('Generated Diagram Content from Image:', JSON.stringify(generatedContent, null, 2));
-
-    if (mode === 'replace') {
-      diagram.content = generatedContent;
-    } else {
-      diagram.content = this.mergeDiagramContent(diagram.content, generatedContent);
-    }
-
-    return this.diagramsRepository.save(diagram);
+    const systemPrompt = this.buildDiagramPromptFromImage(prompt, diagram.content, images);
+    const request = { prompt: systemPrompt, images, signal };
+    return this.generateWithAi(diagram, request, user, mode, { source: 'image', prompt }, onText);
   }
 
-  private buildDiagramPromptFromImage(additionalContext: string, currentDiagram?: any): string {
+  private buildDiagramPromptFromImage(additionalContext: string, currentDiagram?: DiagramContent, images: DiagramAiImage[] = []): string {
     let contextSection = '';
     
-    if (currentDiagram && (currentDiagram.elements || currentDiagram.relations)) {
-      const existingClasses = Object.entries(currentDiagram.elements || {}).map(
-        ([id, elem]: any) => `${id}: ${elem.name}`
-      );
-      
-      const existingRelations = Object.entries(currentDiagram.relations || {}).map(
-        ([id, rel]: any) => `${rel.from} -> ${rel.to} (${rel.type})`
-      );
-      
+    if (currentDiagram) {
       contextSection = `
   DIAGRAMA ACTUAL (Resumen):
   ${JSON.stringify(currentDiagram, null, 2)}
   
   IMPORTANTE: 
-  - Si detectas clases que ya existen, usa los mismos IDs: ${Object.keys(currentDiagram.elements || {}).join(', ')}
+  - Si detectas clases que ya existen, usa los mismos IDs: ${Object.keys(currentDiagram.elements).join(', ')}
   - Si creas nuevas clases, genera IDs únicos con formato "class_TIMESTAMP"
   - Posiciona las nuevas clases cerca de las relacionadas (alrededor de x:300-800, y:100-500)
   `;
     }
   
+    // Varias imágenes o un PDF: partes de un mismo modelo
+    const pdfs = images.filter(image => image.mimeType === 'application/pdf').length;
+    const multiSource = images.length > 1 || pdfs > 0 ? `
+  Se adjuntan ${images.length} archivo(s)${pdfs ? `, ${pdfs} de ellos PDF con una o más páginas` : ''}. Todas las imágenes y páginas
+  son partes del MISMO modelo:
+  - Genera UN solo diagrama que combine el contenido de todas
+  - Si una clase o tabla aparece en varias páginas, crea una sola clase con la unión de sus atributos
+  - Conserva las relaciones entre clases que aparecen en páginas distintas
+  ` : '';
+
     return `
   ${contextSection}
   
   Analiza la imagen proporcionada y genera un diagrama de clases UML en formato JSON.
   ${additionalContext ? `\n\nContexto adicional: ${additionalContext}\n` : ''}
+  ${multiSource}
   
   La imagen puede contener:
   - Un diagrama UML dibujado a mano o digital
@@ -476,21 +1190,26 @@ export class DiagramsService {
     diagramId: number,
     user: User,
     projectName?: string,
-    basePackage?: string
+    basePackage?: string,
+    sampleData?: SampleDataOptions
   ): Promise<Buffer> {
     const diagram = await this.findOne(diagramId, user);
-    
-    if (!diagram.content || !diagram.content.elements) {
-      throw new Error('El diagrama no tiene contenido válido');
-    }
+    const seed = sampleData ? await this.generateSampleData(diagram.content, sampleData) : undefined;
+    return this.buildSpringBootProject(diagram, projectName, basePackage, seed);
+  }
 
+  /**
+   * Genera el ZIP Spring Boot de un diagrama ya autorizado (usuario o enlace público).
+   */
+  buildSpringBootProject(diagram: Diagram, projectName?: string, basePackage?: string, seed?: DiagramSeedData): Promise<Buffer> {
     const projectNameFinal = projectName || diagram.name.toLowerCase().replace(/\s+/g, '-');
     const basePackageFinal = basePackage || 'com.example.demo';
 
     return this.codeGenerationService.generateSpringBootProject(
-      diagram.content as DiagramContent,
+      diagram.content,
       projectNameFinal,
-      basePackageFinal
+      basePackageFinal,
+      seed
     );
   }
 
@@ -498,16 +1217,19 @@ export class DiagramsService {
     diagramId: number,
     user: User,
     projectName?: string,
-    basePackage?: string
+    basePackage?: string,
+    sampleData?: SampleDataOptions
   ): Promise<Buffer> {
     // Validar acceso al diagrama
     const diagram = await this.findOne(diagramId, user);
-    
-    // Validar contenido del diagrama
-    if (!diagram.content || !diagram.content.elements) {
-      throw new Error('El diagrama no tiene contenido válido para generar código');
-    }
-  
+    const seed = sampleData ? await this.generateSampleData(diagram.content, sampleData) : undefined;
+    return this.buildFlutterProject(diagram, projectName, basePackage, seed);
+  }
+
+  /**
+   * Genera el ZIP Flutter de un diagrama ya autorizado (usuario o enlace público).
+   */
+  async buildFlutterProject(diagram: Diagram, projectName?: string, basePackage?: string, seed?: DiagramSeedData): Promise<Buffer> {
     // Validar que haya al menos una clase
     if (Object.keys(diagram.content.elements).length === 0) {
       throw new Error('El diagrama debe contener al menos una clase');
@@ -521,20 +1243,15 @@ export class DiagramsService {
     // Normalizar basePackage (com.example.app por defecto)
     const basePackageFinal = basePackage || 'com.example.app';
   
-    console.log('Generando proyecto Flutter:', {
-      diagramId,
-      projectName: projectNameFinal,
-      basePackage: basePackageFinal,
-      classCount: Object.keys(diagram.content.elements).length,
-      relationCount: Object.keys(diagram.content.relations || {}).length
-    });
+    this.logger.debug(`Generando proyecto Flutter ${projectNameFinal} (${basePackageFinal}) del diagrama ${diagram.id}`);
   
     try {
       // Generar el proyecto Flutter usando el servicio de código
       return await this.codeGenerationFlutterService.generateFlutterProject(
-        diagram.content as DiagramContent,
+        diagram.content,
         projectNameFinal,
-        basePackageFinal
+        basePackageFinal,
+        seed
       );
     } catch (error) {
       console.error('Error al generar código Flutter:', error);
@@ -0,0 +1,21 @@
+// src/diagrams/dto/accept-proposal.dto.ts
+import { IsArray, IsBoolean, IsOptional, IsString } from 'class-validator';
+
+export class AcceptProposalDto {
+  // IDs de las clases a aplicar; si se omite, todas las de la propuesta
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  classes?: string[];
+
+  // IDs de las relaciones a aplicar; si se omite, todas las de la propuesta
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  relations?: string[];
+
+  // Aplicar aunque otro usuario haya modificado esos elementos después de generarse
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean;
+}
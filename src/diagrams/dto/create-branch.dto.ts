@@ -0,0 +1,8 @@
+// src/diagrams/dto/create-branch.dto.ts
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class CreateBranchDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+}
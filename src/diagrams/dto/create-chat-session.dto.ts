@@ -0,0 +1,11 @@
+// src/diagrams/dto/create-chat-session.dto.ts
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateChatSessionDto {
+  // Si se omite, se toma del primer mensaje
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  @IsOptional()
+  title?: string;
+}
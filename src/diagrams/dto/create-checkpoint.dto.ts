@@ -0,0 +1,15 @@
+// src/diagrams/dto/create-checkpoint.dto.ts
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+export class CreateCheckpointDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  // Versión existente a etiquetar; si se omite se etiqueta el estado actual
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  version?: number;
+}
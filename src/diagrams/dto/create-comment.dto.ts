@@ -0,0 +1,34 @@
+// src/diagrams/dto/create-comment.dto.ts
+import { IsArray, IsIn, IsInt, IsNotEmpty, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CommentAnchorType } from '../entities/diagram-comment.entity';
+import { Point } from '../schema/diagram-content.schema';
+
+export class CreateCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  // Comentario raíz al que responde; las respuestas heredan su anclaje
+  @IsInt()
+  @IsOptional()
+  parentId?: number;
+
+  @IsIn(['class', 'relation', 'canvas'])
+  @IsOptional()
+  anchorType?: CommentAnchorType;
+
+  @IsString()
+  @IsOptional()
+  anchorId?: string;
+
+  @IsObject()
+  @IsOptional()
+  position?: Point;
+
+  // IDs de usuarios mencionados, además de los `@email` escritos en el texto
+  @IsArray()
+  @IsInt({ each: true })
+  @IsOptional()
+  mentions?: number[];
+}
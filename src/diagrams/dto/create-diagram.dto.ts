@@ -1,12 +1,32 @@
 // src/diagrams/dto/create-diagram.dto.ts
-import { IsNotEmpty, IsString, IsOptional, IsObject } from 'class-validator';
+import { IsNotEmpty, IsString, IsOptional, IsObject, IsInt, IsArray, ArrayMaxSize, MaxLength } from 'class-validator';
+import { DiagramContent } from '../schema/diagram-content.schema';
 
 export class CreateDiagramDto {
   @IsString()
   @IsNotEmpty()
   name: string;
 
+  // La estructura se valida en DiagramsService contra el esquema del contenido
   @IsObject()
   @IsOptional()
-  content?: Record<string, any>;
+  content?: DiagramContent;
+
+  // Workspace que poseerá el diagrama; hay que ser miembro
+  @IsInt()
+  @IsOptional()
+  workspaceId?: number;
+
+  // Etiquetas libres; se guardan en minúsculas y sin repetir
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  @IsOptional()
+  tags?: string[];
+
+  // Carpeta propia donde se archiva; null = sin carpeta
+  @IsInt()
+  @IsOptional()
+  folderId?: number | null;
 }
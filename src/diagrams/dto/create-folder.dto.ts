@@ -0,0 +1,14 @@
+// src/diagrams/dto/create-folder.dto.ts
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateFolderDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  // Carpeta contenedora; si se omite (o es null) queda en el primer nivel
+  @IsInt()
+  @IsOptional()
+  parentId?: number | null;
+}
@@ -0,0 +1,6 @@
+// src/diagrams/dto/create-from-template.dto.ts
+import { OmitType } from '@nestjs/mapped-types';
+import { CreateDiagramDto } from './create-diagram.dto';
+
+// El contenido sale de la plantilla
+export class CreateFromTemplateDto extends OmitType(CreateDiagramDto, ['content'] as const) {}
@@ -0,0 +1,12 @@
+// src/diagrams/dto/create-invitation.dto.ts
+import { IsEmail, IsIn, IsOptional } from 'class-validator';
+import { SHARE_ROLES, ShareRole } from '../entities/diagram-share.entity';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email: string;
+
+  @IsIn(SHARE_ROLES)
+  @IsOptional()
+  role?: ShareRole;
+}
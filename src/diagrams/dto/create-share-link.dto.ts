@@ -0,0 +1,19 @@
+// src/diagrams/dto/create-share-link.dto.ts
+import { IsBoolean, IsDateString, IsOptional, IsString, MinLength } from 'class-validator';
+
+export class CreateShareLinkDto {
+  // Sin fecha el enlace no expira (se puede revocar en cualquier momento)
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  @IsString()
+  @MinLength(4)
+  @IsOptional()
+  password?: string;
+
+  // Permite descargar el código Spring Boot / Flutter desde el enlace
+  @IsBoolean()
+  @IsOptional()
+  allowCodeDownload?: boolean;
+}
@@ -0,0 +1,18 @@
+// src/diagrams/dto/create-template.dto.ts
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateTemplateDto {
+  // Diagrama cuyo contenido actual se guarda como plantilla
+  @IsInt()
+  diagramId: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  description?: string;
+}
@@ -0,0 +1,11 @@
+// src/diagrams/dto/duplicate-diagram.dto.ts
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class DuplicateDiagramDto {
+  // Por defecto "<nombre> (copia)"
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  @IsOptional()
+  name?: string;
+}
@@ -0,0 +1,15 @@
+// src/diagrams/dto/generate-from-files.dto.ts
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+
+// Campos de texto del multipart; los archivos van en `files`
+export class GenerateFromFilesDto {
+  // Contexto adicional para la IA
+  @IsString()
+  @IsOptional()
+  @MaxLength(4000)
+  prompt?: string;
+
+  @IsIn(['replace', 'merge'])
+  @IsOptional()
+  mode?: 'replace' | 'merge';
+}
@@ -0,0 +1,59 @@
+// src/diagrams/dto/list-diagrams-query.dto.ts
+import { Transform, Type } from 'class-transformer';
+import { ArrayMaxSize, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export const DIAGRAM_SORT_FIELDS = ['updatedAt', 'createdAt', 'name'] as const;
+
+export type DiagramSortField = (typeof DIAGRAM_SORT_FIELDS)[number];
+
+export class ListDiagramsQueryDto {
+  // Busca en el nombre del diagrama y en los nombres de sus clases y atributos
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  q?: string;
+
+  // Solo `GET /diagrams`: propios (por defecto), compartidos conmigo o ambos
+  @IsIn(['owned', 'shared', 'all'])
+  @IsOptional()
+  scope?: 'owned' | 'shared' | 'all';
+
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  ownerId?: number;
+
+  // Diagramas que tienen todas las etiquetas indicadas (`?tag=a&tag=b` o `?tag=a,b`)
+  @Transform(({ value }: { value: unknown }) => (Array.isArray(value) ? (value as unknown[]) : String(value).split(',')))
+  @IsString({ each: true })
+  @ArrayMaxSize(20)
+  @IsOptional()
+  tag?: string[];
+
+  // Carpeta propia; 0 = diagramas sin carpeta
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  folderId?: number;
+
+  @IsIn(DIAGRAM_SORT_FIELDS)
+  @IsOptional()
+  sort?: DiagramSortField;
+
+  @IsIn(['ASC', 'DESC'])
+  @IsOptional()
+  order?: 'ASC' | 'DESC';
+
+  // `nextCursor` de la página anterior
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
@@ -0,0 +1,15 @@
+// src/diagrams/dto/merge-branch.dto.ts
+import { IsBoolean, IsObject, IsOptional } from 'class-validator';
+import { MergeSide } from '../utils/diagram-merge';
+
+export class MergeBranchDto {
+  // Resolución por ruta de conflicto, p. ej. { "elements.class_1.name": "theirs" }
+  @IsObject()
+  @IsOptional()
+  resolutions?: Record<string, MergeSide>;
+
+  // Solo calcula el resultado y los conflictos, sin guardar
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
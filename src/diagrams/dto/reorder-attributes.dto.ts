@@ -0,0 +1,9 @@
+// src/diagrams/dto/reorder-attributes.dto.ts
+import { IsArray, IsString } from 'class-validator';
+
+export class ReorderAttributesDto {
+  // IDs de los atributos en el nuevo orden; los que falten quedan al final
+  @IsArray()
+  @IsString({ each: true })
+  attributeIds: string[];
+}
@@ -0,0 +1,14 @@
+// src/diagrams/dto/send-chat-message.dto.ts
+import { IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class SendChatMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4000)
+  message: string;
+
+  // Cómo se combinan los cambios propuestos con el diagrama actual
+  @IsIn(['replace', 'merge'])
+  @IsOptional()
+  mode?: 'replace' | 'merge';
+}
@@ -0,0 +1,10 @@
+// src/diagrams/dto/share-diagram.dto.ts
+import { IsIn, IsOptional } from 'class-validator';
+import { SHARE_ROLES, ShareRole } from '../entities/diagram-share.entity';
+
+export class ShareDiagramDto {
+  // Por defecto 'editor', el acceso que daba compartir antes de existir los roles
+  @IsIn(SHARE_ROLES)
+  @IsOptional()
+  role?: ShareRole;
+}
@@ -0,0 +1,8 @@
+// src/diagrams/dto/transfer-ownership.dto.ts
+import { IsInt } from 'class-validator';
+
+export class TransferOwnershipDto {
+  // El propietario anterior queda como co_owner
+  @IsInt()
+  userId: number;
+}
@@ -0,0 +1,8 @@
+// src/diagrams/dto/update-collaborator.dto.ts
+import { IsIn } from 'class-validator';
+import { SHARE_ROLES, ShareRole } from '../entities/diagram-share.entity';
+
+export class UpdateCollaboratorDto {
+  @IsIn(SHARE_ROLES)
+  role: ShareRole;
+}
@@ -0,0 +1,14 @@
+// src/diagrams/dto/update-comment.dto.ts
+import { IsArray, IsInt, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  @IsArray()
+  @IsInt({ each: true })
+  @IsOptional()
+  mentions?: number[];
+}
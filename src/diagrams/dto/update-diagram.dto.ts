@@ -1,5 +1,6 @@
 // src/diagrams/dto/update-diagram.dto.ts
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { CreateDiagramDto } from './create-diagram.dto';
 
-export class UpdateDiagramDto extends PartialType(CreateDiagramDto) {}
+// El workspace se cambia con POST/DELETE /workspaces/:id/diagrams/:diagramId
+export class UpdateDiagramDto extends PartialType(OmitType(CreateDiagramDto, ['workspaceId'] as const)) {}
@@ -0,0 +1,5 @@
+// src/diagrams/dto/update-folder.dto.ts
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateFolderDto } from './create-folder.dto';
+
+export class UpdateFolderDto extends PartialType(CreateFolderDto) {}
@@ -0,0 +1,27 @@
+// src/diagrams/entities/diagram-chat-message.entity.ts
+import { Column, CreateDateColumn, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { DiagramChatSession } from './diagram-chat-session.entity';
+import { DiagramProposal } from './diagram-proposal.entity';
+
+@Entity()
+export class DiagramChatMessage {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => DiagramChatSession, session => session.messages, { onDelete: 'CASCADE', nullable: false })
+  session: DiagramChatSession;
+
+  @Column({ type: 'varchar', length: 10 })
+  role: 'user' | 'assistant';
+
+  // Mensaje del usuario o explicación del asistente (sin el JSON del diagrama)
+  @Column({ type: 'text' })
+  content: string;
+
+  // Cambios propuestos en esta respuesta del asistente, si los hubo
+  @ManyToOne(() => DiagramProposal, { onDelete: 'SET NULL', nullable: true })
+  proposal: DiagramProposal | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
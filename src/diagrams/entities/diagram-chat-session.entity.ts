@@ -0,0 +1,33 @@
+// src/diagrams/entities/diagram-chat-session.entity.ts
+import { Column, CreateDateColumn, Entity, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+import { DiagramChatMessage } from './diagram-chat-message.entity';
+
+/**
+ * Conversación de un usuario con el asistente de modelado sobre un diagrama.
+ * Cada usuario ve solo sus conversaciones.
+ */
+@Entity()
+export class DiagramChatSession {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Diagram, { onDelete: 'CASCADE', nullable: false })
+  diagram: Diagram;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: false })
+  user: User;
+
+  @Column({ type: 'varchar', length: 120 })
+  title: string;
+
+  @OneToMany(() => DiagramChatMessage, message => message.session)
+  messages: DiagramChatMessage[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
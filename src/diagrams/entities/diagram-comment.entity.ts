@@ -0,0 +1,58 @@
+// src/diagrams/entities/diagram-comment.entity.ts
+import { Column, CreateDateColumn, Entity, Index, JoinTable, ManyToMany, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+import { Point } from '../schema/diagram-content.schema';
+
+export type CommentAnchorType = 'class' | 'relation' | 'canvas';
+
+@Entity()
+@Index(['diagram', 'anchorId'])
+export class DiagramComment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Diagram, { onDelete: 'CASCADE', nullable: false })
+  diagram: Diagram;
+
+  // Comentario raíz del hilo; null si este comentario abre el hilo
+  @ManyToOne(() => DiagramComment, { onDelete: 'CASCADE', nullable: true })
+  parent: DiagramComment | null;
+
+  @Column({ type: 'varchar', length: 20, default: 'canvas' })
+  anchorType: CommentAnchorType;
+
+  // ID de la clase o relación comentada; null si está anclado al lienzo
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  anchorId: string | null;
+
+  // Posición en el lienzo (anclaje 'canvas')
+  @Column({ type: 'jsonb', nullable: true })
+  position: Point | null;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  // Usuarios mencionados con @ (deben tener acceso al diagrama)
+  @ManyToMany(() => User)
+  @JoinTable()
+  mentions: User[];
+
+  @Column({ default: false })
+  resolved: boolean;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  resolvedBy: User | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  author: User | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
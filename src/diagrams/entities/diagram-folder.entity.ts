@@ -0,0 +1,32 @@
+// src/diagrams/entities/diagram-folder.entity.ts
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+
+/**
+ * Carpeta personal para organizar los diagramas propios. Se pueden anidar;
+ * `parentId` null indica una carpeta de primer nivel.
+ */
+@Entity()
+export class DiagramFolder {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 200 })
+  name: string;
+
+  @Column({ nullable: true })
+  parentId: number | null;
+
+  @ManyToOne(() => DiagramFolder, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parentId' })
+  parent: DiagramFolder | null;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  owner: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
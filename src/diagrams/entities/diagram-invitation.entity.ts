@@ -0,0 +1,45 @@
+// src/diagrams/entities/diagram-invitation.entity.ts
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+import { ShareRole } from './diagram-share.entity';
+
+/**
+ * Invitación a un diagrama para un correo que todavía no tiene cuenta.
+ * Se acepta cuando esa persona se registra con el token (ver AuthService.register).
+ */
+@Entity()
+export class DiagramInvitation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Diagram, { onDelete: 'CASCADE', nullable: false })
+  diagram: Diagram;
+
+  // Siempre en minúsculas
+  @Index()
+  @Column({ length: 320 })
+  email: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'editor' })
+  role: ShareRole;
+
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  token: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  invitedBy: User | null;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  acceptedBy: User | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,45 @@
+// src/diagrams/entities/diagram-operation.entity.ts
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+import { DiagramOperation as Operation } from '../utils/diagram-operations';
+
+/**
+ * Registro de operaciones aplicadas a un diagrama, en el orden de revisión
+ * asignado por el servidor.
+ */
+@Entity()
+@Index(['diagram', 'revision'], { unique: true })
+@Index(['diagram', 'opId'], { unique: true })
+export class DiagramOperation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Diagram, { onDelete: 'CASCADE', nullable: false })
+  diagram: Diagram;
+
+  // Revisión del diagrama que produjo esta operación
+  @Column()
+  revision: number;
+
+  // Identificador estable generado por el cliente (o por el servidor si no se envía)
+  @Column({ length: 64 })
+  opId: string;
+
+  @Column({ length: 40 })
+  type: string;
+
+  // Operación ya transformada, tal como se aplicó
+  @Column({ type: 'jsonb' })
+  op: Operation;
+
+  // Revisión que conocía el cliente al enviarla
+  @Column({ type: 'int', nullable: true })
+  baseRevision: number | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  author: User | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,66 @@
+// src/diagrams/entities/diagram-proposal.entity.ts
+import { Column, CreateDateColumn, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+import { ClassElement, Relation } from '../schema/diagram-content.schema';
+import { DiagramRepair } from '../ai/diagram-ai-response';
+
+export type ProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+// Estado de clases y relaciones por ID; null = no existe (eliminada o aún no creada)
+export interface ProposalPatch {
+  elements: Record<string, ClassElement | null>;
+  relations: Record<string, Relation | null>;
+}
+
+/**
+ * Resultado de la IA pendiente de revisión. Solo guarda las clases y
+ * relaciones que cambia (`patch`) y su estado al generarse (`before`), para
+ * aplicar parte de la propuesta y detectar si alguien las modificó después.
+ */
+@Entity()
+export class DiagramProposal {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Diagram, { onDelete: 'CASCADE', nullable: false })
+  diagram: Diagram;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: false })
+  createdBy: User;
+
+  @Column({ type: 'varchar', length: 10 })
+  source: 'prompt' | 'image' | 'chat' | 'review';
+
+  @Column({ type: 'text', default: '' })
+  prompt: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  mode: 'replace' | 'merge';
+
+  // Revisión del diagrama sobre la que se generó
+  @Column()
+  baseRevision: number;
+
+  @Column({ type: 'jsonb' })
+  patch: ProposalPatch;
+
+  @Column({ type: 'jsonb' })
+  before: ProposalPatch;
+
+  @Column({ type: 'jsonb', default: [] })
+  repairs: DiagramRepair[];
+
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status: ProposalStatus;
+
+  // Clases y relaciones aplicadas al aceptar
+  @Column({ type: 'jsonb', nullable: true })
+  accepted: { classes: string[]; relations: string[] } | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+}
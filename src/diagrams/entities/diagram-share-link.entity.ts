@@ -0,0 +1,46 @@
+// src/diagrams/entities/diagram-share-link.entity.ts
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+
+/**
+ * Enlace público de solo lectura: quien tenga el token puede ver el diagrama
+ * sin cuenta (y descargar el código generado si se permite).
+ */
+@Entity()
+export class DiagramShareLink {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Diagram, { onDelete: 'CASCADE', nullable: false })
+  diagram: Diagram;
+
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  token: string;
+
+  // Hash bcrypt de la contraseña opcional
+  @Column({ type: 'varchar', length: 100, nullable: true, select: false })
+  passwordHash: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ default: false })
+  allowCodeDownload: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ default: 0 })
+  accessCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAccessedAt: Date | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  createdBy: User | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,40 @@
+// src/diagrams/entities/diagram-share.entity.ts
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryColumn, UpdateDateColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+
+export const SHARE_ROLES = ['viewer', 'commenter', 'editor', 'co_owner'] as const;
+
+export type ShareRole = (typeof SHARE_ROLES)[number];
+
+/**
+ * Usuario con el que se comparte un diagrama y su nivel de acceso.
+ *
+ * Usa la tabla de la antigua relación `sharedWith` (mismas columnas de clave):
+ * los diagramas ya compartidos conservan el acceso completo como 'editor'.
+ */
+@Entity('diagram_shared_with_user')
+export class DiagramShare {
+  @PrimaryColumn()
+  diagramId: number;
+
+  @PrimaryColumn()
+  userId: number;
+
+  @ManyToOne(() => Diagram, (diagram) => diagram.shares, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'diagramId' })
+  diagram: Diagram;
+
+  @ManyToOne(() => User, (user) => user.diagramShares, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 20, default: 'editor' })
+  role: ShareRole;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,29 @@
+// src/diagrams/entities/diagram-template.entity.ts
+import { Column, CreateDateColumn, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { DiagramContent } from '../schema/diagram-content.schema';
+
+/**
+ * Plantilla guardada por un usuario a partir de uno de sus diagramas. Las
+ * plantillas incluidas viven en templates/built-in-templates.ts.
+ */
+@Entity()
+export class DiagramTemplate {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 200 })
+  name: string;
+
+  @Column({ type: 'text', default: '' })
+  description: string;
+
+  @Column({ type: 'jsonb' })
+  content: DiagramContent;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: false })
+  owner: User;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,46 @@
+// src/diagrams/entities/diagram-version.entity.ts
+import { Column, CreateDateColumn, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from './diagram.entity';
+import { DiagramContent } from '../schema/diagram-content.schema';
+
+export type DiagramVersionSource = 'create' | 'edit' | 'ai' | 'restore' | 'checkpoint' | 'merge';
+
+@Entity()
+@Index(['diagram', 'number'], { unique: true })
+export class DiagramVersion {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Diagram, { onDelete: 'CASCADE', nullable: false })
+  diagram: Diagram;
+
+  // Número correlativo dentro del diagrama (1, 2, 3...)
+  @Column()
+  number: number;
+
+  // Snapshot completo del contenido tras el guardado
+  @Column({ type: 'jsonb' })
+  content: DiagramContent;
+
+  @Column({ type: 'varchar', length: 20, default: 'edit' })
+  source: DiagramVersionSource;
+
+  // Nombre del checkpoint (p. ej. "v1 schema enviado al cliente"); null en versiones automáticas
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  label: string | null;
+
+  // Versión desde la que se restauró, si aplica
+  @Column({ type: 'int', nullable: true })
+  restoredFrom: number | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  author: User | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  // Se actualiza cuando varios guardados seguidos se agrupan en la misma versión
+  @Column({ type: 'timestamp', nullable: true })
+  lastSavedAt: Date;
+}
@@ -1,6 +1,10 @@
 // src/diagrams/entities/diagram.entity.ts
-import { Column, CreateDateColumn, DeleteDateColumn, Entity, JoinTable, ManyToMany, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { Column, CreateDateColumn, DeleteDateColumn, Entity, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
 import { User } from 'src/users/entities/user.entity';
+import { DiagramContent } from '../schema/diagram-content.schema';
+import { DiagramShare } from './diagram-share.entity';
+import { Workspace } from 'src/workspaces/entities/workspace.entity';
+import { DiagramFolder } from './diagram-folder.entity';
 
 @Entity()
 export class Diagram {
@@ -10,18 +14,41 @@ export class Diagram {
   @Column()
   name: string;
 
-  // Guardamos el diagrama en JSON
+  // Guardamos el diagrama en JSON (ver schema/diagram-content.schema.ts)
   @Column({ type: 'jsonb', nullable: false, default: {} })
-  content: Record<string, any>;
+  content: DiagramContent;
+
+  // Se incrementa con cada operación aplicada (ver DiagramOperationsService)
+  @Column({ default: 0 })
+  revision: number;
 
   // Usuario propietario
   @ManyToOne(() => User, (user) => user.ownedDiagrams, { onDelete: 'CASCADE' })
   owner: User;
 
-  // Usuarios con los que se comparte el diagrama
-  @ManyToMany(() => User, (user) => user.sharedDiagrams)
-  @JoinTable()
-  sharedWith: User[];
+  // Usuarios con los que se comparte el diagrama y su rol
+  @OneToMany(() => DiagramShare, (share) => share.diagram)
+  shares: DiagramShare[];
+
+  // Workspace que posee el diagrama en conjunto (null si es personal)
+  @ManyToOne(() => Workspace, (workspace) => workspace.diagrams, { nullable: true, onDelete: 'SET NULL' })
+  workspace: Workspace | null;
+
+  // Carpeta del propietario donde está archivado (null = sin carpeta)
+  @ManyToOne(() => DiagramFolder, { nullable: true, onDelete: 'SET NULL' })
+  folder: DiagramFolder | null;
+
+  // Etiquetas libres, en minúsculas
+  @Column({ type: 'text', array: true, default: () => "'{}'" })
+  tags: string[];
+
+  // Diagrama del que se bifurcó esta rama (null si no es una rama)
+  @ManyToOne(() => Diagram, { nullable: true, onDelete: 'SET NULL' })
+  parent: Diagram | null;
+
+  // Contenido común con el padre: punto de bifurcación o última fusión
+  @Column({ type: 'jsonb', nullable: true })
+  branchBase: DiagramContent | null;
 
   @CreateDateColumn()
   createdAt: Date;
@@ -1,28 +1,13 @@
 // src/diagrams/generators/flutter-form-generator.ts
-
-interface Attribute {
-  name: string;
-  type: string;
-}
-
-interface ClassElement {
-  name: string;
-  position: { x: number; y: number };
-  attributes: Attribute[];
-}
+import { Attribute, ClassElement, DiagramContent, RelationType } from '../schema/diagram-content.schema';
 
 interface RelationshipInfo {
-  type: 'OneToMany' | 'ManyToOne' | 'ManyToMany' | 'OneToOne' | 'Inheritance' | 'Aggregation' | 'Composition';
+  type: RelationType;
   targetClass: string;
   targetClassId: string;
   isOwner: boolean;
 }
 
-interface DiagramContent {
-  elements: Record<string, ClassElement>;
-  relations: Record<string, any>;
-}
-
 export class FlutterFormGenerator {
   
   /**
@@ -570,9 +555,9 @@ ${this.generateSaveDataMapping(classElement, relationships, diagramContent)}
   ): Attribute[] {
     const inheritanceRel = relationships.find(r => r.type === 'Inheritance');
     const parentAttrs: Attribute[] = inheritanceRel
-      ? (diagramContent.elements[inheritanceRel.targetClassId]?.attributes || [])
+      ? diagramContent.elements[inheritanceRel.targetClassId].attributes
       : [];
-    const ownAttrs: Attribute[] = classElement.attributes || [];
+    const ownAttrs: Attribute[] = classElement.attributes;
     const seen = new Set<string>();
     const merged: Attribute[] = [];
     for (const a of [...parentAttrs, ...ownAttrs]) {
@@ -0,0 +1,69 @@
+// src/diagrams/public-diagrams.controller.ts
+import { Controller, Get, Headers, Param, Query, Res } from '@nestjs/common';
+import { ApiHeader, ApiQuery } from '@nestjs/swagger';
+import { Response } from 'express';
+import { DiagramShareLinksService } from './diagram-share-links.service';
+
+/**
+ * Acceso sin cuenta a través de enlaces públicos (ver DiagramShareLinksService).
+ * No usa `@Auth`: el token del enlace es la autorización. La contraseña, si el
+ * enlace la tiene, se envía solo en `x-share-password`: en la URL quedaría en
+ * los registros de acceso y en el historial del navegador.
+ */
+@Controller('public/diagrams')
+@ApiHeader({ name: 'x-share-password', required: false })
+export class PublicDiagramsController {
+  constructor(private readonly shareLinksService: DiagramShareLinksService) { }
+
+  @Get(':token')
+  view(@Param('token') token: string, @Headers('x-share-password') password?: string) {
+    return this.shareLinksService.view(token, password);
+  }
+
+  @Get(':token/generate-code')
+  @ApiQuery({ name: 'projectName', required: false })
+  @ApiQuery({ name: 'basePackage', required: false })
+  async generateSpringBootCode(
+    @Param('token') token: string,
+    @Res() res: Response,
+    @Query('projectName') projectName?: string,
+    @Query('basePackage') basePackage?: string,
+    @Headers('x-share-password') password?: string,
+  ) {
+    const { diagram, zip } = await this.shareLinksService.generateSpringBootCode(
+      token,
+      password,
+      projectName,
+      basePackage,
+    );
+    this.sendZip(res, zip, projectName || `diagram-${diagram.id}-springboot`);
+  }
+
+  @Get(':token/generate-flutter')
+  @ApiQuery({ name: 'projectName', required: false })
+  @ApiQuery({ name: 'basePackage', required: false })
+  async generateFlutterCode(
+    @Param('token') token: string,
+    @Res() res: Response,
+    @Query('projectName') projectName?: string,
+    @Query('basePackage') basePackage?: string,
+    @Headers('x-share-password') password?: string,
+  ) {
+    const { diagram, zip } = await this.shareLinksService.generateFlutterCode(
+      token,
+      password,
+      projectName,
+      basePackage,
+    );
+    this.sendZip(res, zip, projectName || `diagram-${diagram.id}-flutter`);
+  }
+
+  private sendZip(res: Response, zip: Buffer, filename: string) {
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${filename}.zip"`,
+      'Content-Length': zip.length,
+    });
+    res.send(zip);
+  }
+}
@@ -0,0 +1,91 @@
+// src/diagrams/schema/diagram-content.schema.ts
+
+/**
+ * Versión actual del esquema de `Diagram.content`.
+ * Se incrementa cada vez que cambia la forma del JSON persistido
+ * (ver las migraciones en diagram-content.validator.ts).
+ *
+ * - 1: versión inicial
+ * - 2: los atributos tienen un `id` estable
+ */
+export const DIAGRAM_CONTENT_VERSION = 2;
+
+export const ATTRIBUTE_TYPES = [
+  'String',
+  'Integer',
+  'Long',
+  'Double',
+  'Float',
+  'Boolean',
+  'Date',
+  'LocalDate',
+  'LocalDateTime',
+  'BigDecimal',
+] as const;
+
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+export const RELATION_TYPES = [
+  'OneToMany',
+  'ManyToOne',
+  'ManyToMany',
+  'OneToOne',
+  'Inheritance',
+  'Aggregation',
+  'Composition',
+] as const;
+
+export type RelationType = (typeof RELATION_TYPES)[number];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Attribute {
+  // Identificador estable dentro de la clase; el orden lo da la posición en el arreglo
+  id: string;
+  name: string;
+  type: AttributeType;
+}
+
+export interface ClassElement {
+  name: string;
+  position: Point;
+  attributes: Attribute[];
+  size?: { width: number; height: number };
+  style?: Record<string, any>;
+}
+
+// Etiqueta de JointJS (`{ attrs: { text: { text } }, position }`); `text` es la forma plana
+export interface RelationLabel {
+  position?: number | Record<string, any>;
+  text?: string;
+  attrs?: Record<string, any>;
+}
+
+export interface Relation {
+  from: string;
+  to: string;
+  type: RelationType;
+  vertices?: Point[];
+  labels?: RelationLabel[];
+  attrs?: Record<string, any>;
+  router?: Record<string, any>;
+  connector?: Record<string, any>;
+}
+
+export interface DiagramContent {
+  version: number;
+  elements: Record<string, ClassElement>;
+  relations: Record<string, Relation>;
+}
+
+/**
+ * Error de validación asociado a un campo concreto del contenido,
+ * p. ej. `{ path: 'elements.class_1.attributes.2.type', message: '...' }`.
+ */
+export interface DiagramContentError {
+  path: string;
+  message: string;
+}
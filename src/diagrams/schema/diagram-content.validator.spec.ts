@@ -0,0 +1,68 @@
+// src/diagrams/schema/diagram-content.validator.spec.ts
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DIAGRAM_CONTENT_VERSION, DiagramContent } from './diagram-content.schema';
+import {
+  DiagramContentValidationException,
+  normalizeDiagramContent,
+  parseDiagramContent,
+  validateDiagramContent,
+} from './diagram-content.validator';
+
+const content = (relationExtra: Record<string, any> = {}) => ({
+  version: DIAGRAM_CONTENT_VERSION,
+  elements: {
+    a: { name: 'A', position: { x: 0, y: 0 }, attributes: [{ id: 'attr_a', name: 'id', type: 'Long' }] },
+    b: { name: 'B', position: { x: 100, y: 0 }, attributes: [] },
+  },
+  relations: {
+    r1: { from: 'a', to: 'b', type: 'OneToMany', ...relationExtra },
+  },
+});
+
+describe('diagram content validator', () => {
+  it('acepta ejemplo.json (etiquetas de JointJS, sin versión ni IDs de atributos)', () => {
+    const raw: unknown = JSON.parse(readFileSync(join(__dirname, '../../../ejemplo.json'), 'utf8'));
+
+    expect(validateDiagramContent(normalizeDiagramContent(raw))).toEqual([]);
+
+    const parsed = parseDiagramContent(raw);
+    expect(parsed.version).toBe(DIAGRAM_CONTENT_VERSION);
+    const labelled = Object.values(parsed.relations).find(relation => relation.labels?.length);
+    const attrs = labelled?.labels?.[0].attrs as { text?: { text?: unknown } } | undefined;
+    expect(typeof attrs?.text?.text).toBe('string');
+  });
+
+  it('acepta etiquetas planas y posiciones como objeto', () => {
+    expect(validateDiagramContent(content({ labels: [{ position: 0.5, text: '1..*' }] }))).toEqual([]);
+    expect(
+      validateDiagramContent(content({ labels: [{ position: { distance: 0.2, offset: 10 }, attrs: { text: { text: 'x' } } }] })),
+    ).toEqual([]);
+  });
+
+  it('rechaza etiquetas mal formadas', () => {
+    const errors = validateDiagramContent(content({ labels: ['1..*', { position: 'middle', text: 3 }] }));
+    expect(errors.map(error => error.path)).toEqual([
+      'relations.r1.labels.0',
+      'relations.r1.labels.1.position',
+      'relations.r1.labels.1.text',
+    ]);
+  });
+
+  it('migra v1 a v2 asignando IDs de atributos estables', () => {
+    const v1 = { elements: { c: { name: 'C', position: { x: 0, y: 0 }, attributes: [{ name: 'id', type: 'Long' }] } } };
+
+    const first = normalizeDiagramContent(v1) as DiagramContent;
+    expect(first.version).toBe(DIAGRAM_CONTENT_VERSION);
+    expect(first.elements.c.attributes[0].id).toBe('attr_c_0');
+    expect(normalizeDiagramContent(v1)).toEqual(first);
+  });
+
+  it('rechaza relaciones hacia clases inexistentes y versiones futuras', () => {
+    const invalid = { ...content(), version: DIAGRAM_CONTENT_VERSION + 1 };
+    invalid.relations.r1.to = 'missing';
+
+    expect(() => parseDiagramContent(invalid)).toThrow(DiagramContentValidationException);
+    expect(validateDiagramContent(invalid).map(error => error.path)).toEqual(['version', 'relations.r1.to']);
+  });
+});
@@ -0,0 +1,278 @@
+// src/diagrams/schema/diagram-content.validator.ts
+import { BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  ATTRIBUTE_TYPES,
+  DIAGRAM_CONTENT_VERSION,
+  DiagramContent,
+  DiagramContentError,
+  RELATION_TYPES,
+} from './diagram-content.schema';
+
+export class DiagramContentValidationException extends BadRequestException {
+  constructor(public readonly errors: DiagramContentError[]) {
+    super({
+      statusCode: 400,
+      message: 'Invalid diagram content',
+      errors,
+    });
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  (values as readonly unknown[]).includes(value);
+
+const isVersion = (value: unknown): value is number => Number.isInteger(value);
+
+export const createAttributeId = () => `attr_${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+
+/**
+ * Migraciones entre versiones del esquema. La entrada `n` transforma un
+ * contenido de la versión `n` a la `n + 1`; deben ser deterministas para que
+ * migrar el diagrama y sus snapshots produzca los mismos IDs.
+ */
+const MIGRATIONS: Record<number, (content: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 -> v2: cada atributo recibe un ID estable derivado de su clase y posición
+  1: content => ({
+    ...content,
+    elements: mapElements(content.elements, (element, classId) => ({
+      ...element,
+      attributes: Array.isArray(element.attributes)
+        ? element.attributes.map((attr: unknown, index: number) =>
+            isObject(attr) && attr.id === undefined ? { id: `attr_${classId}_${index}`, ...attr } : attr,
+          )
+        : element.attributes,
+    })),
+  }),
+};
+
+function mapElements(elements: unknown, fn: (element: Record<string, unknown>, classId: string) => unknown) {
+  if (!isObject(elements)) return elements;
+  return Object.fromEntries(
+    Object.entries(elements).map(([classId, element]) => [
+      classId,
+      isObject(element) ? fn(element, classId) : element,
+    ]),
+  );
+}
+
+/**
+ * Completa los campos opcionales del contenido (colecciones vacías, IDs de
+ * atributos nuevos) y lo migra a la versión actual del esquema, para que el
+ * resto del código pueda asumir su forma. Contenido sin versión se trata como
+ * versión 1. No valida: devuelve tal cual lo que no es un objeto, y solo
+ * garantiza el tipo si la entrada ya tenía la forma de un diagrama.
+ */
+export function normalizeDiagramContent<T extends Pick<DiagramContent, 'elements' | 'relations'>>(raw: T): DiagramContent;
+export function normalizeDiagramContent(raw: unknown): unknown;
+export function normalizeDiagramContent(raw: unknown): unknown {
+  if (!isObject(raw)) return raw;
+
+  let content: Record<string, unknown> = {
+    ...raw,
+    version: raw.version ?? 1,
+    elements: mapElements(raw.elements ?? {}, element =>
+      element.attributes === undefined ? { ...element, attributes: [] } : element,
+    ),
+    relations: raw.relations ?? {},
+  };
+
+  let version = content.version;
+  while (isVersion(version) && version < DIAGRAM_CONTENT_VERSION && MIGRATIONS[version]) {
+    content = { ...MIGRATIONS[version](content), version: version + 1 };
+    version = content.version;
+  }
+
+  // Atributos agregados sin ID (clientes antiguos, IA): se les asigna uno nuevo
+  content.elements = mapElements(content.elements, element =>
+    Array.isArray(element.attributes) && element.attributes.some((attr: unknown) => isObject(attr) && attr.id === undefined)
+      ? {
+          ...element,
+          attributes: element.attributes.map((attr: unknown) =>
+            isObject(attr) && attr.id === undefined ? { id: createAttributeId(), ...attr } : attr,
+          ),
+        }
+      : element,
+  );
+
+  return content;
+}
+
+/**
+ * Valida el contenido contra el esquema y devuelve todos los errores encontrados.
+ * Una lista vacía significa que el contenido es válido.
+ */
+export function validateDiagramContent(content: unknown): DiagramContentError[] {
+  const errors: DiagramContentError[] = [];
+  const fail = (path: string, message: string) => errors.push({ path, message });
+
+  if (!isObject(content)) {
+    fail('', 'content must be an object');
+    return errors;
+  }
+
+  if (!isVersion(content.version) || content.version < 1) {
+    fail('version', 'version must be a positive integer');
+  } else if (content.version > DIAGRAM_CONTENT_VERSION) {
+    fail('version', `version ${content.version} is newer than supported version ${DIAGRAM_CONTENT_VERSION}`);
+  }
+
+  const validatePoint = (path: string, point: unknown) => {
+    if (!isObject(point)) {
+      fail(path, 'must be an object with x and y');
+      return;
+    }
+    if (!isFiniteNumber(point.x)) fail(`${path}.x`, 'must be a finite number');
+    if (!isFiniteNumber(point.y)) fail(`${path}.y`, 'must be a finite number');
+  };
+
+  const validateOptionalObject = (path: string, value: unknown) => {
+    if (value !== undefined && !isObject(value)) fail(path, 'must be an object');
+  };
+
+  // ---------- Clases ----------
+  const elements = content.elements;
+  if (!isObject(elements)) {
+    fail('elements', 'elements must be an object keyed by class id');
+  } else {
+    for (const [classId, element] of Object.entries(elements)) {
+      const path = `elements.${classId}`;
+      if (!isObject(element)) {
+        fail(path, 'class must be an object');
+        continue;
+      }
+
+      if (!isNonEmptyString(element.name)) fail(`${path}.name`, 'name must be a non-empty string');
+      validatePoint(`${path}.position`, element.position);
+
+      if (element.size !== undefined) {
+        if (!isObject(element.size)) {
+          fail(`${path}.size`, 'must be an object with width and height');
+        } else {
+          if (!isFiniteNumber(element.size.width) || element.size.width <= 0) {
+            fail(`${path}.size.width`, 'must be a positive number');
+          }
+          if (!isFiniteNumber(element.size.height) || element.size.height <= 0) {
+            fail(`${path}.size.height`, 'must be a positive number');
+          }
+        }
+      }
+      validateOptionalObject(`${path}.style`, element.style);
+
+      if (!Array.isArray(element.attributes)) {
+        fail(`${path}.attributes`, 'attributes must be an array');
+        continue;
+      }
+
+      const seenNames = new Set<string>();
+      const seenIds = new Set<string>();
+      element.attributes.forEach((attr: unknown, index: number) => {
+        const attrPath = `${path}.attributes.${index}`;
+        if (!isObject(attr)) {
+          fail(attrPath, 'attribute must be an object');
+          return;
+        }
+        if (!isNonEmptyString(attr.id)) {
+          fail(`${attrPath}.id`, 'id must be a non-empty string');
+        } else {
+          if (seenIds.has(attr.id)) fail(`${attrPath}.id`, `duplicate attribute id "${attr.id}"`);
+          seenIds.add(attr.id);
+        }
+        if (!isNonEmptyString(attr.name)) {
+          fail(`${attrPath}.name`, 'name must be a non-empty string');
+        } else {
+          const key = attr.name.toLowerCase();
+          if (seenNames.has(key)) fail(`${attrPath}.name`, `duplicate attribute "${attr.name}"`);
+          seenNames.add(key);
+        }
+        if (!isOneOf(ATTRIBUTE_TYPES, attr.type)) {
+          fail(`${attrPath}.type`, `type must be one of: ${ATTRIBUTE_TYPES.join(', ')}`);
+        }
+      });
+    }
+  }
+
+  // ---------- Relaciones ----------
+  const relations = content.relations;
+  if (!isObject(relations)) {
+    fail('relations', 'relations must be an object keyed by relation id');
+  } else {
+    for (const [relationId, relation] of Object.entries(relations)) {
+      const path = `relations.${relationId}`;
+      if (!isObject(relation)) {
+        fail(path, 'relation must be an object');
+        continue;
+      }
+
+      for (const end of ['from', 'to'] as const) {
+        if (!isNonEmptyString(relation[end])) {
+          fail(`${path}.${end}`, `${end} must be a class id`);
+        } else if (isObject(elements) && !elements[relation[end]]) {
+          fail(`${path}.${end}`, `class "${relation[end]}" does not exist`);
+        }
+      }
+
+      if (!isOneOf(RELATION_TYPES, relation.type)) {
+        fail(`${path}.type`, `type must be one of: ${RELATION_TYPES.join(', ')}`);
+      }
+
+      if (relation.vertices !== undefined) {
+        if (!Array.isArray(relation.vertices)) {
+          fail(`${path}.vertices`, 'vertices must be an array');
+        } else {
+          relation.vertices.forEach((vertex: unknown, index: number) =>
+            validatePoint(`${path}.vertices.${index}`, vertex),
+          );
+        }
+      }
+
+      if (relation.labels !== undefined) {
+        if (!Array.isArray(relation.labels)) {
+          fail(`${path}.labels`, 'labels must be an array');
+        } else {
+          relation.labels.forEach((label: unknown, index: number) => {
+            const labelPath = `${path}.labels.${index}`;
+            if (!isObject(label)) {
+              fail(labelPath, 'label must be an object');
+              return;
+            }
+            // JointJS admite la posición como número o como objeto ({ distance, offset })
+            if (label.position !== undefined && !isFiniteNumber(label.position) && !isObject(label.position)) {
+              fail(`${labelPath}.position`, 'must be a finite number or an object');
+            }
+            if (label.text !== undefined && typeof label.text !== 'string') fail(`${labelPath}.text`, 'must be a string');
+            validateOptionalObject(`${labelPath}.attrs`, label.attrs);
+          });
+        }
+      }
+
+      validateOptionalObject(`${path}.attrs`, relation.attrs);
+      validateOptionalObject(`${path}.router`, relation.router);
+      validateOptionalObject(`${path}.connector`, relation.connector);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Normaliza y valida el contenido. Lanza `DiagramContentValidationException`
+ * con los errores por campo si el contenido no cumple el esquema.
+ */
+export function parseDiagramContent(raw: unknown): DiagramContent {
+  const content = normalizeDiagramContent(raw);
+  const errors = validateDiagramContent(content);
+  if (errors.length > 0) {
+    throw new DiagramContentValidationException(errors);
+  }
+  return content as DiagramContent;
+}
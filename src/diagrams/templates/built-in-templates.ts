@@ -0,0 +1,148 @@
+// src/diagrams/templates/built-in-templates.ts
+import {
+  AttributeType,
+  ClassElement,
+  DIAGRAM_CONTENT_VERSION,
+  DiagramContent,
+  Relation,
+  RelationType,
+} from '../schema/diagram-content.schema';
+
+export interface BuiltInTemplate {
+  key: string;
+  name: string;
+  description: string;
+  content: DiagramContent;
+}
+
+type ClassSpec = [name: string, x: number, y: number, attributes: [string, AttributeType][]];
+type RelationSpec = [from: string, to: string, type: RelationType];
+
+/**
+ * Arma el contenido a partir de una descripción compacta. Los IDs son
+ * estables (derivados de la clave de la plantilla); al usar la plantilla se
+ * reemplazan por IDs nuevos (ver cloneWithFreshIds).
+ */
+function buildContent(key: string, classes: Record<string, ClassSpec>, relations: RelationSpec[]): DiagramContent {
+  const elements: Record<string, ClassElement> = {};
+  for (const [id, [name, x, y, attributes]] of Object.entries(classes)) {
+    elements[`class_${key}_${id}`] = {
+      name,
+      position: { x, y },
+      attributes: attributes.map(([attrName, type], index) => ({
+        id: `attr_${key}_${id}_${index}`,
+        name: attrName,
+        type,
+      })),
+    };
+  }
+
+  const relationMap: Record<string, Relation> = {};
+  relations.forEach(([from, to, type], index) => {
+    relationMap[`rel_${key}_${index}`] = { from: `class_${key}_${from}`, to: `class_${key}_${to}`, type };
+  });
+
+  return { version: DIAGRAM_CONTENT_VERSION, elements, relations: relationMap };
+}
+
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    key: 'library',
+    name: 'Biblioteca',
+    description: 'Libros, copias, autores, editoriales y préstamos a usuarios',
+    content: buildContent(
+      'library',
+      {
+        usuario: ['Usuario', 30, 280, [['id', 'Long'], ['nombre', 'String'], ['email', 'String'], ['celular', 'String']]],
+        libro: ['Libro', 580, 280, [['id', 'Long'], ['titulo', 'String'], ['isbn', 'String'], ['anioPublicacion', 'Integer']]],
+        copia: ['Copia', 580, 530, [['id', 'Long'], ['codigo', 'String'], ['disponible', 'Boolean']]],
+        autor: ['Autor', 420, 60, [['id', 'Long'], ['nombre', 'String'], ['nacionalidad', 'String']]],
+        editorial: ['Editorial', 800, 120, [['id', 'Long'], ['nombre', 'String'], ['direccion', 'String']]],
+        categoria: ['Categoria', 800, 420, [['id', 'Long'], ['nombre', 'String']]],
+        prestamo: ['Prestamo', 300, 530, [['id', 'Long'], ['fechaPrestamo', 'LocalDate'], ['fechaDevolucion', 'LocalDate'], ['devuelto', 'Boolean']]],
+      },
+      [
+        ['libro', 'copia', 'OneToMany'],
+        ['libro', 'autor', 'ManyToMany'],
+        ['libro', 'editorial', 'ManyToOne'],
+        ['libro', 'categoria', 'ManyToOne'],
+        ['usuario', 'prestamo', 'OneToMany'],
+        ['prestamo', 'copia', 'ManyToOne'],
+      ],
+    ),
+  },
+  {
+    key: 'ecommerce',
+    name: 'Tienda en línea',
+    description: 'Clientes, productos, categorías, pedidos, detalle de pedido y pagos',
+    content: buildContent(
+      'ecommerce',
+      {
+        cliente: ['Cliente', 30, 80, [['id', 'Long'], ['nombre', 'String'], ['email', 'String'], ['direccion', 'String']]],
+        pedido: ['Pedido', 330, 80, [['id', 'Long'], ['fecha', 'LocalDateTime'], ['estado', 'String'], ['total', 'BigDecimal']]],
+        detalle: ['DetallePedido', 330, 360, [['id', 'Long'], ['cantidad', 'Integer'], ['precioUnitario', 'BigDecimal']]],
+        producto: ['Producto', 640, 360, [['id', 'Long'], ['nombre', 'String'], ['descripcion', 'String'], ['precio', 'BigDecimal'], ['stock', 'Integer']]],
+        categoria: ['Categoria', 640, 620, [['id', 'Long'], ['nombre', 'String']]],
+        pago: ['Pago', 640, 80, [['id', 'Long'], ['metodo', 'String'], ['monto', 'BigDecimal'], ['fecha', 'LocalDateTime']]],
+      },
+      [
+        ['cliente', 'pedido', 'OneToMany'],
+        ['pedido', 'detalle', 'Composition'],
+        ['detalle', 'producto', 'ManyToOne'],
+        ['producto', 'categoria', 'ManyToOne'],
+        ['pedido', 'pago', 'OneToOne'],
+      ],
+    ),
+  },
+  {
+    key: 'school',
+    name: 'Colegio',
+    description: 'Estudiantes, docentes, cursos, materias, inscripciones y notas',
+    content: buildContent(
+      'school',
+      {
+        persona: ['Persona', 330, 20, [['id', 'Long'], ['nombre', 'String'], ['apellido', 'String'], ['fechaNacimiento', 'LocalDate']]],
+        estudiante: ['Estudiante', 100, 260, [['registro', 'String'], ['tutor', 'String']]],
+        docente: ['Docente', 560, 260, [['especialidad', 'String'], ['salario', 'BigDecimal']]],
+        curso: ['Curso', 330, 480, [['id', 'Long'], ['nombre', 'String'], ['gestion', 'Integer']]],
+        materia: ['Materia', 640, 480, [['id', 'Long'], ['nombre', 'String'], ['horasSemanales', 'Integer']]],
+        inscripcion: ['Inscripcion', 60, 480, [['id', 'Long'], ['fecha', 'LocalDate']]],
+        nota: ['Nota', 60, 700, [['id', 'Long'], ['trimestre', 'Integer'], ['calificacion', 'Double']]],
+      },
+      [
+        ['estudiante', 'persona', 'Inheritance'],
+        ['docente', 'persona', 'Inheritance'],
+        ['estudiante', 'inscripcion', 'OneToMany'],
+        ['inscripcion', 'curso', 'ManyToOne'],
+        ['curso', 'materia', 'ManyToMany'],
+        ['docente', 'materia', 'OneToMany'],
+        ['inscripcion', 'nota', 'Composition'],
+      ],
+    ),
+  },
+  {
+    key: 'clinic',
+    name: 'Clínica',
+    description: 'Pacientes, médicos, especialidades, citas, consultas y recetas',
+    content: buildContent(
+      'clinic',
+      {
+        paciente: ['Paciente', 30, 80, [['id', 'Long'], ['nombre', 'String'], ['ci', 'String'], ['fechaNacimiento', 'LocalDate'], ['telefono', 'String']]],
+        medico: ['Medico', 640, 80, [['id', 'Long'], ['nombre', 'String'], ['matricula', 'String']]],
+        especialidad: ['Especialidad', 640, 340, [['id', 'Long'], ['nombre', 'String']]],
+        cita: ['Cita', 330, 80, [['id', 'Long'], ['fechaHora', 'LocalDateTime'], ['estado', 'String']]],
+        consulta: ['Consulta', 330, 340, [['id', 'Long'], ['diagnostico', 'String'], ['observaciones', 'String']]],
+        receta: ['Receta', 330, 580, [['id', 'Long'], ['medicamento', 'String'], ['dosis', 'String'], ['dias', 'Integer']]],
+        historial: ['HistorialClinico', 30, 340, [['id', 'Long'], ['grupoSanguineo', 'String'], ['alergias', 'String']]],
+      },
+      [
+        ['paciente', 'cita', 'OneToMany'],
+        ['medico', 'cita', 'OneToMany'],
+        ['medico', 'especialidad', 'ManyToOne'],
+        ['cita', 'consulta', 'OneToOne'],
+        ['consulta', 'receta', 'Composition'],
+        ['paciente', 'historial', 'OneToOne'],
+      ],
+    ),
+  },
+];
@@ -0,0 +1,24 @@
+// src/diagrams/utils/cursor.ts
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Cursor opaco para paginación por clave: guarda el valor del campo de orden
+ * y el ID del último elemento de la página.
+ */
+export interface Cursor {
+  value: string | number;
+  id: number;
+}
+
+export const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+
+export function decodeCursor(raw: string): Cursor {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(raw, 'base64url').toString());
+    const [value, id] = Array.isArray(parsed) ? (parsed as unknown[]) : [];
+    if ((typeof value === 'string' || typeof value === 'number') && typeof id === 'number' && Number.isInteger(id)) return { value, id };
+  } catch {
+    // se reporta abajo
+  }
+  throw new BadRequestException('Invalid cursor');
+}
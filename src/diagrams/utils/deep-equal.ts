@@ -0,0 +1,15 @@
+// src/diagrams/utils/deep-equal.ts
+
+/**
+ * Serializa a JSON ordenando las claves de los objetos, para comparar
+ * contenidos sin depender del orden de claves (jsonb de Postgres lo cambia).
+ */
+export function stableStringify(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, val: unknown) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(Object.keys(val).sort().map(key => [key, (val as Record<string, unknown>)[key]]))
+      : val,
+  );
+}
+
+export const isEqual = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
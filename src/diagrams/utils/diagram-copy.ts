@@ -0,0 +1,36 @@
+// src/diagrams/utils/diagram-copy.ts
+import { randomUUID } from 'crypto';
+import { ClassElement, DiagramContent, Relation } from '../schema/diagram-content.schema';
+import { createAttributeId } from '../schema/diagram-content.validator';
+
+export const createClassId = () => `class_${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+
+/**
+ * Copia profunda del contenido con IDs nuevos para clases, atributos y
+ * relaciones; los `from`/`to` de las relaciones se reescriben con los nuevos
+ * IDs de clase. Las relaciones que apuntan a clases inexistentes se descartan.
+ */
+export function cloneWithFreshIds(content: DiagramContent): DiagramContent {
+  const copy: DiagramContent = structuredClone(content);
+  const classIds = new Map<string, string>();
+  const elements: Record<string, ClassElement> = {};
+  const relations: Record<string, Relation> = {};
+
+  for (const [id, element] of Object.entries(copy.elements)) {
+    const newId = createClassId();
+    classIds.set(id, newId);
+    elements[newId] = {
+      ...element,
+      attributes: element.attributes.map(attr => ({ ...attr, id: createAttributeId() })),
+    };
+  }
+
+  for (const relation of Object.values(copy.relations)) {
+    const from = classIds.get(relation.from);
+    const to = classIds.get(relation.to);
+    if (!from || !to) continue;
+    relations[randomUUID()] = { ...relation, from, to };
+  }
+
+  return { version: copy.version, elements, relations };
+}
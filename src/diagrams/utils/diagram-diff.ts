@@ -0,0 +1,136 @@
+// src/diagrams/utils/diagram-diff.ts
+import { Attribute, ClassElement, DiagramContent, Relation } from '../schema/diagram-content.schema';
+import { isEqual } from './deep-equal';
+
+export interface FieldChange<T = any> {
+  from: T;
+  to: T;
+}
+
+export interface AttributeDiff {
+  added: Attribute[];
+  removed: Attribute[];
+  changed: { id: string; name: string; changes: Record<string, FieldChange> }[];
+}
+
+export interface ClassChange {
+  id: string;
+  name: string;
+  changes: Record<string, FieldChange>;
+  attributes: AttributeDiff;
+}
+
+export interface RelationChange {
+  id: string;
+  changes: Record<string, FieldChange>;
+}
+
+export interface DiagramDiff {
+  classes: {
+    added: ({ id: string } & ClassElement)[];
+    removed: ({ id: string } & ClassElement)[];
+    changed: ClassChange[];
+  };
+  relations: {
+    added: ({ id: string } & Relation)[];
+    removed: ({ id: string } & Relation)[];
+    changed: RelationChange[];
+  };
+}
+
+/**
+ * Compara los campos indicados de dos objetos y devuelve solo los que cambiaron.
+ */
+function diffFields<T extends object>(before: T, after: T, fields: (keyof T & string)[]) {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of fields) {
+    if (!isEqual(before[field], after[field])) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Empareja atributos por ID; los que no coinciden por ID se emparejan por nombre
+ * (snapshots de distintas migraciones pueden tener IDs diferentes).
+ */
+function diffAttributes(before: Attribute[], after: Attribute[]): AttributeDiff {
+  const pending = new Map(before.map(attr => [attr.id, attr]));
+  const pairs: [Attribute | undefined, Attribute][] = [];
+
+  for (const attr of after) {
+    const previous = pending.get(attr.id);
+    if (previous) pending.delete(attr.id);
+    pairs.push([previous, attr]);
+  }
+  for (const pair of pairs) {
+    if (pair[0]) continue;
+    const byName = [...pending.values()].find(attr => attr.name === pair[1].name);
+    if (byName) {
+      pending.delete(byName.id);
+      pair[0] = byName;
+    }
+  }
+
+  const diff: AttributeDiff = { added: [], removed: [...pending.values()], changed: [] };
+  for (const [previous, attr] of pairs) {
+    if (!previous) {
+      diff.added.push(attr);
+      continue;
+    }
+    const changes = diffFields(previous, attr, ['name', 'type']);
+    if (Object.keys(changes).length > 0) {
+      diff.changed.push({ id: attr.id, name: attr.name, changes });
+    }
+  }
+  return diff;
+}
+
+/**
+ * Diff estructural entre dos contenidos: clases, atributos y relaciones
+ * agregados, eliminados o modificados.
+ */
+export function diffDiagramContent(before: DiagramContent, after: DiagramContent): DiagramDiff {
+  const diff: DiagramDiff = {
+    classes: { added: [], removed: [], changed: [] },
+    relations: { added: [], removed: [], changed: [] },
+  };
+
+  for (const [id, element] of Object.entries(after.elements)) {
+    const previous = before.elements[id];
+    if (!previous) {
+      diff.classes.added.push({ id, ...element });
+      continue;
+    }
+    const changes = diffFields(previous, element, ['name', 'position', 'size', 'style']);
+    const attributes = diffAttributes(previous.attributes, element.attributes);
+    const attributesChanged =
+      attributes.added.length + attributes.removed.length + attributes.changed.length > 0;
+    if (Object.keys(changes).length > 0 || attributesChanged) {
+      diff.classes.changed.push({ id, name: element.name, changes, attributes });
+    }
+  }
+  for (const [id, element] of Object.entries(before.elements)) {
+    if (!after.elements[id]) diff.classes.removed.push({ id, ...element });
+  }
+
+  for (const [id, relation] of Object.entries(after.relations)) {
+    const previous = before.relations[id];
+    if (!previous) {
+      diff.relations.added.push({ id, ...relation });
+      continue;
+    }
+    const changes = diffFields(previous, relation, [
+      'from', 'to', 'type', 'vertices', 'labels', 'attrs', 'router', 'connector',
+    ]);
+    if (Object.keys(changes).length > 0) {
+      diff.relations.changed.push({ id, changes });
+    }
+  }
+  for (const [id, relation] of Object.entries(before.relations)) {
+    if (!after.relations[id]) diff.relations.removed.push({ id, ...relation });
+  }
+
+  return diff;
+}
@@ -0,0 +1,139 @@
+// src/diagrams/utils/diagram-lint.spec.ts
+import { AttributeType, ClassElement, DiagramContent, Relation } from '../schema/diagram-content.schema';
+import { validateDiagramContent } from '../schema/diagram-content.validator';
+import { applyOperation } from './diagram-operations';
+import { DiagramFinding, lintDiagramContent } from './diagram-lint';
+
+// Clase con `id` más los atributos indicados ("nombre" o "nombre:Tipo")
+const cls = (name: string, ...attributes: string[]): ClassElement => ({
+  name,
+  position: { x: 0, y: 0 },
+  attributes: ['id:Long', ...attributes].map((attr, index) => {
+    const [attrName, type = 'String'] = attr.split(':');
+    return { id: `${name}_${index}`, name: attrName, type: type as AttributeType };
+  }),
+});
+
+const model = (elements: Record<string, ClassElement>, relations: Record<string, Relation> = {}): DiagramContent => ({
+  version: 2,
+  elements,
+  relations,
+});
+
+const ofCategory = (findings: DiagramFinding[], category: DiagramFinding['category']) =>
+  findings.filter(finding => finding.category === category);
+
+// Aplica la corrección sugerida como lo haría aceptar la propuesta
+const applyFix = (content: DiagramContent, finding: DiagramFinding) =>
+  applyOperation(content, { type: 'diagram:patch', ...finding.fix! });
+
+describe('lintDiagramContent', () => {
+  it('no reporta nada en un modelo correcto', () => {
+    const content = model(
+      { user: cls('User', 'name', 'email'), order: cls('Order', 'total:Double') },
+      { r1: { from: 'order', to: 'user', type: 'ManyToOne' } },
+    );
+    expect(lintDiagramContent(content)).toEqual([]);
+  });
+
+  it('sugiere PascalCase para clases y camelCase para atributos', () => {
+    const content = model({ item: cls('order_item', 'unit_price:Double', 'quantity:Integer') });
+
+    const [finding] = ofCategory(lintDiagramContent(content), 'naming');
+
+    expect(finding).toMatchObject({ severity: 'info', classIds: ['item'] });
+    const fixed = applyFix(content, finding).elements.item;
+    expect(fixed.name).toBe('OrderItem');
+    expect(fixed.attributes.map(attr => attr.name)).toEqual(['id', 'unitPrice', 'quantity']);
+    // Se conservan los IDs de los atributos
+    expect(fixed.attributes[1].id).toBe(content.elements.item.attributes[1].id);
+  });
+
+  it('marca como error dos clases con el mismo nombre', () => {
+    const findings = lintDiagramContent(model({ a: cls('Cliente'), b: cls('cliente') }));
+    expect(findings).toContainEqual(expect.objectContaining({ category: 'naming', severity: 'error', classIds: ['a', 'b'] }));
+  });
+
+  it('pide un id en las clases raíz y no en las subclases', () => {
+    const person: ClassElement = { name: 'Person', position: { x: 0, y: 0 }, attributes: [{ id: 'p1', name: 'name', type: 'String' }] };
+    const student: ClassElement = { name: 'Student', position: { x: 0, y: 0 }, attributes: [{ id: 's1', name: 'code', type: 'String' }] };
+    const content = model({ person, student }, { r1: { from: 'student', to: 'person', type: 'Inheritance' } });
+
+    const findings = ofCategory(lintDiagramContent(content), 'normalization');
+
+    expect(findings.map(finding => finding.classIds)).toEqual([['person']]);
+    const fixed = applyFix(content, findings[0]);
+    expect(fixed.elements.person.attributes[0]).toMatchObject({ name: 'id', type: 'Long' });
+    expect(validateDiagramContent(fixed)).toEqual([]);
+  });
+
+  it('detecta grupos repetidos de atributos', () => {
+    const findings = lintDiagramContent(model({ c: cls('Customer', 'phone1', 'phone2', 'email') }));
+    const [finding, ...rest] = ofCategory(findings, 'extract-class');
+    expect(rest).toEqual([]);
+    expect(finding.severity).toBe('warning');
+    expect(finding.message).toContain('phone1, phone2');
+  });
+
+  it('propone una relación para una clave foránea escrita como atributo', () => {
+    const content = model({ user: cls('User', 'name'), order: cls('Order', 'userId:Long') });
+
+    const [finding] = ofCategory(lintDiagramContent(content), 'missing-relation');
+
+    expect(finding.classIds).toEqual(['order', 'user']);
+    const fixed = applyFix(content, finding);
+    expect(fixed.elements.order.attributes.map(attr => attr.name)).toEqual(['id']);
+    expect(Object.values(fixed.relations)).toEqual([{ from: 'order', to: 'user', type: 'ManyToOne' }]);
+  });
+
+  it('señala la clave foránea que duplica una relación existente', () => {
+    const content = model(
+      { user: cls('User', 'name'), order: cls('Order', 'user_id:Long') },
+      { r1: { from: 'user', to: 'order', type: 'OneToMany' } },
+    );
+
+    const findings = lintDiagramContent(content);
+
+    expect(ofCategory(findings, 'missing-relation')).toEqual([]);
+    expect(ofCategory(findings, 'normalization')).toEqual([
+      expect.objectContaining({ severity: 'info', relationIds: ['r1'] }),
+    ]);
+  });
+
+  it('advierte relaciones paralelas y partes compuestas en más de un todo', () => {
+    const content = model(
+      { a: cls('Invoice'), b: cls('Customer'), line: cls('Line') },
+      {
+        r1: { from: 'a', to: 'b', type: 'ManyToOne' },
+        r2: { from: 'b', to: 'a', type: 'OneToMany' },
+        r3: { from: 'a', to: 'line', type: 'Composition' },
+        r4: { from: 'b', to: 'line', type: 'Composition' },
+      },
+    );
+
+    const findings = ofCategory(lintDiagramContent(content), 'cardinality');
+
+    expect(findings.map(finding => finding.relationIds)).toEqual([['r1', 'r2'], ['r3', 'r4']]);
+  });
+
+  it('no cuenta la herencia como relación paralela', () => {
+    const content = model(
+      { a: cls('Account'), b: { ...cls('SavingsAccount'), attributes: [] } },
+      { r1: { from: 'b', to: 'a', type: 'Inheritance' }, r2: { from: 'b', to: 'a', type: 'ManyToOne' } },
+    );
+    expect(ofCategory(lintDiagramContent(content), 'cardinality')).toEqual([]);
+  });
+
+  it('señala las clases en el idioma minoritario', () => {
+    const content = model({
+      a: cls('Cliente', 'nombre', 'direccion'),
+      b: cls('Producto', 'precio:Double'),
+      c: cls('Order', 'status'),
+    });
+
+    const [finding] = ofCategory(lintDiagramContent(content), 'language-mix');
+
+    expect(finding.classIds).toEqual(['c']);
+    expect(finding.message).toContain('mostly Spanish');
+  });
+});
@@ -0,0 +1,276 @@
+// src/diagrams/utils/diagram-lint.ts
+import { randomUUID } from 'crypto';
+import { ClassElement, DiagramContent, Relation } from '../schema/diagram-content.schema';
+import { createAttributeId } from '../schema/diagram-content.validator';
+import { DiagramOperation } from './diagram-operations';
+
+export const FINDING_CATEGORIES = [
+  'missing-relation',
+  'cardinality',
+  'extract-class',
+  'naming',
+  'language-mix',
+  'normalization',
+  'other',
+] as const;
+export type FindingCategory = (typeof FINDING_CATEGORIES)[number];
+
+export const FINDING_SEVERITIES = ['info', 'warning', 'error'] as const;
+export type FindingSeverity = (typeof FINDING_SEVERITIES)[number];
+
+// Estado de clases y relaciones a aplicar por ID (null = eliminar), como en `diagram:patch`
+export type DiagramPatch = Omit<Extract<DiagramOperation, { type: 'diagram:patch' }>, 'type'>;
+
+export interface DiagramFinding {
+  id: string;
+  source: 'lint' | 'ai';
+  category: FindingCategory;
+  severity: FindingSeverity;
+  message: string;
+  classIds: string[];
+  relationIds: string[];
+  // Corrección sugerida; al revisar se guarda como propuesta (`proposalId`)
+  fix?: DiagramPatch;
+  proposalId?: number;
+}
+
+const SPANISH_WORDS = new Set([
+  'nombre', 'apellido', 'fecha', 'precio', 'cantidad', 'direccion', 'telefono', 'celular', 'correo', 'usuario',
+  'cliente', 'producto', 'pedido', 'estado', 'descripcion', 'codigo', 'tipo', 'numero', 'monto',
+  'pago', 'factura', 'venta', 'compra', 'libro', 'autor', 'categoria', 'empleado', 'empresa', 'ciudad',
+  'pais', 'edad', 'sexo', 'activo', 'nacimiento', 'inicio', 'hora', 'dia', 'mes', 'anio', 'curso',
+  'materia', 'nota', 'persona', 'detalle', 'carrito', 'proveedor', 'almacen', 'inventario', 'titulo',
+]);
+
+const ENGLISH_WORDS = new Set([
+  'name', 'first', 'last', 'date', 'price', 'quantity', 'address', 'phone', 'user', 'customer',
+  'product', 'order', 'status', 'state', 'description', 'code', 'type', 'number', 'amount', 'payment',
+  'invoice', 'sale', 'purchase', 'book', 'author', 'category', 'employee', 'company', 'city', 'country',
+  'age', 'gender', 'active', 'birth', 'start', 'end', 'time', 'day', 'month', 'year', 'course', 'subject',
+  'grade', 'person', 'detail', 'cart', 'supplier', 'warehouse', 'inventory', 'title', 'created', 'updated',
+]);
+
+const PASCAL_CASE = /^[A-Z][A-Za-z0-9]*$/;
+const CAMEL_CASE = /^[a-z][A-Za-z0-9]*$/;
+
+const stripAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// "fecha_nacimiento", "FechaNacimiento", "fecha nacimiento" -> ["fecha", "nacimiento"]
+function words(name: string) {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9ÁÉÍÓÚÑáéíóúñ]+/)
+    .filter(Boolean);
+}
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1).toLowerCase();
+const toPascalCase = (name: string) => words(name).map(capitalize).join('');
+const toCamelCase = (name: string) => {
+  const [first = '', ...rest] = words(name);
+  return first.toLowerCase() + rest.map(capitalize).join('');
+};
+
+// También en plural ("clientes", "orders")
+const includesWord = (dictionary: Set<string>, word: string) =>
+  dictionary.has(word) || dictionary.has(word.replace(/s$/, '')) || dictionary.has(word.replace(/es$/, ''));
+
+function languageOf(word: string): 'es' | 'en' | null {
+  if (/[ñáéíóú]/i.test(word)) return 'es';
+  const plain = stripAccents(word).toLowerCase();
+  const es = includesWord(SPANISH_WORDS, plain);
+  const en = includesWord(ENGLISH_WORDS, plain);
+  if (es && !en) return 'es';
+  if (en && !es) return 'en';
+  if (/cion$|dad$|miento$/.test(plain)) return 'es';
+  if (/ness$|ship$/.test(plain)) return 'en';
+  return null;
+}
+
+const linked = (relation: Relation, a: string, b: string) =>
+  (relation.from === a && relation.to === b) || (relation.from === b && relation.to === a);
+
+/**
+ * Revisión estática del modelo, sin IA: nombres fuera de convención, clases
+ * sin `id`, grupos repetidos de atributos, claves foráneas escritas como
+ * atributo en lugar de relación, relaciones duplicadas, partes compuestas en
+ * más de un todo y mezcla de español e inglés.
+ */
+export function lintDiagramContent(content: DiagramContent): DiagramFinding[] {
+  const findings: DiagramFinding[] = [];
+  const add = (finding: Omit<DiagramFinding, 'id' | 'source' | 'relationIds'> & { relationIds?: string[] }) =>
+    findings.push({ id: `lint_${findings.length + 1}`, source: 'lint', relationIds: [], ...finding });
+
+  const classes = Object.entries(content.elements);
+  const relations = Object.entries(content.relations);
+  const subclasses = new Set(relations.filter(([, r]) => r.type === 'Inheritance').map(([, r]) => r.from));
+
+  // ---------- Nombres ----------
+  for (const [classId, element] of classes) {
+    const pascal = toPascalCase(element.name);
+    const name = PASCAL_CASE.test(element.name) || !pascal ? element.name : pascal;
+    const renamed = element.attributes.filter(attr => !CAMEL_CASE.test(attr.name) && toCamelCase(attr.name));
+    if (name === element.name && renamed.length === 0) continue;
+
+    const problems = [
+      ...(name !== element.name ? [`class name should be PascalCase ("${name}")`] : []),
+      ...(renamed.length > 0 ? [`attributes should be camelCase: ${renamed.map(attr => `${attr.name} -> ${toCamelCase(attr.name)}`).join(', ')}`] : []),
+    ];
+    add({
+      category: 'naming',
+      severity: 'info',
+      message: `"${element.name}": ${problems.join('; ')}`,
+      classIds: [classId],
+      fix: {
+        elements: {
+          [classId]: {
+            ...element,
+            name,
+            attributes: element.attributes.map(attr => (renamed.includes(attr) ? { ...attr, name: toCamelCase(attr.name) } : attr)),
+          },
+        },
+        relations: {},
+      },
+    });
+  }
+
+  const byName = new Map<string, string[]>();
+  for (const [classId, element] of classes) {
+    const key = stripAccents(element.name).toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), classId]);
+  }
+  for (const ids of byName.values()) {
+    if (ids.length < 2) continue;
+    add({
+      category: 'naming',
+      severity: 'error',
+      message: `${ids.length} classes are named "${content.elements[ids[0]].name}"; generated code would clash`,
+      classIds: ids,
+    });
+  }
+
+  // ---------- Normalización ----------
+  for (const [classId, element] of classes) {
+    if (!subclasses.has(classId) && !element.attributes.some(attr => attr.name.toLowerCase() === 'id')) {
+      add({
+        category: 'normalization',
+        severity: 'warning',
+        message: `"${element.name}" has no "id" attribute to use as primary key`,
+        classIds: [classId],
+        fix: {
+          elements: {
+            [classId]: { ...element, attributes: [{ id: createAttributeId(), name: 'id', type: 'Long' }, ...element.attributes] },
+          },
+          relations: {},
+        },
+      });
+    }
+
+    // telefono1, telefono2... -> grupo repetido
+    const groups = new Map<string, string[]>();
+    for (const attr of element.attributes) {
+      const match = attr.name.match(/^(.+?)_?\d+$/);
+      if (match) groups.set(match[1].toLowerCase(), [...(groups.get(match[1].toLowerCase()) ?? []), attr.name]);
+    }
+    for (const [stem, names] of groups) {
+      if (names.length < 2) continue;
+      add({
+        category: 'extract-class',
+        severity: 'warning',
+        message: `"${element.name}" repeats ${names.join(', ')}; consider a separate class with a OneToMany relation for "${stem}"`,
+        classIds: [classId],
+      });
+    }
+  }
+
+  // ---------- Claves foráneas como atributo ----------
+  const classByKey = new Map(classes.map(([id, element]) => [stripAccents(element.name).toLowerCase(), id]));
+  for (const [classId, element] of classes) {
+    for (const attr of element.attributes) {
+      const stem = attr.name.match(/^(.+?)_?id$/i)?.[1] ?? attr.name.match(/^id_?(.+)$/i)?.[1];
+      const targetId = stem ? classByKey.get(stripAccents(stem).toLowerCase()) : undefined;
+      if (!targetId || targetId === classId) continue;
+
+      const target = content.elements[targetId];
+      const without = { ...element, attributes: element.attributes.filter(a => a !== attr) };
+      const existing = relations.filter(([, r]) => linked(r, classId, targetId));
+      if (existing.length > 0) {
+        add({
+          category: 'normalization',
+          severity: 'info',
+          message: `"${element.name}.${attr.name}" duplicates the relation with "${target.name}"; the foreign key is generated from the relation`,
+          classIds: [classId, targetId],
+          relationIds: existing.map(([id]) => id),
+          fix: { elements: { [classId]: without }, relations: {} },
+        });
+      } else {
+        add({
+          category: 'missing-relation',
+          severity: 'warning',
+          message: `"${element.name}.${attr.name}" looks like a reference to "${target.name}"; model it as a ManyToOne relation`,
+          classIds: [classId, targetId],
+          fix: {
+            elements: { [classId]: without },
+            relations: { [randomUUID()]: { from: classId, to: targetId, type: 'ManyToOne' } },
+          },
+        });
+      }
+    }
+  }
+
+  // ---------- Relaciones ----------
+  const seenPairs = new Set<string>();
+  for (const [, relation] of relations) {
+    const pair = [relation.from, relation.to].sort().join('|');
+    if (seenPairs.has(pair)) continue;
+    seenPairs.add(pair);
+    const parallel = relations.filter(([, r]) => r.type !== 'Inheritance' && linked(r, relation.from, relation.to));
+    if (parallel.length < 2) continue;
+    const [a, b] = [content.elements[relation.from], content.elements[relation.to]];
+    add({
+      category: 'cardinality',
+      severity: 'warning',
+      message: `"${a?.name}" and "${b?.name}" are linked by ${parallel.length} relations (${parallel.map(([, r]) => r.type).join(', ')}); check they are not the same association modeled twice`,
+      classIds: [relation.from, relation.to],
+      relationIds: parallel.map(([id]) => id),
+    });
+  }
+
+  // En una composición, la parte (`to`) pertenece a un único todo
+  const wholes = new Map<string, string[]>();
+  for (const [id, relation] of relations) {
+    if (relation.type === 'Composition') wholes.set(relation.to, [...(wholes.get(relation.to) ?? []), id]);
+  }
+  for (const [partId, relationIds] of wholes) {
+    if (relationIds.length < 2) continue;
+    add({
+      category: 'cardinality',
+      severity: 'warning',
+      message: `"${content.elements[partId]?.name}" is a composed part of ${relationIds.length} classes; a part can only belong to one whole (use Aggregation or ManyToOne)`,
+      classIds: [partId, ...relationIds.map(id => content.relations[id].from)],
+      relationIds,
+    });
+  }
+
+  // ---------- Idioma ----------
+  const usage: Record<'es' | 'en', Set<string>> = { es: new Set(), en: new Set() };
+  const tag = (classId: string, element: ClassElement) => {
+    for (const name of [element.name, ...element.attributes.map(attr => attr.name)]) {
+      for (const word of words(name)) {
+        const language = languageOf(word);
+        if (language) usage[language].add(classId);
+      }
+    }
+  };
+  for (const [classId, element] of classes) tag(classId, element);
+  if (usage.es.size > 0 && usage.en.size > 0) {
+    const minority = usage.es.size >= usage.en.size ? 'en' : 'es';
+    add({
+      category: 'language-mix',
+      severity: 'info',
+      message: `Names mix Spanish and English; mostly ${minority === 'en' ? 'Spanish' : 'English'}, but these classes use ${minority === 'en' ? 'English' : 'Spanish'}: ${[...usage[minority]].map(id => content.elements[id].name).join(', ')}`,
+      classIds: [...usage[minority]],
+    });
+  }
+
+  return findings;
+}
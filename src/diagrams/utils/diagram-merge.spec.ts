@@ -0,0 +1,144 @@
+// src/diagrams/utils/diagram-merge.spec.ts
+import { ClassElement, DiagramContent } from '../schema/diagram-content.schema';
+import { mergeDiagramContent, threeWayMerge } from './diagram-merge';
+
+const base = (): DiagramContent => ({
+  version: 2,
+  elements: {
+    user: {
+      name: 'User',
+      position: { x: 0, y: 0 },
+      attributes: [
+        { id: 'a_id', name: 'id', type: 'Long' },
+        { id: 'a_name', name: 'name', type: 'String' },
+      ],
+    },
+    order: { name: 'Order', position: { x: 200, y: 0 }, attributes: [{ id: 'o_id', name: 'id', type: 'Long' }] },
+  },
+  relations: {
+    r1: { from: 'order', to: 'user', type: 'ManyToOne' },
+  },
+});
+
+// Copia de `base()` con cambios sobre una clase
+const withClass = (classId: string, change: (element: ClassElement) => void, content = base()) => {
+  change(content.elements[classId]);
+  return content;
+};
+
+describe('threeWayMerge', () => {
+  it('combina cambios a clases distintas sin conflictos', () => {
+    const ours = withClass('user', user => (user.name = 'Client'));
+    const theirs = withClass('order', order => (order.position = { x: 300, y: 50 }));
+
+    const result = threeWayMerge(base(), ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content.elements.user.name).toBe('Client');
+    expect(result.content.elements.order.position).toEqual({ x: 300, y: 50 });
+  });
+
+  it('fusiona campo a campo y atributo por atributo una clase cambiada en ambos lados', () => {
+    const ours = withClass('user', user => {
+      user.name = 'Client';
+      user.attributes.push({ id: 'a_email', name: 'email', type: 'String' });
+    });
+    const theirs = withClass('user', user => {
+      user.position = { x: 10, y: 10 };
+      user.attributes[1] = { ...user.attributes[1], type: 'Integer' };
+      user.attributes.push({ id: 'a_age', name: 'age', type: 'Integer' });
+    });
+
+    const result = threeWayMerge(base(), ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content.elements.user).toMatchObject({ name: 'Client', position: { x: 10, y: 10 } });
+    expect(result.content.elements.user.attributes).toEqual([
+      { id: 'a_id', name: 'id', type: 'Long' },
+      { id: 'a_name', name: 'name', type: 'Integer' },
+      { id: 'a_email', name: 'email', type: 'String' },
+      { id: 'a_age', name: 'age', type: 'Integer' },
+    ]);
+  });
+
+  it('reporta un conflicto cuando ambos cambian el mismo campo de forma distinta', () => {
+    const ours = withClass('user', user => (user.name = 'Client'));
+    const theirs = withClass('user', user => (user.name = 'Customer'));
+
+    const result = threeWayMerge(base(), ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      { path: 'elements.user.name', kind: 'class', base: 'User', ours: 'Client', theirs: 'Customer' },
+    ]);
+    // Sin resolución se conserva "ours"
+    expect(result.content.elements.user.name).toBe('Client');
+  });
+
+  it('aplica las resoluciones explícitas por ruta', () => {
+    const ours = withClass('user', user => (user.attributes[1].type = 'Integer'));
+    const theirs = withClass('user', user => (user.attributes[1].type = 'Double'));
+
+    const conflicted = threeWayMerge(base(), ours, theirs);
+    expect(conflicted.conflicts.map(conflict => conflict.path)).toEqual(['elements.user.attributes.a_name']);
+
+    const resolved = threeWayMerge(base(), ours, theirs, { 'elements.user.attributes.a_name': 'theirs' });
+    expect(resolved.conflicts).toEqual([]);
+    expect(resolved.content.elements.user.attributes[1].type).toBe('Double');
+  });
+
+  it('los cambios iguales en ambos lados no son conflicto', () => {
+    const ours = withClass('user', user => (user.name = 'Client'));
+    const theirs = withClass('user', user => (user.name = 'Client'));
+    expect(threeWayMerge(base(), ours, theirs).conflicts).toEqual([]);
+  });
+
+  it('una clase eliminada en un lado y modificada en el otro es conflicto', () => {
+    const ours = base();
+    delete ours.elements.order;
+    delete ours.relations.r1;
+    const theirs = withClass('order', order => (order.name = 'Purchase'));
+
+    const result = threeWayMerge(base(), ours, theirs);
+
+    expect(result.conflicts.map(conflict => [conflict.path, conflict.kind])).toEqual([['elements.order', 'class']]);
+  });
+
+  it('descarta las relaciones que apuntan a una clase eliminada en el otro lado', () => {
+    const ours = base();
+    delete ours.elements.order;
+    delete ours.relations.r1;
+    const theirs = base();
+    theirs.relations.r2 = { from: 'user', to: 'order', type: 'OneToMany' };
+
+    const result = threeWayMerge(base(), ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content.elements.order).toBeUndefined();
+    expect(result.droppedRelations).toEqual(['r2']);
+    expect(result.content.relations).toEqual({});
+  });
+
+  it('un atributo eliminado en un lado y editado en el otro es conflicto', () => {
+    const ours = withClass('user', user => user.attributes.splice(1, 1));
+    const theirs = withClass('user', user => (user.attributes[1].name = 'fullName'));
+
+    const result = threeWayMerge(base(), ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ path: 'elements.user.attributes.a_name', kind: 'attribute', ours: undefined }),
+    ]);
+  });
+});
+
+describe('mergeDiagramContent', () => {
+  it('reemplaza las clases recibidas conservando los campos que no trae', () => {
+    const existing = withClass('user', user => (user.size = { width: 180, height: 90 }));
+    const merged = mergeDiagramContent(existing, {
+      elements: { user: { name: 'Client', position: { x: 5, y: 5 }, attributes: [] } },
+    });
+
+    expect(merged.elements.user).toEqual({ name: 'Client', position: { x: 5, y: 5 }, attributes: [], size: { width: 180, height: 90 } });
+    expect(merged.elements.order).toEqual(base().elements.order);
+    expect(merged.relations).toEqual(base().relations);
+  });
+});
@@ -0,0 +1,188 @@
+// src/diagrams/utils/diagram-merge.ts
+import { Attribute, ClassElement, DiagramContent, Relation } from '../schema/diagram-content.schema';
+import { isEqual } from './deep-equal';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  // Ruta del elemento en conflicto, p. ej. `elements.class_1.name` o `elements.class_1.attributes.attr_x1`
+  path: string;
+  kind: 'class' | 'attribute' | 'relation';
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface MergeResult {
+  content: DiagramContent;
+  conflicts: MergeConflict[];
+  // Relaciones descartadas porque apuntaban a una clase eliminada en el otro lado
+  droppedRelations: string[];
+}
+
+const CLASS_FIELDS = ['name', 'position', 'size', 'style'] as const;
+
+/**
+ * Fusión de dos vías usada por la IA en modo "merge": las clases y relaciones
+ * devueltas reemplazan a las existentes con el mismo ID, conservando los
+ * campos que el modelo no conoce (tamaño, estilo, vértices...).
+ */
+export function mergeDiagramContent(
+  existing: DiagramContent,
+  incoming: Partial<Pick<DiagramContent, 'elements' | 'relations'>>,
+): DiagramContent {
+  const elements: Record<string, ClassElement> = { ...existing.elements };
+  for (const [id, element] of Object.entries(incoming.elements ?? {})) {
+    elements[id] = { ...existing.elements[id], ...element };
+  }
+
+  const relations: Record<string, Relation> = { ...existing.relations };
+  for (const [id, relation] of Object.entries(incoming.relations ?? {})) {
+    relations[id] = { ...existing.relations[id], ...relation };
+  }
+
+  return { version: existing.version, elements, relations };
+}
+
+/**
+ * Decide el valor de un campo a partir de base/ours/theirs.
+ * Devuelve `conflict: true` cuando ambos lados lo cambiaron de forma distinta
+ * y no hay una resolución explícita para esa ruta.
+ */
+function pick<T>(
+  path: string,
+  base: T,
+  ours: T,
+  theirs: T,
+  resolutions: Record<string, MergeSide>,
+): { value: T; conflict: boolean } {
+  if (isEqual(ours, theirs)) return { value: ours, conflict: false };
+  if (isEqual(base, ours)) return { value: theirs, conflict: false };
+  if (isEqual(base, theirs)) return { value: ours, conflict: false };
+  const resolution = resolutions[path];
+  if (resolution) return { value: resolution === 'ours' ? ours : theirs, conflict: false };
+  return { value: ours, conflict: true };
+}
+
+function mergeAttributes(
+  path: string,
+  base: Attribute[],
+  ours: Attribute[],
+  theirs: Attribute[],
+  resolutions: Record<string, MergeSide>,
+  conflicts: MergeConflict[],
+): Attribute[] {
+  const byId = (list: Attribute[]) => new Map(list.map(attr => [attr.id, attr]));
+  const baseMap = byId(base);
+  const oursMap = byId(ours);
+  const theirsMap = byId(theirs);
+
+  // Se respeta el orden de "ours" y se agregan al final los nuevos de "theirs"
+  const ids = [...ours.map(a => a.id), ...theirs.map(a => a.id).filter(id => !oursMap.has(id))];
+  const merged: Attribute[] = [];
+
+  for (const id of new Set([...ids, ...baseMap.keys()])) {
+    const attrPath = `${path}.attributes.${id}`;
+    const result = pick(attrPath, baseMap.get(id), oursMap.get(id), theirsMap.get(id), resolutions);
+    if (result.conflict) {
+      conflicts.push({
+        path: attrPath,
+        kind: 'attribute',
+        base: baseMap.get(id),
+        ours: oursMap.get(id),
+        theirs: theirsMap.get(id),
+      });
+    }
+    if (result.value) merged.push(result.value);
+  }
+
+  return merged;
+}
+
+function mergeClass(
+  id: string,
+  base: ClassElement,
+  ours: ClassElement,
+  theirs: ClassElement,
+  resolutions: Record<string, MergeSide>,
+  conflicts: MergeConflict[],
+): ClassElement {
+  const path = `elements.${id}`;
+  const merged: Record<string, unknown> = { ...ours };
+
+  for (const field of CLASS_FIELDS) {
+    const fieldPath = `${path}.${field}`;
+    const result = pick(fieldPath, base[field], ours[field], theirs[field], resolutions);
+    if (result.conflict) {
+      conflicts.push({ path: fieldPath, kind: 'class', base: base[field], ours: ours[field], theirs: theirs[field] });
+    }
+    if (result.value === undefined) delete merged[field];
+    else merged[field] = result.value;
+  }
+
+  merged.attributes = mergeAttributes(path, base.attributes, ours.attributes, theirs.attributes, resolutions, conflicts);
+  return merged as unknown as ClassElement;
+}
+
+/**
+ * Fusión de tres vías entre el contenido base (punto de bifurcación),
+ * "ours" (diagrama destino) y "theirs" (rama que se fusiona).
+ * Las clases modificadas en ambos lados se fusionan campo a campo y atributo
+ * por atributo; solo se reportan conflictos cuando ambos cambiaron lo mismo.
+ */
+export function threeWayMerge(
+  base: DiagramContent,
+  ours: DiagramContent,
+  theirs: DiagramContent,
+  resolutions: Record<string, MergeSide> = {},
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const elements: Record<string, ClassElement> = {};
+  const relations: Record<string, Relation> = {};
+
+  const classIds = new Set([...Object.keys(ours.elements), ...Object.keys(theirs.elements), ...Object.keys(base.elements)]);
+  for (const id of classIds) {
+    const b = base.elements[id];
+    const o = ours.elements[id];
+    const t = theirs.elements[id];
+    const path = `elements.${id}`;
+
+    if (b && o && t && !isEqual(o, t) && !isEqual(b, o) && !isEqual(b, t)) {
+      elements[id] = mergeClass(id, b, o, t, resolutions, conflicts);
+      continue;
+    }
+
+    const result = pick(path, b, o, t, resolutions);
+    if (result.conflict) {
+      conflicts.push({ path, kind: 'class', base: b, ours: o, theirs: t });
+    }
+    if (result.value) elements[id] = result.value;
+  }
+
+  const relationIds = new Set([...Object.keys(ours.relations), ...Object.keys(theirs.relations), ...Object.keys(base.relations)]);
+  for (const id of relationIds) {
+    const path = `relations.${id}`;
+    const b = base.relations[id];
+    const o = ours.relations[id];
+    const t = theirs.relations[id];
+    const result = pick(path, b, o, t, resolutions);
+    if (result.conflict) {
+      conflicts.push({ path, kind: 'relation', base: b, ours: o, theirs: t });
+    }
+    if (result.value) relations[id] = result.value;
+  }
+
+  const droppedRelations: string[] = [];
+  for (const [id, relation] of Object.entries(relations)) {
+    if (!elements[relation.from] || !elements[relation.to]) {
+      delete relations[id];
+      droppedRelations.push(id);
+    }
+  }
+
+  return {
+    content: { version: Math.max(ours.version, theirs.version), elements, relations },
+    conflicts,
+    droppedRelations,
+  };
+}
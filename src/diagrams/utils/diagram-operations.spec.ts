@@ -0,0 +1,209 @@
+// src/diagrams/utils/diagram-operations.spec.ts
+import { DiagramContent } from '../schema/diagram-content.schema';
+import {
+  DiagramOperation,
+  applyOperation,
+  invertOperation,
+  transformAgainst,
+  transformOperation,
+} from './diagram-operations';
+
+const base = (): DiagramContent => ({
+  version: 2,
+  elements: {
+    user: {
+      name: 'User',
+      position: { x: 0, y: 0 },
+      attributes: [
+        { id: 'a_id', name: 'id', type: 'Long' },
+        { id: 'a_name', name: 'name', type: 'String' },
+        { id: 'a_email', name: 'email', type: 'String' },
+      ],
+    },
+    order: { name: 'Order', position: { x: 200, y: 0 }, attributes: [{ id: 'o_id', name: 'id', type: 'Long' }] },
+  },
+  relations: {
+    r1: { from: 'order', to: 'user', type: 'ManyToOne' },
+  },
+});
+
+const names = (content: DiagramContent, classId: string) => content.elements[classId].attributes.map(attr => attr.name);
+
+// Aplica `applied` y luego `op` transformada, como hace el servidor con una operación concurrente
+const applyConcurrent = (applied: DiagramOperation, op: DiagramOperation) => {
+  const after = applyOperation(base(), applied);
+  const transformed = transformOperation(op, applied);
+  return { transformed, content: transformed ? applyOperation(after, transformed) : after };
+};
+
+describe('transformOperation', () => {
+  it('descarta las ediciones de una clase que otro usuario eliminó', () => {
+    const removed: DiagramOperation = { type: 'class:remove', classId: 'user' };
+    expect(transformOperation({ type: 'class:update', classId: 'user', newData: { name: 'Client' } }, removed)).toBeNull();
+    expect(transformOperation({ type: 'element:moved', elementId: 'user', position: { x: 5, y: 5 } }, removed)).toBeNull();
+    expect(transformOperation({ type: 'attribute:add', classId: 'user', attribute: { name: 'age', type: 'Integer' } }, removed)).toBeNull();
+  });
+
+  it('descarta relaciones nuevas o editadas hacia una clase eliminada', () => {
+    const removed: DiagramOperation = { type: 'class:remove', classId: 'user' };
+    const add: DiagramOperation = { type: 'relation:add', relationId: 'r2', data: { from: 'order', to: 'user', type: 'OneToOne' } };
+    expect(transformOperation(add, removed)).toBeNull();
+    expect(transformOperation({ type: 'relation:update', relationId: 'r9', data: { from: 'user', to: 'order', type: 'OneToMany' } }, removed)).toBeNull();
+  });
+
+  it('descarta la actualización de una relación eliminada y conserva la de otra', () => {
+    const removed: DiagramOperation = { type: 'relation:remove', relationId: 'r1' };
+    expect(transformOperation({ type: 'relation:update', relationId: 'r1', data: { type: 'OneToOne' } }, removed)).toBeNull();
+    const other: DiagramOperation = { type: 'relation:update', relationId: 'r2', data: { type: 'OneToOne' } };
+    expect(transformOperation(other, removed)).toBe(other);
+  });
+
+  it('no toca operaciones sobre otras clases', () => {
+    const op: DiagramOperation = { type: 'class:update', classId: 'order', newData: { name: 'Purchase' } };
+    expect(transformOperation(op, { type: 'attribute:remove', classId: 'user', attrIndex: 0 })).toBe(op);
+  });
+
+  describe('atributos por ID', () => {
+    it('descarta la edición de un atributo eliminado concurrentemente', () => {
+      const applied: DiagramOperation = { type: 'attribute:remove', classId: 'user', attributeId: 'a_name' };
+      expect(transformOperation({ type: 'attribute:update', classId: 'user', attributeId: 'a_name', newData: { type: 'Integer' } }, applied)).toBeNull();
+    });
+
+    it('aplica la edición sobre el atributo correcto aunque otro se haya insertado antes', () => {
+      const { content } = applyConcurrent(
+        { type: 'attribute:add', classId: 'user', attribute: { id: 'a_age', name: 'age', type: 'Integer' }, index: 0 },
+        { type: 'attribute:update', classId: 'user', attributeId: 'a_email', newData: { name: 'mail' } },
+      );
+      expect(names(content, 'user')).toEqual(['age', 'id', 'name', 'mail']);
+    });
+
+    it('sobrevive a un reordenamiento', () => {
+      const { content } = applyConcurrent(
+        { type: 'attribute:reorder', classId: 'user', attributeIds: ['a_email', 'a_name', 'a_id'] },
+        { type: 'attribute:remove', classId: 'user', attributeId: 'a_name' },
+      );
+      expect(names(content, 'user')).toEqual(['email', 'id']);
+    });
+  });
+
+  describe('atributos por índice (clientes antiguos)', () => {
+    it('desplaza el índice tras una inserción anterior', () => {
+      const { transformed, content } = applyConcurrent(
+        { type: 'attribute:add', classId: 'user', attribute: { id: 'a_age', name: 'age', type: 'Integer' }, index: 1 },
+        { type: 'attribute:update', classId: 'user', attrIndex: 2, newData: { name: 'mail' } },
+      );
+      expect(transformed).toMatchObject({ attrIndex: 3 });
+      expect(names(content, 'user')).toEqual(['id', 'age', 'name', 'mail']);
+    });
+
+    it('desplaza el índice tras una eliminación anterior y descarta la del mismo atributo', () => {
+      const removed: DiagramOperation = { type: 'attribute:remove', classId: 'user', attrIndex: 1 };
+      expect(transformOperation({ type: 'attribute:update', classId: 'user', attrIndex: 2, newData: { name: 'mail' } }, removed))
+        .toMatchObject({ attrIndex: 1 });
+      expect(transformOperation({ type: 'attribute:remove', classId: 'user', attrIndex: 1 }, removed)).toBeNull();
+      expect(transformOperation({ type: 'attribute:add', classId: 'user', attribute: { name: 'age', type: 'Integer' }, index: 3 }, removed))
+        .toMatchObject({ index: 2 });
+    });
+
+    it('desplaza inserciones concurrentes en la misma posición o después', () => {
+      const applied: DiagramOperation = { type: 'attribute:add', classId: 'user', attribute: { id: 'a_age', name: 'age', type: 'Integer' }, index: 1 };
+      expect(transformOperation({ type: 'attribute:add', classId: 'user', attribute: { name: 'phone', type: 'String' }, index: 1 }, applied))
+        .toMatchObject({ index: 2 });
+      expect(transformOperation({ type: 'attribute:add', classId: 'user', attribute: { name: 'phone', type: 'String' }, index: 0 }, applied))
+        .toMatchObject({ index: 0 });
+    });
+
+    it('descarta ediciones por índice tras un reordenamiento', () => {
+      const applied: DiagramOperation = { type: 'attribute:reorder', classId: 'user', attributeIds: ['a_email', 'a_name', 'a_id'] };
+      expect(transformOperation({ type: 'attribute:remove', classId: 'user', attrIndex: 0 }, applied)).toBeNull();
+    });
+  });
+
+  it('un reemplazo completo solo deja pasar otro reemplazo', () => {
+    const replace: DiagramOperation = { type: 'diagram:replace', content: base() };
+    expect(transformOperation({ type: 'class:update', classId: 'order', newData: { name: 'Purchase' } }, replace)).toBeNull();
+    const other: DiagramOperation = { type: 'diagram:replace', content: { version: 2, elements: {}, relations: {} } };
+    expect(transformOperation(other, replace)).toBe(other);
+  });
+
+  it('una fusión o un parche descartan solo las operaciones sobre lo que reemplazan', () => {
+    const merge: DiagramOperation = { type: 'diagram:merge', content: { elements: { user: base().elements.user } } };
+    expect(transformOperation({ type: 'attribute:remove', classId: 'user', attrIndex: 0 }, merge)).toBeNull();
+    expect(transformOperation({ type: 'element:moved', elementId: 'order', position: { x: 1, y: 1 } }, merge)).not.toBeNull();
+
+    const patch: DiagramOperation = { type: 'diagram:patch', elements: {}, relations: { r1: null } };
+    expect(transformOperation({ type: 'relation:remove', relationId: 'r1' }, patch)).toBeNull();
+    expect(transformOperation({ type: 'class:update', classId: 'user', newData: { name: 'Client' } }, patch)).not.toBeNull();
+  });
+});
+
+describe('transformAgainst', () => {
+  it('transforma contra cada operación en orden', () => {
+    const op: DiagramOperation = { type: 'attribute:update', classId: 'user', attrIndex: 2, newData: { name: 'mail' } };
+    const result = transformAgainst(op, [
+      { type: 'attribute:add', classId: 'user', attribute: { id: 'a_age', name: 'age', type: 'Integer' }, index: 0 },
+      { type: 'attribute:remove', classId: 'user', attrIndex: 1 },
+    ]);
+    expect(result).toMatchObject({ attrIndex: 2 });
+  });
+
+  it('se detiene en cuanto la operación queda sin efecto', () => {
+    const result = transformAgainst({ type: 'class:update', classId: 'user', newData: { name: 'Client' } }, [
+      { type: 'class:remove', classId: 'user' },
+      { type: 'class:add', classId: 'user', classData: { name: 'User', position: { x: 0, y: 0 } } },
+    ]);
+    expect(result).toBeNull();
+  });
+
+  it('sin operaciones concurrentes devuelve la misma operación', () => {
+    const op: DiagramOperation = { type: 'relation:remove', relationId: 'r1' };
+    expect(transformAgainst(op, [])).toBe(op);
+  });
+});
+
+describe('applyOperation e invertOperation', () => {
+  const roundTrip = (op: DiagramOperation) => {
+    const before = base();
+    const after = applyOperation(before, op);
+    const inverse = invertOperation(before, op, after);
+    return { before, after, restored: inverse ? applyOperation(after, inverse) : after };
+  };
+
+  it.each<[string, DiagramOperation]>([
+    ['class:update', { type: 'class:update', classId: 'user', newData: { name: 'Client' } }],
+    ['class:remove (con sus relaciones)', { type: 'class:remove', classId: 'user' }],
+    ['attribute:add', { type: 'attribute:add', classId: 'user', attribute: { name: 'age', type: 'Integer' }, index: 1 }],
+    ['attribute:update', { type: 'attribute:update', classId: 'user', attributeId: 'a_name', newData: { name: 'fullName' } }],
+    ['attribute:remove', { type: 'attribute:remove', classId: 'user', attrIndex: 1 }],
+    ['attribute:reorder', { type: 'attribute:reorder', classId: 'user', attributeIds: ['a_email', 'a_id'] }],
+    ['relation:update', { type: 'relation:update', relationId: 'r1', data: { type: 'OneToOne' } }],
+    ['relation:remove', { type: 'relation:remove', relationId: 'r1' }],
+  ])('%s se deshace', (_, op) => {
+    const { before, after, restored } = roundTrip(op);
+    expect(after).not.toEqual(before);
+    expect(restored).toEqual(before);
+  });
+
+  it('eliminar una clase elimina sus relaciones', () => {
+    const after = applyOperation(base(), { type: 'class:remove', classId: 'user' });
+    expect(after.relations).toEqual({});
+  });
+
+  it('resuelve en la operación el ID y la posición de un atributo agregado', () => {
+    const op: Extract<DiagramOperation, { type: 'attribute:add' }> = {
+      type: 'attribute:add',
+      classId: 'user',
+      attribute: { name: 'age', type: 'Integer' },
+      index: 99,
+    };
+    applyOperation(base(), op);
+    expect(op.index).toBe(3);
+    expect(op.attribute.id).toMatch(/^attr_/);
+  });
+
+  it('rechaza clases inexistentes o duplicadas', () => {
+    expect(() => applyOperation(base(), { type: 'class:update', classId: 'missing', newData: { name: 'X' } })).toThrow('Class not found');
+    expect(() => applyOperation(base(), { type: 'class:add', classId: 'user', classData: { name: 'User', position: { x: 0, y: 0 } } }))
+      .toThrow('Class already exists');
+  });
+});
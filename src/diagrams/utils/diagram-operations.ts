@@ -0,0 +1,382 @@
+// src/diagrams/utils/diagram-operations.ts
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Attribute, ClassElement, DiagramContent, Point, Relation } from '../schema/diagram-content.schema';
+import { mergeDiagramContent } from './diagram-merge';
+import { createAttributeId } from '../schema/diagram-content.validator';
+import { isEqual } from './deep-equal';
+
+/**
+ * Operaciones atómicas sobre el contenido de un diagrama. Los nombres coinciden
+ * con los eventos del socket para que el payload retransmitido sea el mismo.
+ */
+export type DiagramOperation =
+  | { type: 'class:add'; classId: string; classData: Pick<ClassElement, 'name' | 'position'> & Partial<ClassElement> }
+  | { type: 'class:update'; classId: string; newData: { name?: string } }
+  | { type: 'class:remove'; classId: string }
+  | { type: 'element:moved'; elementId: string; position: Point }
+  | { type: 'attribute:add'; classId: string; attribute: Omit<Attribute, 'id'> & { id?: string }; index?: number }
+  // Los atributos se identifican por `attributeId`; `attrIndex` se mantiene para clientes antiguos
+  | { type: 'attribute:update'; classId: string; attributeId?: string; attrIndex?: number; newData: Partial<Omit<Attribute, 'id'>> }
+  | { type: 'attribute:remove'; classId: string; attributeId?: string; attrIndex?: number }
+  | { type: 'attribute:reorder'; classId: string; attributeIds: string[] }
+  | { type: 'relation:add'; relationId: string; data: Relation }
+  | { type: 'relation:update'; relationId: string; data: Partial<Relation> }
+  | { type: 'relation:remove'; relationId: string }
+  | { type: 'diagram:replace'; content: DiagramContent }
+  // Fusión parcial (p. ej. resultado de la IA): reemplaza las clases y relaciones incluidas
+  | { type: 'diagram:merge'; content: Partial<Pick<DiagramContent, 'elements' | 'relations'>> }
+  // Reemplaza o elimina (null) clases y relaciones puntuales; lo usa deshacer/rehacer
+  | { type: 'diagram:patch'; elements: Record<string, ClassElement | null>; relations: Record<string, Relation | null> };
+
+export type DiagramOperationType = DiagramOperation['type'];
+
+/**
+ * Clases y relaciones que una operación modificó.
+ */
+export interface TouchedElements {
+  classes: string[];
+  relations: string[];
+}
+
+/**
+ * Operación tal como la envía un cliente: `baseRevision` es la última revisión
+ * que el cliente conocía al generarla y `opId` permite deduplicar reenvíos.
+ */
+export interface DiagramOperationInput {
+  op: DiagramOperation;
+  opId?: string;
+  baseRevision?: number;
+}
+
+const classIdOf = (op: DiagramOperation): string | undefined => {
+  switch (op.type) {
+    case 'class:add':
+    case 'class:update':
+    case 'class:remove':
+    case 'attribute:add':
+    case 'attribute:update':
+    case 'attribute:remove':
+    case 'attribute:reorder':
+      return op.classId;
+    case 'element:moved':
+      return op.elementId;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Aplica una operación sobre una copia del contenido y devuelve la copia.
+ * Los datos que se resuelven al aplicar quedan escritos en la operación para
+ * el registro: el `id` y el `index` de un `attribute:add`, y tanto
+ * `attributeId` como `attrIndex` en `attribute:update`/`attribute:remove`.
+ */
+export function applyOperation(content: DiagramContent, op: DiagramOperation): DiagramContent {
+  if (op.type === 'diagram:replace') return structuredClone(op.content);
+  if (op.type === 'diagram:merge') return mergeDiagramContent(content, structuredClone(op.content));
+  if (op.type === 'diagram:patch') return applyPatch(content, op);
+
+  const next = structuredClone(content);
+  const requireClass = (classId: string) => {
+    const element = next.elements[classId];
+    if (!element) throw new NotFoundException('Class not found in diagram');
+    return element;
+  };
+  const requireAttribute = (op: { classId: string; attributeId?: string; attrIndex?: number }) => {
+    const element = requireClass(op.classId);
+    const index = op.attributeId !== undefined
+      ? element.attributes.findIndex(attr => attr.id === op.attributeId)
+      : op.attrIndex ?? -1;
+    if (!element.attributes[index]) throw new NotFoundException('Attribute not found');
+    op.attributeId = element.attributes[index].id;
+    op.attrIndex = index;
+    return { element, index };
+  };
+
+  switch (op.type) {
+    case 'class:add':
+      if (next.elements[op.classId]) throw new ConflictException('Class already exists');
+      next.elements[op.classId] = { ...op.classData, attributes: op.classData.attributes || [] };
+      break;
+
+    case 'class:update': {
+      const element = requireClass(op.classId);
+      if (op.newData.name) element.name = op.newData.name;
+      break;
+    }
+
+    case 'class:remove':
+      requireClass(op.classId);
+      // Eliminar relaciones asociadas a esta clase
+      for (const [relId, rel] of Object.entries(next.relations)) {
+        if (rel.from === op.classId || rel.to === op.classId) delete next.relations[relId];
+      }
+      delete next.elements[op.classId];
+      break;
+
+    case 'element:moved':
+      requireClass(op.elementId).position = op.position;
+      break;
+
+    case 'attribute:add': {
+      const element = requireClass(op.classId);
+      const index = Math.min(op.index ?? element.attributes.length, element.attributes.length);
+      op.attribute = { ...op.attribute, id: op.attribute.id ?? createAttributeId() };
+      element.attributes.splice(index, 0, op.attribute as Attribute);
+      op.index = index;
+      break;
+    }
+
+    case 'attribute:update': {
+      const { element, index } = requireAttribute(op);
+      // El ID no se puede modificar con una actualización
+      const newData: Partial<Attribute> = { ...op.newData };
+      delete newData.id;
+      element.attributes[index] = { ...element.attributes[index], ...newData };
+      break;
+    }
+
+    case 'attribute:remove': {
+      const { element, index } = requireAttribute(op);
+      element.attributes.splice(index, 1);
+      break;
+    }
+
+    case 'attribute:reorder': {
+      // Los IDs listados van primero en ese orden; los no mencionados
+      // (p. ej. agregados concurrentemente) conservan su orden al final
+      const element = requireClass(op.classId);
+      const byId = new Map(element.attributes.map(attr => [attr.id, attr]));
+      const ordered = [...new Set(op.attributeIds)].filter(id => byId.has(id)).map(id => byId.get(id)!);
+      element.attributes = [...ordered, ...element.attributes.filter(attr => !ordered.includes(attr))];
+      break;
+    }
+
+    case 'relation:add':
+      if (next.relations[op.relationId]) throw new ConflictException('Relation already exists');
+      next.relations[op.relationId] = op.data;
+      break;
+
+    case 'relation:update':
+      // La relación pudo haber sido eliminada por otro usuario: no es un error
+      if (next.relations[op.relationId]) {
+        next.relations[op.relationId] = { ...next.relations[op.relationId], ...op.data };
+      }
+      break;
+
+    case 'relation:remove':
+      delete next.relations[op.relationId];
+      break;
+  }
+
+  return next;
+}
+
+function applyPatch(content: DiagramContent, op: Extract<DiagramOperation, { type: 'diagram:patch' }>): DiagramContent {
+  const next = structuredClone(content);
+  for (const [id, element] of Object.entries(op.elements)) {
+    if (element) next.elements[id] = structuredClone(element);
+    else delete next.elements[id];
+  }
+  for (const [id, relation] of Object.entries(op.relations)) {
+    if (relation) next.relations[id] = structuredClone(relation);
+    else delete next.relations[id];
+  }
+  // Igual que al eliminar una clase: no quedan relaciones colgando
+  for (const [id, relation] of Object.entries(next.relations)) {
+    if (!next.elements[relation.from] || !next.elements[relation.to]) delete next.relations[id];
+  }
+  return next;
+}
+
+/**
+ * Parche con el estado de `target` para las claves en que `from` y `target`
+ * difieren (null si la clase o relación no existe en `target`).
+ */
+export function patchBetween(from: DiagramContent, target: DiagramContent): Extract<DiagramOperation, { type: 'diagram:patch' }> {
+  const patch = { type: 'diagram:patch' as const, elements: {}, relations: {} } as Extract<DiagramOperation, { type: 'diagram:patch' }>;
+  for (const id of new Set([...Object.keys(from.elements), ...Object.keys(target.elements)])) {
+    if (!isEqual(from.elements[id], target.elements[id])) patch.elements[id] = target.elements[id] ?? null;
+  }
+  for (const id of new Set([...Object.keys(from.relations), ...Object.keys(target.relations)])) {
+    if (!isEqual(from.relations[id], target.relations[id])) patch.relations[id] = target.relations[id] ?? null;
+  }
+  return patch;
+}
+
+/**
+ * Operación que deshace `op`, ya aplicada (con sus campos resueltos) sobre
+ * `before` y que produjo `after`. Devuelve `null` si `op` no tuvo efecto.
+ * Reemplazos y fusiones se deshacen con un parche de solo las clases y
+ * relaciones que tocaron, para no revertir lo que no cambiaron.
+ */
+export function invertOperation(before: DiagramContent, op: DiagramOperation, after: DiagramContent): DiagramOperation | null {
+  switch (op.type) {
+    case 'class:add':
+      return { type: 'class:remove', classId: op.classId };
+
+    case 'class:update':
+      return { type: 'class:update', classId: op.classId, newData: { name: before.elements[op.classId].name } };
+
+    case 'element:moved':
+      return { type: 'element:moved', elementId: op.elementId, position: before.elements[op.elementId].position };
+
+    case 'attribute:add':
+      return { type: 'attribute:remove', classId: op.classId, attributeId: op.attribute.id };
+
+    case 'attribute:update': {
+      const previous = before.elements[op.classId].attributes[op.attrIndex!];
+      const newData = Object.fromEntries(
+        Object.keys(op.newData).filter(key => key !== 'id').map(key => [key, previous[key as keyof Attribute]]),
+      );
+      return { type: 'attribute:update', classId: op.classId, attributeId: previous.id, newData };
+    }
+
+    case 'attribute:remove':
+      return {
+        type: 'attribute:add',
+        classId: op.classId,
+        attribute: before.elements[op.classId].attributes[op.attrIndex!],
+        index: op.attrIndex,
+      };
+
+    case 'attribute:reorder':
+      return {
+        type: 'attribute:reorder',
+        classId: op.classId,
+        attributeIds: before.elements[op.classId].attributes.map(attr => attr.id),
+      };
+
+    case 'relation:add':
+      return { type: 'relation:remove', relationId: op.relationId };
+
+    case 'relation:update': {
+      const previous = before.relations[op.relationId];
+      if (!previous) return null;
+      const data = Object.fromEntries(Object.keys(op.data).map(key => [key, previous[key as keyof Relation]]));
+      return { type: 'relation:update', relationId: op.relationId, data };
+    }
+
+    case 'relation:remove':
+      return before.relations[op.relationId]
+        ? { type: 'relation:add', relationId: op.relationId, data: before.relations[op.relationId] }
+        : null;
+
+    // Eliminar una clase también elimina sus relaciones: el parche restaura ambas
+    case 'class:remove':
+    case 'diagram:replace':
+    case 'diagram:merge':
+    case 'diagram:patch': {
+      const patch = patchBetween(after, before);
+      return Object.keys(patch.elements).length + Object.keys(patch.relations).length > 0 ? patch : null;
+    }
+  }
+}
+
+/**
+ * Clases y relaciones que cambiaron al aplicar `op` sobre `before`.
+ */
+export function touchedElements(before: DiagramContent, op: DiagramOperation, after: DiagramContent): TouchedElements {
+  switch (op.type) {
+    case 'relation:add':
+    case 'relation:update':
+    case 'relation:remove':
+      return { classes: [], relations: [op.relationId] };
+    case 'class:remove':
+    case 'diagram:replace':
+    case 'diagram:merge':
+    case 'diagram:patch': {
+      const patch = patchBetween(before, after);
+      return { classes: Object.keys(patch.elements), relations: Object.keys(patch.relations) };
+    }
+    default:
+      return { classes: [classIdOf(op)!], relations: [] };
+  }
+}
+
+/**
+ * Transforma `op` para que pueda aplicarse después de `applied`, una operación
+ * concurrente que el servidor ya aceptó. Devuelve `null` si `op` deja de tener
+ * efecto (p. ej. edita un atributo o una clase que el otro usuario eliminó).
+ */
+export function transformOperation(op: DiagramOperation, applied: DiagramOperation): DiagramOperation | null {
+  // Un reemplazo completo invalida cualquier operación generada sobre el contenido anterior
+  if (applied.type === 'diagram:replace') {
+    return op.type === 'diagram:replace' ? op : null;
+  }
+
+  // Las clases que trae una fusión se reemplazan completas: los índices de sus atributos ya no valen
+  if (applied.type === 'diagram:merge') {
+    const classId = classIdOf(op);
+    if (op.type !== 'class:add' && classId && applied.content.elements?.[classId]) return null;
+    return op;
+  }
+
+  // Lo mismo para un parche, que además puede reemplazar o eliminar relaciones
+  if (applied.type === 'diagram:patch') {
+    const classId = classIdOf(op);
+    if (op.type !== 'class:add' && classId && classId in applied.elements) return null;
+    if ((op.type === 'relation:update' || op.type === 'relation:remove') && op.relationId in applied.relations) return null;
+    return op;
+  }
+
+  if (applied.type === 'class:remove') {
+    if (classIdOf(op) === applied.classId && op.type !== 'class:add') return null;
+    if ((op.type === 'relation:add' || op.type === 'relation:update') &&
+        (op.data.from === applied.classId || op.data.to === applied.classId)) {
+      return null;
+    }
+  }
+
+  if (applied.type === 'relation:remove' && op.type === 'relation:update' && op.relationId === applied.relationId) {
+    return null;
+  }
+
+  if (classIdOf(op) !== classIdOf(applied)) return op;
+
+  // Atributos direccionados por ID: solo importa que el atributo siga existiendo
+  if ((op.type === 'attribute:update' || op.type === 'attribute:remove') && op.attributeId !== undefined) {
+    if (applied.type === 'attribute:remove' && applied.attributeId === op.attributeId) return null;
+    return op;
+  }
+
+  // Clientes antiguos que direccionan por índice: desplazar según los cambios concurrentes
+  if (applied.type === 'attribute:reorder' && (op.type === 'attribute:update' || op.type === 'attribute:remove')) {
+    return null;
+  }
+
+  if (applied.type === 'attribute:add') {
+    const inserted = applied.index ?? Number.MAX_SAFE_INTEGER;
+    if ((op.type === 'attribute:update' || op.type === 'attribute:remove') && op.attrIndex !== undefined && op.attrIndex >= inserted) {
+      return { ...op, attrIndex: op.attrIndex + 1 };
+    }
+    if (op.type === 'attribute:add' && op.index !== undefined && op.index >= inserted) {
+      return { ...op, index: op.index + 1 };
+    }
+  }
+
+  if (applied.type === 'attribute:remove' && applied.attrIndex !== undefined) {
+    const removed = applied.attrIndex;
+    if ((op.type === 'attribute:update' || op.type === 'attribute:remove') && op.attrIndex !== undefined) {
+      if (op.attrIndex === removed) return null;
+      if (op.attrIndex > removed) return { ...op, attrIndex: op.attrIndex - 1 };
+    }
+    if (op.type === 'attribute:add' && op.index !== undefined && op.index > removed) {
+      return { ...op, index: op.index - 1 };
+    }
+  }
+
+  return op;
+}
+
+/**
+ * Transforma `op` contra la secuencia de operaciones aplicadas desde su `baseRevision`.
+ */
+export function transformAgainst(op: DiagramOperation, applied: DiagramOperation[]): DiagramOperation | null {
+  let current: DiagramOperation | null = op;
+  for (const other of applied) {
+    if (!current) break;
+    current = transformOperation(current, other);
+  }
+  return current;
+}
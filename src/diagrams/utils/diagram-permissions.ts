@@ -0,0 +1,61 @@
+// src/diagrams/utils/diagram-permissions.ts
+import { ForbiddenException } from '@nestjs/common';
+import { Diagram } from '../entities/diagram.entity';
+import { ShareRole } from '../entities/diagram-share.entity';
+import { Workspace } from 'src/workspaces/entities/workspace.entity';
+
+/**
+ * Nivel de acceso de un usuario sobre un diagrama, de menor a mayor:
+ * - viewer: ver el diagrama, unirse a la sala, generar código
+ * - commenter: además comentar
+ * - editor: además modificar el contenido (ediciones, IA, restaurar versiones)
+ * - co_owner: además administrar colaboradores
+ * - owner: además eliminar el diagrama y transferir la propiedad
+ */
+export type DiagramRole = ShareRole | 'owner';
+
+const ROLE_RANK: Record<DiagramRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  co_owner: 3,
+  owner: 4,
+};
+
+export const hasRole = (role: DiagramRole, required: DiagramRole) => ROLE_RANK[role] >= ROLE_RANK[required];
+
+const maxRole = (a: DiagramRole | null, b: DiagramRole | null) =>
+  !a ? b : !b ? a : hasRole(a, b) ? a : b;
+
+/**
+ * Rol que otorga la membresía en el workspace dueño del diagrama (con
+ * `members` cargados): owner -> owner, admin -> co_owner, member -> rol por defecto.
+ */
+export function workspaceRoleOf(workspace: Workspace | null | undefined, userId: number): DiagramRole | null {
+  const member = workspace?.members?.find(m => m.userId === userId);
+  if (!member) return null;
+  if (member.role === 'owner') return 'owner';
+  if (member.role === 'admin') return 'co_owner';
+  return workspace!.defaultDiagramRole;
+}
+
+/**
+ * Rol del usuario sobre el diagrama (con `owner`, `shares.user` y
+ * `workspace.members` cargados), o `null` si no tiene acceso. Si el usuario es
+ * colaborador y además miembro del workspace, prevalece el rol mayor.
+ */
+export function roleOf(diagram: Diagram, userId: number): DiagramRole | null {
+  if (diagram.owner?.id === userId) return 'owner';
+  const shared = diagram.shares?.find(share => share.user?.id === userId || share.userId === userId)?.role ?? null;
+  return maxRole(shared, workspaceRoleOf(diagram.workspace, userId));
+}
+
+/**
+ * Solo el propietario puede otorgar o quitar el rol co_owner; los co_owner
+ * administran el resto de los roles.
+ */
+export function assertCanAssign(actorRole: DiagramRole, role: ShareRole | null, previous?: ShareRole) {
+  if (actorRole !== 'owner' && (role === 'co_owner' || previous === 'co_owner')) {
+    throw new ForbiddenException('Only the owner can grant or revoke co-owner access');
+  }
+}
@@ -0,0 +1,176 @@
+// src/diagrams/utils/diagram-seed-data.spec.ts
+import { AttributeType, ClassElement, DiagramContent, Relation } from '../schema/diagram-content.schema';
+import { DEFAULT_SEED_ROWS, MAX_SEED_ROWS, buildSeedData, foreignKeysOf, idAttributeOf, sampleValue } from './diagram-seed-data';
+
+// Clase con los atributos indicados ("nombre" o "nombre:Tipo")
+const cls = (name: string, ...attributes: string[]): ClassElement => ({
+  name,
+  position: { x: 0, y: 0 },
+  attributes: attributes.map((attr, index) => {
+    const [attrName, type = 'String'] = attr.split(':');
+    return { id: `${name}_${index}`, name: attrName, type: type as AttributeType };
+  }),
+});
+
+const model = (elements: Record<string, ClassElement>, relations: Record<string, Relation> = {}): DiagramContent => ({
+  version: 2,
+  elements,
+  relations,
+});
+
+const ids = (seed: ReturnType<typeof buildSeedData>, classId: string) => seed.records[classId].map(record => record.id);
+
+describe('buildSeedData', () => {
+  it('genera la cantidad pedida de registros, dentro de los límites', () => {
+    const content = model({ user: cls('User', 'id:Long', 'name') });
+
+    expect(buildSeedData(content).records.user).toHaveLength(DEFAULT_SEED_ROWS);
+    expect(buildSeedData(content, 3).records.user).toHaveLength(3);
+    expect(buildSeedData(content, 1000).records.user).toHaveLength(MAX_SEED_ROWS);
+    expect(buildSeedData(content, -4).records.user).toHaveLength(1);
+  });
+
+  it('es determinista y respeta el tipo de cada atributo', () => {
+    const content = model({ user: cls('Customer', 'id:Long', 'email', 'age:Integer', 'active:Boolean', 'birthDate:LocalDate') });
+
+    const seed = buildSeedData(content, 3);
+
+    expect(buildSeedData(content, 3)).toEqual(seed);
+    for (const { values } of seed.records.user) {
+      expect(values.email).toMatch(/^[a-z.]+\d+@example\.com$/);
+      expect(Number.isInteger(values.age)).toBe(true);
+      expect(typeof values.active).toBe('boolean');
+      expect(values.birthDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    }
+    // Sin el id entre los valores: lo asigna el registro
+    expect(Object.keys(seed.records.user[0].values)).not.toContain('id');
+  });
+
+  it('continúa los IDs de la jerarquía en las subclases e incluye los atributos heredados', () => {
+    const content = model(
+      { person: cls('Person', 'id:Long', 'name'), student: cls('Student', 'code'), teacher: cls('Teacher', 'salary:Double') },
+      {
+        r1: { from: 'student', to: 'person', type: 'Inheritance' },
+        r2: { from: 'teacher', to: 'person', type: 'Inheritance' },
+      },
+    );
+
+    const seed = buildSeedData(content, 2);
+
+    expect(ids(seed, 'person')).toEqual([1, 2]);
+    expect(ids(seed, 'student')).toEqual([3, 4]);
+    expect(ids(seed, 'teacher')).toEqual([5, 6]);
+    expect(Object.keys(seed.records.student[0].values)).toEqual(['name', 'code']);
+    // Los registros de la subclase no repiten los valores del padre
+    expect(seed.records.student[0].values.name).not.toBe(seed.records.person[0].values.name);
+  });
+
+  it('también genera datos para las clases sin id, con el id que agrega el generador', () => {
+    const content = model({ tag: cls('Tag', 'label') });
+
+    expect(idAttributeOf(content, 'tag')).toMatchObject({ name: 'id', type: 'Long' });
+    expect(ids(buildSeedData(content, 2), 'tag')).toEqual([1, 2]);
+  });
+
+  describe('claves foráneas', () => {
+    const shop = () => model(
+      { user: cls('User', 'id:Long', 'name'), order: cls('Order', 'id:Long', 'total:Double'), profile: cls('Profile', 'id:Long', 'bio') },
+      {
+        r1: { from: 'order', to: 'user', type: 'ManyToOne' },
+        r2: { from: 'profile', to: 'user', type: 'OneToOne' },
+      },
+    );
+
+    it('apuntan a registros existentes del destino aunque compartan ID con el registro', () => {
+      const seed = buildSeedData(shop(), 3);
+
+      const references = seed.records.order.map(record => record.references.r1);
+      expect(references).toEqual([1, 2, 3]);
+    });
+
+    it('OneToOne no repite el registro destino', () => {
+      const seed = buildSeedData(shop(), 3);
+
+      const references = seed.records.profile.map(record => record.references.r2);
+      expect(new Set(references).size).toBe(3);
+      expect(references.every(id => id !== null && id >= 1 && id <= 3)).toBe(true);
+    });
+
+    it('una autorreferencia apunta al registro anterior', () => {
+      const content = model({ employee: cls('Employee', 'id:Long', 'name') }, { r1: { from: 'employee', to: 'employee', type: 'ManyToOne' } });
+
+      const seed = buildSeedData(content, 3);
+
+      expect(seed.records.employee.map(record => record.references.r1)).toEqual([null, 1, 2]);
+    });
+
+    it('usa las filas sugeridas válidas y descarta las que no existen', () => {
+      const seed = buildSeedData(shop(), 3, { references: { r1: [3, 99, 'x'] } });
+
+      expect(seed.records.order.map(record => record.references.r1)).toEqual([3, 2, 3]);
+    });
+
+    it('se guardan en la clase que tiene la columna según el tipo de relación', () => {
+      const content = model(
+        { a: cls('A', 'id:Long'), b: cls('B', 'id:Long') },
+        {
+          m2o: { from: 'a', to: 'b', type: 'ManyToOne' },
+          o2m: { from: 'a', to: 'b', type: 'OneToMany' },
+          comp: { from: 'a', to: 'b', type: 'Composition' },
+          m2m: { from: 'a', to: 'b', type: 'ManyToMany' },
+        },
+      );
+
+      expect(foreignKeysOf(content).map(fk => [fk.relationId, fk.holderId, fk.targetId])).toEqual([
+        ['m2o', 'a', 'b'],
+        ['o2m', 'b', 'a'],
+        ['comp', 'b', 'a'],
+      ]);
+    });
+  });
+
+  describe('ManyToMany', () => {
+    it('enlaza cada registro de origen con al menos un destino', () => {
+      const content = model(
+        { student: cls('Student', 'id:Long', 'name'), course: cls('Course', 'id:Long', 'name') },
+        { r1: { from: 'student', to: 'course', type: 'ManyToMany' } },
+      );
+
+      const { links } = buildSeedData(content, 4);
+
+      expect(new Set(links.r1.map(([from]) => from))).toEqual(new Set([1, 2, 3, 4]));
+      expect(links.r1.every(([, to]) => to >= 1 && to <= 4)).toBe(true);
+      expect(new Set(links.r1.map(pair => pair.join(':'))).size).toBe(links.r1.length);
+    });
+
+    it('omite las ManyToMany de una clase consigo misma', () => {
+      const content = model({ user: cls('User', 'id:Long') }, { r1: { from: 'user', to: 'user', type: 'ManyToMany' } });
+      expect(buildSeedData(content, 2).links).toEqual({});
+    });
+  });
+
+  it('usa los valores sugeridos compatibles con el tipo y completa el resto', () => {
+    const content = model({ product: cls('Product', 'id:Long', 'name', 'price:Double', 'stock:Integer') });
+
+    const seed = buildSeedData(content, 2, {
+      records: { product: [{ name: 'Café de los Yungas', price: '24.5', stock: 'muchos' }] },
+    });
+
+    expect(seed.records.product[0].values).toMatchObject({ name: 'Café de los Yungas', price: 24.5 });
+    expect(Number.isInteger(seed.records.product[0].values.stock)).toBe(true);
+    expect(seed.records.product[1].values.name).not.toBe('Café de los Yungas');
+  });
+});
+
+describe('sampleValue', () => {
+  it('elige valores según el nombre del atributo', () => {
+    expect(sampleValue({ id: 'a', name: 'correo', type: 'String' }, 'Cliente', 0)).toMatch(/@example\.com$/);
+    expect(sampleValue({ id: 'a', name: 'precio', type: 'BigDecimal' }, 'Producto', 0)).toBe(19.9);
+    expect(sampleValue({ id: 'a', name: 'nombre', type: 'String' }, 'Categoria', 1)).toBe('Hogar');
+  });
+
+  it('varía con el número de fila', () => {
+    const attr = { id: 'a', name: 'nombre', type: 'String' as const };
+    expect(sampleValue(attr, 'Cliente', 0)).not.toBe(sampleValue(attr, 'Cliente', 1));
+  });
+});
@@ -0,0 +1,356 @@
+// src/diagrams/utils/diagram-seed-data.ts
+import { Attribute, AttributeType, DiagramContent } from '../schema/diagram-content.schema';
+
+export const DEFAULT_SEED_ROWS = 5;
+export const MAX_SEED_ROWS = 20;
+
+export type SeedValue = string | number | boolean | null;
+
+export interface SeedRecord {
+  id: number;
+  // Valores por nombre de atributo, propios y heredados (sin el `id`)
+  values: Record<string, SeedValue>;
+  // ID referenciado en cada relación cuya clave foránea guarda la clase o un ancestro
+  references: Record<string, number | null>;
+}
+
+export interface DiagramSeedData {
+  // Registros propios de cada clase; los de una subclase comparten ID con su fila en las tablas de los ancestros
+  records: Record<string, SeedRecord[]>;
+  // Pares [ID de from, ID de to] de cada relación ManyToMany
+  links: Record<string, [number, number][]>;
+}
+
+// Valores sugeridos (p. ej. por la IA), por número de fila (1..N) de cada clase
+export interface SeedSuggestion {
+  records?: Record<string, Record<string, unknown>[]>;
+  // Fila destino referenciada por cada fila propia de la clase que guarda la clave foránea
+  references?: Record<string, unknown[]>;
+  links?: Record<string, unknown[]>;
+}
+
+export interface SeedForeignKey {
+  relationId: string;
+  // Clase en cuya tabla está la columna
+  holderId: string;
+  targetId: string;
+  // OneToOne: cada registro destino se referencia a lo sumo una vez
+  unique: boolean;
+}
+
+const FIRST_NAMES = ['Ana', 'Carlos', 'Lucía', 'Jorge', 'María', 'Diego', 'Valeria', 'Luis', 'Camila', 'Andrés'];
+const LAST_NAMES = ['Rojas', 'Fernández', 'Gutiérrez', 'Vargas', 'Mendoza', 'Quispe', 'Flores', 'Torres', 'Romero', 'Salazar'];
+const CITIES = ['La Paz', 'Santa Cruz', 'Cochabamba', 'Sucre', 'Tarija', 'Oruro', 'Potosí'];
+const COUNTRIES = ['Bolivia', 'Perú', 'Chile', 'Argentina', 'Colombia', 'México'];
+const STREETS = ['Av. Arce', 'Calle Sucre', 'Av. Banzer', 'Calle Junín', 'Av. América', 'Calle Colón'];
+const STATUSES = ['ACTIVO', 'PENDIENTE', 'INACTIVO'];
+
+// Nombres verosímiles para clases comunes
+const CATALOGS: Record<string, string[]> = {
+  categoria: ['Electrónica', 'Hogar', 'Deportes', 'Libros', 'Juguetes', 'Ropa'],
+  category: ['Electronics', 'Home', 'Sports', 'Books', 'Toys', 'Clothing'],
+  producto: ['Laptop', 'Silla ergonómica', 'Balón de fútbol', 'Novela', 'Lámpara de mesa', 'Mochila'],
+  product: ['Laptop', 'Office chair', 'Football', 'Novel', 'Desk lamp', 'Backpack'],
+  curso: ['Matemáticas', 'Programación', 'Física', 'Historia', 'Inglés', 'Química'],
+  course: ['Mathematics', 'Programming', 'Physics', 'History', 'English', 'Chemistry'],
+  materia: ['Cálculo I', 'Álgebra', 'Bases de datos', 'Redes', 'Estadística', 'Compiladores'],
+  empresa: ['Andina SRL', 'Altiplano SA', 'Tecnosur', 'Valle Verde', 'Innova Bolivia', 'Grupo Illimani'],
+  company: ['Acme Corp', 'Globex', 'Initech', 'Umbrella', 'Stark Industries', 'Wayne Enterprises'],
+  libro: ['Cien años de soledad', 'Rayuela', 'Ficciones', 'Pedro Páramo', 'La ciudad y los perros', 'El túnel'],
+  book: ['Dune', 'Emma', 'Ulysses', 'Beloved', 'Middlemarch', 'Neuromancer'],
+  ciudad: CITIES,
+  city: CITIES,
+  pais: COUNTRIES,
+  country: COUNTRIES,
+};
+
+const PERSON_CLASSES = /persona|person|cliente|customer|client|empleado|employee|usuario|user|estudiante|student|alumno|docente|profesor|teacher|autor|author|paciente|patient|medico|doctor/;
+
+const stripAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+const keyOf = (name: string) => stripAccents(name).toLowerCase().replace(/[^a-z0-9]/g, '');
+const pick = <T>(list: T[], index: number) => list[index % list.length];
+const isIdAttribute = (attr: Attribute) => attr.name.toLowerCase() === 'id';
+
+// ---------- Estructura del modelo ----------
+
+// Padre de la clase (relación Inheritance: from = hijo, to = padre)
+function parentOf(content: DiagramContent, classId: string) {
+  const relation = Object.values(content.relations).find(r => r.type === 'Inheritance' && r.from === classId && content.elements[r.to]);
+  return relation?.to;
+}
+
+/**
+ * La clase y sus ancestros, de la raíz a la clase.
+ */
+export function lineageOf(content: DiagramContent, classId: string) {
+  const lineage = [classId];
+  for (let parent = parentOf(content, classId); parent && !lineage.includes(parent); parent = parentOf(content, parent)) {
+    lineage.unshift(parent);
+  }
+  return lineage;
+}
+
+// La clase y sus descendientes (los registros que puede devolver una consulta sobre ella)
+function familyOf(content: DiagramContent, classId: string): string[] {
+  const family = [classId];
+  for (let i = 0; i < family.length; i++) {
+    for (const relation of Object.values(content.relations)) {
+      if (relation.type === 'Inheritance' && relation.to === family[i] && content.elements[relation.from] && !family.includes(relation.from)) {
+        family.push(relation.from);
+      }
+    }
+  }
+  return family;
+}
+
+/**
+ * Atributos de la clase con los heredados (primero los del padre), únicos
+ * por nombre y sin el `id`.
+ */
+export function seedAttributesOf(content: DiagramContent, classId: string): Attribute[] {
+  const seen = new Set<string>();
+  return lineageOf(content, classId)
+    .flatMap(id => content.elements[id].attributes)
+    .filter(attr => {
+      const key = attr.name.toLowerCase();
+      if (!key || isIdAttribute(attr) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Atributo `id` de la raíz de la jerarquía. Si no lo tiene es el `id` Long
+ * que el generador de entidades agrega como clave primaria.
+ */
+export function idAttributeOf(content: DiagramContent, classId: string): Attribute {
+  const rootId = lineageOf(content, classId)[0];
+  return content.elements[rootId].attributes.find(isIdAttribute) ?? { id: `attr_${rootId}_id`, name: 'id', type: 'Long' };
+}
+
+/**
+ * Claves foráneas que generan las relaciones, con la misma convención que el
+ * código Spring Boot y Flutter: ManyToOne y OneToOne en `from`; OneToMany,
+ * Composition y Aggregation en `to`.
+ */
+export function foreignKeysOf(content: DiagramContent): SeedForeignKey[] {
+  return Object.entries(content.relations).flatMap(([relationId, relation]) => {
+    if (!content.elements[relation.from] || !content.elements[relation.to]) return [];
+    switch (relation.type) {
+      case 'ManyToOne':
+      case 'OneToOne':
+        return [{ relationId, holderId: relation.from, targetId: relation.to, unique: relation.type === 'OneToOne' }];
+      case 'OneToMany':
+      case 'Composition':
+      case 'Aggregation':
+        return [{ relationId, holderId: relation.to, targetId: relation.from, unique: false }];
+      default:
+        return [];
+    }
+  });
+}
+
+// Las ManyToMany de una clase consigo misma se omiten: su tabla intermedia repetiría la columna
+function manyToManyOf(content: DiagramContent) {
+  return Object.entries(content.relations).filter(
+    ([, r]) => r.type === 'ManyToMany' && r.from !== r.to && content.elements[r.from] && content.elements[r.to],
+  );
+}
+
+// ---------- Valores ----------
+
+function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+const isoDateTime = (date: Date) => date.toISOString().slice(0, 19);
+
+function sampleText(attr: Attribute, className: string, index: number, siblings: Attribute[]) {
+  const name = keyOf(attr.name);
+  const classKey = keyOf(className);
+  const first = pick(FIRST_NAMES, index);
+  const last = pick(LAST_NAMES, index * 3 + 1);
+  const n = index + 1;
+
+  if (/email|correo/.test(name)) return stripAccents(`${first}.${last}${n}@example.com`).toLowerCase();
+  if (/phone|telefono|celular|movil/.test(name)) return `+591 7${String(1000000 + ((index * 7919) % 9000000)).padStart(7, '0')}`;
+  if (/password|contrasena|clave/.test(name)) return `Secreta${n}23!`;
+  if (/username|usuario|login/.test(name)) return stripAccents(`${first}${last[0]}${n}`).toLowerCase();
+  if (/apellido|lastname|surname/.test(name)) return last;
+  if (/direccion|address|domicilio/.test(name)) return `${pick(STREETS, index)} #${100 + index * 37}`;
+  if (/ciudad|city/.test(name)) return pick(CITIES, index);
+  if (/pais|country/.test(name)) return pick(COUNTRIES, index);
+  if (/estado|status/.test(name)) return pick(STATUSES, index);
+  if (/codigo|code|sku/.test(name)) return `${stripAccents(className).slice(0, 3).toUpperCase()}-${1000 + n}`;
+  if (/descripcion|description|detalle|observacion|comentario|comment/.test(name)) {
+    return `${/description|comment/.test(name) ? 'Description of' : 'Descripción de'} ${className.toLowerCase()} ${n}`;
+  }
+  if (/nombre|name|titulo|title/.test(name)) {
+    const catalog = Object.entries(CATALOGS).find(([word]) => classKey.includes(word))?.[1];
+    if (catalog) return pick(catalog, index);
+    if (PERSON_CLASSES.test(classKey)) {
+      const hasLastName = siblings.some(other => /apellido|lastname|surname/.test(keyOf(other.name)));
+      return hasLastName || /first/.test(name) ? first : `${first} ${last}`;
+    }
+    return `${className} ${n}`;
+  }
+  return `${className} ${attr.name} ${n}`;
+}
+
+/**
+ * Valor de ejemplo verosímil según el nombre y el tipo del atributo; varía
+ * con el número de fila.
+ */
+export function sampleValue(attr: Attribute, className: string, index: number, siblings: Attribute[] = []): SeedValue {
+  const name = keyOf(attr.name);
+  const base = new Date(Date.UTC(2024, 0, 15));
+
+  switch (attr.type) {
+    case 'Integer':
+    case 'Long':
+      if (/edad|age/.test(name)) return 18 + ((index * 7) % 50);
+      if (/cantidad|quantity|stock|unidades/.test(name)) return 1 + ((index * 3) % 20);
+      if (/anio|year/.test(name)) return 2020 + (index % 5);
+      return (index + 1) * 10;
+    case 'Double':
+    case 'Float':
+    case 'BigDecimal':
+      if (/precio|price|monto|amount|total|costo|cost|salario|salary|importe/.test(name)) return Math.round((19.9 + index * 37.5) * 100) / 100;
+      if (/descuento|discount|porcentaje|percent/.test(name)) return (index * 5) % 30;
+      return Math.round((index + 1) * 12.5 * 100) / 100;
+    case 'Boolean':
+      return /activo|active|enabled|habilitado|disponible|available/.test(name) ? index % 4 !== 3 : index % 2 === 0;
+    case 'Date':
+    case 'LocalDate':
+      if (/nacimiento|birth/.test(name)) return isoDate(new Date(Date.UTC(1980 + ((index * 3) % 25), index % 12, 1 + ((index * 5) % 28))));
+      return isoDate(addDays(base, index * 17));
+    case 'LocalDateTime':
+      return isoDateTime(new Date(addDays(base, index * 17).getTime() + (9 + (index % 8)) * 3_600_000 + 30 * 60_000));
+    default:
+      return sampleText(attr, className, index, siblings);
+  }
+}
+
+/**
+ * Convierte un valor sugerido al tipo del atributo; undefined si no es
+ * compatible.
+ */
+function coerceValue(type: AttributeType, value: unknown): SeedValue | undefined {
+  switch (type) {
+    case 'Integer':
+    case 'Long': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      return typeof number === 'number' && Number.isInteger(number) ? number : undefined;
+    }
+    case 'Double':
+    case 'Float':
+    case 'BigDecimal': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'Boolean':
+      return typeof value === 'boolean' ? value : value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'Date':
+    case 'LocalDate':
+    case 'LocalDateTime': {
+      if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return undefined;
+      const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+      if (Number.isNaN(date.getTime())) return undefined;
+      return type === 'LocalDateTime' ? isoDateTime(date) : value.slice(0, 10);
+    }
+    default:
+      return typeof value === 'string' && value.trim() ? value.trim().slice(0, 255)
+        : typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+  }
+}
+
+// ---------- Datos ----------
+
+/**
+ * Datos de ejemplo con `rows` registros por clase. Usa los valores sugeridos
+ * que sean válidos (tipo del atributo, filas y relaciones existentes) y
+ * completa el resto con `sampleValue`. Las claves foráneas apuntan siempre a
+ * registros generados: OneToOne sin repetir destino, autorreferencias a un
+ * registro anterior, y cada ManyToMany enlaza al menos un par por registro.
+ */
+export function buildSeedData(content: DiagramContent, rows = DEFAULT_SEED_ROWS, suggestion: SeedSuggestion = {}): DiagramSeedData {
+  const count = Math.min(Math.max(Math.trunc(rows) || DEFAULT_SEED_ROWS, 1), MAX_SEED_ROWS);
+  const records: Record<string, SeedRecord[]> = {};
+
+  // IDs correlativos por jerarquía: primero los registros del padre, luego los de cada descendiente
+  const roots = Object.keys(content.elements).filter(classId => lineageOf(content, classId).length === 1);
+  for (const root of roots) {
+    let nextId = 1;
+    for (const classId of familyOf(content, root)) {
+      const element = content.elements[classId];
+      const attributes = seedAttributesOf(content, classId);
+      const suggested = suggestion.records?.[classId] ?? [];
+      records[classId] = Array.from({ length: count }, (_, row) => {
+        const id = nextId++;
+        return {
+          id,
+          // Los valores deterministas varían con el ID para no repetir los del padre
+          values: Object.fromEntries(attributes.map(attr => {
+            const value = coerceValue(attr.type, suggested[row]?.[attr.name]);
+            return [attr.name, value !== undefined ? value : sampleValue(attr, element.name, id - 1, attributes)];
+          })),
+          references: {},
+        };
+      });
+    }
+  }
+
+  const ownIds = (classId: string) => (records[classId] ?? []).map(record => record.id);
+  const poolOf = (classId: string) => familyOf(content, classId).flatMap(ownIds);
+  // Fila sugerida (1..N) de la clase destino -> ID, si existe
+  const rowToId = (classId: string, row: unknown) =>
+    typeof row === 'number' && Number.isInteger(row) ? ownIds(classId)[row - 1] : undefined;
+
+  for (const fk of foreignKeysOf(content)) {
+    if (!records[fk.holderId]) continue;
+    const pool = poolOf(fk.targetId);
+    const suggested = suggestion.references?.[fk.relationId] ?? [];
+    const used = new Set<number>();
+    // Los IDs se repiten entre jerarquías: solo en la misma puede apuntarse a sí mismo
+    const sameFamily = lineageOf(content, fk.holderId)[0] === lineageOf(content, fk.targetId)[0];
+    const valid = (id: number | undefined, record: SeedRecord): id is number =>
+      id !== undefined && !(sameFamily && id === record.id) && !(fk.unique && used.has(id));
+    familyOf(content, fk.holderId)
+      .flatMap(classId => records[classId].map((record, row) => ({ record, row, own: classId === fk.holderId })))
+      .forEach(({ record, row, own }, index) => {
+        const suggestedId = own ? rowToId(fk.targetId, suggested[row]) : undefined;
+        // Autorreferencia: al registro anterior (el primero queda sin referencia)
+        const fallback = fk.holderId === fk.targetId ? pool[pool.indexOf(record.id) - 1]
+          : fk.unique ? pool.find(id => valid(id, record)) : pool[index % pool.length];
+        const target = valid(suggestedId, record) ? suggestedId : valid(fallback, record) ? fallback : null;
+        record.references[fk.relationId] = target;
+        if (target !== null) used.add(target);
+      });
+  }
+
+  const links: Record<string, [number, number][]> = {};
+  for (const [relationId, relation] of manyToManyOf(content)) {
+    const from = poolOf(relation.from);
+    const to = poolOf(relation.to);
+    if (from.length === 0 || to.length === 0) continue;
+
+    const pairs = new Map<string, [number, number]>();
+    const add = (a?: number, b?: number) => {
+      if (a !== undefined && b !== undefined && from.includes(a) && to.includes(b)) pairs.set(`${a}:${b}`, [a, b]);
+    };
+    for (const pair of suggestion.links?.[relationId] ?? []) {
+      if (Array.isArray(pair)) add(rowToId(relation.from, pair[0]), rowToId(relation.to, pair[1]));
+    }
+    from.forEach((id, index) => {
+      if ([...pairs.values()].some(([a]) => a === id)) return;
+      add(id, to[index % to.length]);
+      if (to.length > 1 && index % 2 === 0) add(id, to[(index + 1) % to.length]);
+    });
+    links[relationId] = [...pairs.values()];
+  }
+
+  return { records, links };
+}
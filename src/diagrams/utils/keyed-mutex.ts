@@ -0,0 +1,22 @@
+// src/diagrams/utils/keyed-mutex.ts
+
+/**
+ * Serializa tareas asíncronas que comparten una misma clave (p. ej. el ID del
+ * diagrama) dentro de este proceso; tareas con claves distintas corren en paralelo.
+ */
+export class KeyedMutex<K = string | number> {
+  private readonly tails = new Map<K, Promise<unknown>>();
+
+  async run<T>(key: K, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.tails.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      // Liberar la entrada si nadie más se encoló detrás
+      if (this.tails.get(key) === current) this.tails.delete(key);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+// src/diagrams/utils/operation-buffer.spec.ts
+import { OperationBuffer } from './operation-buffer';
+
+const entry = (revision: number) => ({
+  opId: `op-${revision}`,
+  revision,
+  op: { type: 'relation:remove' as const, relationId: `r${revision}` },
+});
+
+describe('OperationBuffer', () => {
+  it('devuelve las operaciones posteriores a la revisión del cliente', () => {
+    const buffer = new OperationBuffer();
+    for (let revision = 1; revision <= 5; revision++) buffer.push(1, entry(revision));
+
+    expect(buffer.since(1, 2, 5)?.map(e => e.revision)).toEqual([3, 4, 5]);
+    expect(buffer.since(1, 5, 5)).toEqual([]);
+  });
+
+  it('devuelve null si faltan operaciones al principio o al final', () => {
+    const buffer = new OperationBuffer(3);
+    for (let revision = 1; revision <= 5; revision++) buffer.push(1, entry(revision));
+
+    // Solo quedan las revisiones 3..5
+    expect(buffer.since(1, 1, 5)).toBeNull();
+    expect(buffer.since(1, 2, 5)?.map(e => e.revision)).toEqual([3, 4, 5]);
+    // El diagrama avanzó sin pasar por el buffer (p. ej. otro proceso)
+    expect(buffer.since(1, 3, 6)).toBeNull();
+    expect(buffer.since(2, 0, 1)).toBeNull();
+  });
+
+  it('descarta primero el diagrama que lleva más tiempo sin cambios', () => {
+    const buffer = new OperationBuffer(10, 2);
+    buffer.push(1, entry(1));
+    buffer.push(2, entry(1));
+    buffer.push(1, entry(2));
+    buffer.push(3, entry(1));
+
+    expect(buffer.since(2, 0, 1)).toBeNull();
+    expect(buffer.since(1, 0, 2)?.map(e => e.revision)).toEqual([1, 2]);
+    expect(buffer.since(3, 0, 1)?.map(e => e.revision)).toEqual([1]);
+  });
+});
@@ -0,0 +1,51 @@
+// src/diagrams/utils/operation-buffer.ts
+import { DiagramOperation } from './diagram-operations';
+
+export interface BufferedOperation {
+  opId: string;
+  revision: number;
+  op: DiagramOperation;
+}
+
+/**
+ * Últimas operaciones confirmadas de cada diagrama, en memoria, para que un
+ * cliente que se reconecta se ponga al día sin consultar el registro en la base.
+ * Guarda como máximo `perDiagram` operaciones por diagrama y `maxDiagrams`
+ * diagramas (se descartan primero los que llevan más tiempo sin cambios).
+ */
+export class OperationBuffer {
+  private readonly buffers = new Map<number, BufferedOperation[]>();
+
+  constructor(
+    private readonly perDiagram = 200,
+    private readonly maxDiagrams = 500,
+  ) { }
+
+  push(diagramId: number, entry: BufferedOperation) {
+    const buffer = this.buffers.get(diagramId) ?? [];
+    // Reinsertar la clave la mueve al final del orden de la Map
+    this.buffers.delete(diagramId);
+    buffer.push(entry);
+    if (buffer.length > this.perDiagram) buffer.splice(0, buffer.length - this.perDiagram);
+    this.buffers.set(diagramId, buffer);
+
+    if (this.buffers.size > this.maxDiagrams) {
+      const [oldest] = this.buffers.keys();
+      this.buffers.delete(oldest);
+    }
+  }
+
+  /**
+   * Operaciones posteriores a `revision` hasta `currentRevision`, o `null` si
+   * el buffer no las contiene todas (el llamador debe ir al registro).
+   */
+  since(diagramId: number, revision: number, currentRevision: number): BufferedOperation[] | null {
+    if (revision >= currentRevision) return [];
+    const buffer = this.buffers.get(diagramId);
+    if (!buffer || buffer.length === 0 || buffer[0].revision > revision + 1) return null;
+
+    const missed = buffer.filter(entry => entry.revision > revision);
+    const last = missed[missed.length - 1];
+    return last && last.revision >= currentRevision ? missed : null;
+  }
+}
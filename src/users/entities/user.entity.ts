@@ -1,6 +1,7 @@
 import { Role } from "src/common/enums/role.enum";
 import { Diagram } from "src/diagrams/entities/diagram.entity";
-import { Column, DeleteDateColumn, Entity, ManyToMany, OneToMany } from "typeorm";
+import { DiagramShare } from "src/diagrams/entities/diagram-share.entity";
+import { Column, DeleteDateColumn, Entity, OneToMany } from "typeorm";
 
 @Entity()
 export class User {
@@ -23,9 +24,9 @@ export class User {
   @OneToMany(() => Diagram, (diagram) => diagram.owner)
   ownedDiagrams: Diagram[];
 
-  // Diagramas compartidos
-  @ManyToMany(() => Diagram, (diagram) => diagram.sharedWith)
-  sharedDiagrams: Diagram[];
+  // Diagramas compartidos con el usuario (con su rol)
+  @OneToMany(() => DiagramShare, (share) => share.user)
+  diagramShares: DiagramShare[];
 
   @DeleteDateColumn()
   deletedAt: Date;
@@ -0,0 +1,18 @@
+// src/workspaces/dto/add-workspace-member.dto.ts
+import { IsEmail, IsIn, IsInt, IsOptional, ValidateIf } from 'class-validator';
+import { WORKSPACE_ROLES, WorkspaceRole } from '../entities/workspace-member.entity';
+
+export class AddWorkspaceMemberDto {
+  // Se indica el usuario por ID o por correo
+  @ValidateIf((dto: AddWorkspaceMemberDto) => dto.email === undefined)
+  @IsInt()
+  userId?: number;
+
+  @ValidateIf((dto: AddWorkspaceMemberDto) => dto.userId === undefined)
+  @IsEmail()
+  email?: string;
+
+  @IsIn(WORKSPACE_ROLES)
+  @IsOptional()
+  role?: WorkspaceRole;
+}
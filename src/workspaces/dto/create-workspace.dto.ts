@@ -0,0 +1,14 @@
+// src/workspaces/dto/create-workspace.dto.ts
+import { IsIn, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { SHARE_ROLES, ShareRole } from 'src/diagrams/entities/diagram-share.entity';
+
+export class CreateWorkspaceDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsIn(SHARE_ROLES)
+  @IsOptional()
+  defaultDiagramRole?: ShareRole;
+}
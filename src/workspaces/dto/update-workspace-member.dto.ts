@@ -0,0 +1,8 @@
+// src/workspaces/dto/update-workspace-member.dto.ts
+import { IsIn } from 'class-validator';
+import { WORKSPACE_ROLES, WorkspaceRole } from '../entities/workspace-member.entity';
+
+export class UpdateWorkspaceMemberDto {
+  @IsIn(WORKSPACE_ROLES)
+  role: WorkspaceRole;
+}
@@ -0,0 +1,5 @@
+// src/workspaces/dto/update-workspace.dto.ts
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateWorkspaceDto } from './create-workspace.dto';
+
+export class UpdateWorkspaceDto extends PartialType(CreateWorkspaceDto) {}
@@ -0,0 +1,36 @@
+// src/workspaces/entities/workspace-member.entity.ts
+import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Workspace } from './workspace.entity';
+
+export const WORKSPACE_ROLES = ['owner', 'admin', 'member'] as const;
+
+/**
+ * - owner: propietario de todos los diagramas del workspace; administra miembros y owners
+ * - admin: co_owner de los diagramas; administra miembros
+ * - member: recibe `defaultDiagramRole` sobre los diagramas
+ */
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+@Entity()
+export class WorkspaceMember {
+  @PrimaryColumn()
+  workspaceId: number;
+
+  @PrimaryColumn()
+  userId: number;
+
+  @ManyToOne(() => Workspace, (workspace) => workspace.members, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace: Workspace;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 20, default: 'member' })
+  role: WorkspaceRole;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
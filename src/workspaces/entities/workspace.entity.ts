@@ -0,0 +1,34 @@
+// src/workspaces/entities/workspace.entity.ts
+import { Column, CreateDateColumn, Entity, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { Diagram } from 'src/diagrams/entities/diagram.entity';
+import { ShareRole } from 'src/diagrams/entities/diagram-share.entity';
+import { WorkspaceMember } from './workspace-member.entity';
+
+/**
+ * Equipo que posee diagramas en conjunto: sus miembros acceden a todos los
+ * diagramas del workspace según su rol (ver `roleOf` en diagram-permissions.ts).
+ */
+@Entity()
+export class Workspace {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 200 })
+  name: string;
+
+  // Rol que reciben los miembros 'member' sobre los diagramas del workspace
+  @Column({ type: 'varchar', length: 20, default: 'editor' })
+  defaultDiagramRole: ShareRole;
+
+  @OneToMany(() => WorkspaceMember, (member) => member.workspace)
+  members: WorkspaceMember[];
+
+  @OneToMany(() => Diagram, (diagram) => diagram.workspace)
+  diagrams: Diagram[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
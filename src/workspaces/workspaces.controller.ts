@@ -0,0 +1,131 @@
+// src/workspaces/workspaces.controller.ts
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Patch, Post } from '@nestjs/common';
+import { ApiBearerAuth } from '@nestjs/swagger';
+import { Auth } from 'src/auth/decorator/auth.decorators';
+import { Role } from 'src/common/enums/role.enum';
+import { ActiveUser } from 'src/common/decorator/active-user.decorator';
+import { ActiveUserInterface } from 'src/common/interfaces/active-user.interface';
+import { DiagramGateway } from 'src/diagrams/diagram.gateway';
+import { AccessChange, WorkspacesService } from './workspaces.service';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import { AddWorkspaceMemberDto } from './dto/add-workspace-member.dto';
+import { UpdateWorkspaceMemberDto } from './dto/update-workspace-member.dto';
+
+@ApiBearerAuth()
+@Controller('workspaces')
+@Auth(Role.USER)
+export class WorkspacesController {
+  constructor(
+    private readonly workspacesService: WorkspacesService,
+    private readonly diagramGateway: DiagramGateway,
+  ) { }
+
+  @Post()
+  create(@Body() createWorkspaceDto: CreateWorkspaceDto, @ActiveUser() user: ActiveUserInterface) {
+    return this.workspacesService.create(createWorkspaceDto, { id: user.sub } as any);
+  }
+
+  @Get()
+  findAll(@ActiveUser() user: ActiveUserInterface) {
+    return this.workspacesService.findAllByUser(user.sub);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.workspacesService.findOne(id, { id: user.sub } as any);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateWorkspaceDto: UpdateWorkspaceDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.workspacesService.update(id, updateWorkspaceDto, { id: user.sub } as any);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    const changes = await this.workspacesService.remove(id, { id: user.sub } as any);
+    await this.revoke(changes);
+    for (const { userId } of changes) {
+      this.diagramGateway.emitToUser(userId, 'workspace:removed', { workspaceId: id });
+    }
+    return { deleted: true };
+  }
+
+  @Get(':id/diagrams')
+  findDiagrams(@Param('id', ParseIntPipe) id: number, @ActiveUser() user: ActiveUserInterface) {
+    return this.workspacesService.findDiagrams(id, { id: user.sub } as any);
+  }
+
+  @Post(':id/diagrams/:diagramId')
+  attachDiagram(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('diagramId', ParseIntPipe) diagramId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    return this.workspacesService.attachDiagram(id, diagramId, { id: user.sub } as any);
+  }
+
+  @Delete(':id/diagrams/:diagramId')
+  async detachDiagram(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('diagramId', ParseIntPipe) diagramId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const changes = await this.workspacesService.detachDiagram(id, diagramId, { id: user.sub } as any);
+    await this.revoke(changes);
+    return { diagramId, workspaceId: null };
+  }
+
+  // ---------- Miembros ----------
+
+  @Post(':id/members')
+  async addMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() addMemberDto: AddWorkspaceMemberDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const member = await this.workspacesService.addMember(id, addMemberDto, { id: user.sub } as any);
+    this.diagramGateway.emitToUser(member.id, 'workspace:role', { workspaceId: id, role: member.role });
+    return member;
+  }
+
+  @Patch(':id/members/:userId')
+  async updateMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() updateMemberDto: UpdateWorkspaceMemberDto,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const member = await this.workspacesService.updateMember(id, userId, updateMemberDto.role, { id: user.sub } as any);
+    // Los clientes del usuario recalculan su rol en los diagramas abiertos
+    this.diagramGateway.emitToUser(userId, 'workspace:role', { workspaceId: id, role: member.role });
+    return member;
+  }
+
+  @Delete(':id/members/:userId')
+  async removeMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @ActiveUser() user: ActiveUserInterface,
+  ) {
+    const change = await this.workspacesService.removeMember(id, userId, { id: user.sub } as any);
+    await this.revoke([change]);
+    this.diagramGateway.emitToUser(userId, 'workspace:removed', { workspaceId: id });
+    return { deleted: true, revokedDiagrams: change.revoked };
+  }
+
+  /**
+   * Saca de las salas de los diagramas a quienes perdieron el acceso.
+   */
+  private async revoke(changes: AccessChange[]) {
+    for (const { userId, revoked } of changes) {
+      for (const diagramId of revoked) {
+        await this.diagramGateway.revokeAccess(diagramId, userId);
+      }
+    }
+  }
+}
@@ -0,0 +1,19 @@
+// src/workspaces/workspaces.module.ts
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from 'src/auth/auth.module';
+import { DiagramsModule } from 'src/diagrams/diagrams.module';
+import { Diagram } from 'src/diagrams/entities/diagram.entity';
+import { User } from 'src/users/entities/user.entity';
+import { Workspace } from './entities/workspace.entity';
+import { WorkspaceMember } from './entities/workspace-member.entity';
+import { WorkspacesService } from './workspaces.service';
+import { WorkspacesController } from './workspaces.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Workspace, WorkspaceMember, Diagram, User]), forwardRef(() => AuthModule), DiagramsModule],
+  controllers: [WorkspacesController],
+  providers: [WorkspacesService],
+  exports: [WorkspacesService],
+})
+export class WorkspacesModule {}
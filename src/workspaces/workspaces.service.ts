@@ -0,0 +1,248 @@
+// src/workspaces/workspaces.service.ts
+import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Diagram } from 'src/diagrams/entities/diagram.entity';
+import { DiagramsService } from 'src/diagrams/diagrams.service';
+import { Workspace } from './entities/workspace.entity';
+import { WorkspaceMember, WorkspaceRole } from './entities/workspace-member.entity';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import { UpdateWorkspaceDto } from './dto/update-workspace.dto';
+import { AddWorkspaceMemberDto } from './dto/add-workspace-member.dto';
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { member: 0, admin: 1, owner: 2 };
+
+const hasWorkspaceRole = (role: WorkspaceRole, required: WorkspaceRole) => ROLE_RANK[role] >= ROLE_RANK[required];
+
+/**
+ * Resultado de un cambio que puede quitar acceso a diagramas del workspace:
+ * `revoked` son los diagramas a los que el usuario ya no puede entrar.
+ */
+export interface AccessChange {
+  userId: number;
+  revoked: number[];
+}
+
+@Injectable()
+export class WorkspacesService {
+  constructor(
+    @InjectRepository(Workspace)
+    private readonly workspacesRepository: Repository<Workspace>,
+    @InjectRepository(WorkspaceMember)
+    private readonly membersRepository: Repository<WorkspaceMember>,
+    @InjectRepository(Diagram)
+    private readonly diagramsRepository: Repository<Diagram>,
+    @InjectRepository(User)
+    private readonly usersRepository: Repository<User>,
+    private readonly diagramsService: DiagramsService,
+  ) { }
+
+  async create(createWorkspaceDto: CreateWorkspaceDto, user: User) {
+    return this.workspacesRepository.manager.transaction(async manager => {
+      const workspace = await manager.save(Workspace, manager.create(Workspace, createWorkspaceDto));
+      await manager.save(WorkspaceMember, { workspaceId: workspace.id, userId: user.id, role: 'owner' });
+      return workspace;
+    });
+  }
+
+  async findAllByUser(userId: number) {
+    const memberships = await this.membersRepository.find({
+      where: { userId },
+      relations: ['workspace'],
+      order: { createdAt: 'ASC' },
+    });
+    return memberships.map(({ workspace, role }) => ({ ...workspace, role }));
+  }
+
+  /**
+   * Carga el workspace con sus miembros y el rol del usuario. Lanza 403 si no
+   * es miembro o si su rol es menor que `required`.
+   */
+  async findAccess(id: number, user: User, required: WorkspaceRole = 'member') {
+    const workspace = await this.workspacesRepository.findOne({
+      where: { id },
+      relations: ['members', 'members.user'],
+    });
+    if (!workspace) throw new NotFoundException('Workspace not found');
+    const role = workspace.members.find(member => member.userId === user.id)?.role;
+    if (!role) throw new ForbiddenException('Access denied');
+    if (!hasWorkspaceRole(role, required)) {
+      throw new ForbiddenException(`This action requires ${required} role in the workspace (current role: ${role})`);
+    }
+    return { workspace, role };
+  }
+
+  async findOne(id: number, user: User) {
+    const { workspace, role } = await this.findAccess(id, user);
+    const summary = ({ id, name, email }: User) => ({ id, name, email });
+    return {
+      ...workspace,
+      role,
+      members: workspace.members.map(member => ({
+        ...summary(member.user),
+        role: member.role,
+        since: member.createdAt,
+      })),
+    };
+  }
+
+  /**
+   * Cambiar el rol por defecto no quita el acceso a nadie (como mínimo queda
+   * viewer); los permisos se recalculan en cada acción sobre el diagrama.
+   */
+  async update(id: number, updateWorkspaceDto: UpdateWorkspaceDto, user: User) {
+    const { workspace } = await this.findAccess(id, user, 'admin');
+    await this.workspacesRepository.update(id, updateWorkspaceDto);
+    return { ...workspace, ...updateWorkspaceDto };
+  }
+
+  /**
+   * Elimina el workspace. Sus diagramas pasan a ser personales de su propietario,
+   * por lo que los miembros sin otro acceso lo pierden.
+   */
+  async remove(id: number, user: User) {
+    const { workspace } = await this.findAccess(id, user, 'owner');
+    const diagramIds = await this.findDiagramIds(id);
+    await this.workspacesRepository.remove(workspace);
+    return this.collectRevoked(diagramIds, workspace.members.map(member => member.userId));
+  }
+
+  async findDiagrams(id: number, user: User) {
+    await this.findAccess(id, user);
+    return this.diagramsRepository.find({
+      where: { workspace: { id } },
+      relations: ['owner'],
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  // ---------- Miembros ----------
+
+  /**
+   * Agrega un miembro por ID o correo. Admins agregan members y admins; solo
+   * un owner puede agregar otros owners.
+   */
+  async addMember(id: number, addMemberDto: AddWorkspaceMemberDto, user: User) {
+    const { workspace, role: actorRole } = await this.findAccess(id, user, 'admin');
+    const role = addMemberDto.role ?? 'member';
+    this.assertCanAssign(actorRole, role);
+
+    const newMember = addMemberDto.userId !== undefined
+      ? await this.usersRepository.findOneBy({ id: addMemberDto.userId })
+      : await this.usersRepository
+          .createQueryBuilder('user')
+          .where('LOWER(user.email) = :email', { email: addMemberDto.email!.trim().toLowerCase() })
+          .getOne();
+    if (!newMember) throw new NotFoundException('User not found');
+    if (workspace.members.some(member => member.userId === newMember.id)) {
+      throw new ConflictException('User is already a member of this workspace');
+    }
+
+    const member = await this.membersRepository.save({ workspaceId: id, userId: newMember.id, role });
+    return { id: newMember.id, name: newMember.name, email: newMember.email, role, since: member.createdAt };
+  }
+
+  async updateMember(id: number, userId: number, role: WorkspaceRole, user: User) {
+    const { workspace, role: actorRole } = await this.findAccess(id, user, 'admin');
+    const member = workspace.members.find(m => m.userId === userId);
+    if (!member) throw new NotFoundException('User is not a member of this workspace');
+    this.assertCanAssign(actorRole, role, member.role);
+    if (member.role === 'owner' && role !== 'owner') this.assertAnotherOwner(workspace, userId);
+
+    await this.membersRepository.update({ workspaceId: id, userId }, { role });
+    // Un admin que pasa a member puede quedar con un rol menor, pero nunca sin acceso
+    return { userId, role };
+  }
+
+  /**
+   * Quita un miembro. Cualquiera puede salir por sí mismo (salvo el último
+   * owner); quitar a otros requiere ser admin.
+   */
+  async removeMember(id: number, userId: number, user: User): Promise<AccessChange> {
+    const { workspace, role: actorRole } = await this.findAccess(id, user);
+    const member = workspace.members.find(m => m.userId === userId);
+    if (!member) throw new NotFoundException('User is not a member of this workspace');
+
+    if (userId !== user.id) {
+      if (!hasWorkspaceRole(actorRole, 'admin')) throw new ForbiddenException('Only workspace admins can remove members');
+      this.assertCanAssign(actorRole, null, member.role);
+    }
+    if (member.role === 'owner') this.assertAnotherOwner(workspace, userId);
+
+    await this.membersRepository.delete({ workspaceId: id, userId });
+    const [change] = await this.collectRevoked(await this.findDiagramIds(id), [userId]);
+    return change;
+  }
+
+  // ---------- Diagramas ----------
+
+  /**
+   * Mueve un diagrama personal al workspace. Requiere ser propietario del
+   * diagrama y miembro del workspace.
+   */
+  async attachDiagram(id: number, diagramId: number, user: User) {
+    await this.findAccess(id, user);
+    const diagram = await this.diagramsService.findOne(diagramId, user, 'owner');
+    if (diagram.workspace?.id === id) throw new BadRequestException('Diagram already belongs to this workspace');
+    if (diagram.workspace) throw new BadRequestException('Diagram belongs to another workspace; detach it first');
+
+    await this.diagramsRepository.update(diagramId, { workspace: { id } });
+    return { diagramId, workspaceId: id };
+  }
+
+  /**
+   * Devuelve el diagrama a su propietario como diagrama personal. Lo pueden
+   * hacer el propietario del diagrama o un admin del workspace.
+   */
+  async detachDiagram(id: number, diagramId: number, user: User): Promise<AccessChange[]> {
+    const { workspace, role } = await this.findAccess(id, user);
+    const diagram = await this.diagramsRepository.findOne({
+      where: { id: diagramId, workspace: { id } },
+      relations: ['owner'],
+    });
+    if (!diagram) throw new NotFoundException('Diagram not found in this workspace');
+    if (diagram.owner.id !== user.id && !hasWorkspaceRole(role, 'admin')) {
+      throw new ForbiddenException('Only the diagram owner or a workspace admin can detach it');
+    }
+
+    await this.diagramsRepository.update(diagramId, { workspace: null });
+    return this.collectRevoked([diagramId], workspace.members.map(member => member.userId));
+  }
+
+  private async findDiagramIds(workspaceId: number) {
+    const diagrams = await this.diagramsRepository.find({
+      select: { id: true },
+      where: { workspace: { id: workspaceId } },
+    });
+    return diagrams.map(diagram => diagram.id);
+  }
+
+  /**
+   * Para cada usuario, los diagramas a los que ya no tiene acceso
+   * (pueden conservarlo como colaboradores directos).
+   */
+  private async collectRevoked(diagramIds: number[], userIds: number[]): Promise<AccessChange[]> {
+    const changes: AccessChange[] = [];
+    for (const userId of userIds) {
+      const roles = await this.diagramsService.findRoles(diagramIds, userId);
+      changes.push({ userId, revoked: diagramIds.filter(diagramId => !roles.get(diagramId)) });
+    }
+    return changes;
+  }
+
+  /**
+   * Solo un owner puede otorgar o quitar el rol owner; los admins administran el resto.
+   */
+  private assertCanAssign(actorRole: WorkspaceRole, role: WorkspaceRole | null, previous?: WorkspaceRole) {
+    if (actorRole !== 'owner' && (role === 'owner' || previous === 'owner')) {
+      throw new ForbiddenException('Only workspace owners can grant or revoke the owner role');
+    }
+  }
+
+  private assertAnotherOwner(workspace: Workspace, userId: number) {
+    if (!workspace.members.some(member => member.role === 'owner' && member.userId !== userId)) {
+      throw new BadRequestException('A workspace must keep at least one owner');
+    }
+  }
+}